@@ -141,6 +141,12 @@ export class JsonlCompletionProvider implements vscode.CompletionItemProvider {
       const foreignKeys = await getForeignKeys(actualPath);
 
       for (const fk of foreignKeys) {
+        // Values of a composite key only make sense together, so only single-column keys are completed
+        if (fk.columns.length !== 1) {
+          continue;
+        }
+        const [column] = fk.columns;
+        const [referencedColumn] = fk.referencedColumns;
         const currentDir = path.dirname(actualPath);
         const referencedFilePath = path.join(currentDir, `${fk.referencedTable}.jsonl`);
 
@@ -151,15 +157,15 @@ export class JsonlCompletionProvider implements vscode.CompletionItemProvider {
           if (records && records.length > 0) {
             const values: string[] = [];
             for (const record of records) {
-              if (typeof record === 'object' && record !== null && fk.referencedColumn in record) {
-                const value = (record as Record<string, unknown>)[fk.referencedColumn];
+              if (typeof record === 'object' && record !== null && referencedColumn in record) {
+                const value = (record as Record<string, unknown>)[referencedColumn];
                 if (typeof value === 'string' || typeof value === 'number') {
                   values.push(String(value));
                 }
               }
             }
             if (values.length > 0) {
-              fkValues.set(fk.column, values);
+              fkValues.set(column, values);
             }
           }
         } catch {
@@ -433,14 +439,15 @@ export class JsonlCompletionProvider implements vscode.CompletionItemProvider {
         return undefined;
       }
 
-      // Check if current field is a foreign key
-      const foreignKey = foreignKeys.find((fk) => fk.column === fieldName);
+      // Check if current field is a single-column foreign key; a composite key's values only make sense together
+      const foreignKey = foreignKeys.find((fk) => fk.columns.length === 1 && fk.columns[0] === fieldName);
       if (!foreignKey) {
         return undefined;
       }
+      const [referencedColumn] = foreignKey.referencedColumns;
 
       outputChannel.appendLine(
-        `[Completion] Field "${fieldName}" is a foreign key referencing ${foreignKey.referencedTable}.${foreignKey.referencedColumn}`,
+        `[Completion] Field "${fieldName}" is a foreign key referencing ${foreignKey.referencedTable}.${referencedColumn}`,
       );
 
       // Determine the referenced JSONL file path
@@ -466,7 +473,6 @@ export class JsonlCompletionProvider implements vscode.CompletionItemProvider {
       outputChannel.appendLine(`[Completion] Found ${records.length} records in referenced file`);
 
       // Extract unique values from the referenced column
-      const referencedColumn = foreignKey.referencedColumn;
       const values = new Set<unknown>();
 
       for (const record of records) {
@@ -489,7 +495,7 @@ export class JsonlCompletionProvider implements vscode.CompletionItemProvider {
       for (const value of values) {
         const valueStr = String(value);
         const item = new vscode.CompletionItem(valueStr, vscode.CompletionItemKind.Reference);
-        item.detail = `FK → ${foreignKey.referencedTable}.${foreignKey.referencedColumn}`;
+        item.detail = `FK → ${foreignKey.referencedTable}.${referencedColumn}`;
 
         // Find the full record for documentation
         const record = records.find((r: any) => r[referencedColumn] === value);
@@ -23,8 +23,8 @@ export class ForeignKeyHoverProvider implements vscode.HoverProvider {
 
       // Format the record data
       const tableName = fkContext.foreignKey.referencedTable;
-      const primaryKeyColumn = fkContext.foreignKey.referencedColumn;
-      const markdown = formatRecordAsMarkdown(recordLocation.record, tableName, primaryKeyColumn);
+      const keyColumns = fkContext.foreignKey.referencedColumns;
+      const markdown = formatRecordAsMarkdown(recordLocation.record, tableName, keyColumns);
 
       // Create a command URI for jumping to the referenced record
       const commandUri = vscode.Uri.parse(
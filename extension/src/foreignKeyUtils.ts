@@ -2,14 +2,17 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 
 export interface ForeignKeyInfo {
-  column: string;
+  /** Referencing columns; more than one for a composite foreign key */
+  columns: string[];
   referencedTable: string;
-  referencedColumn: string;
+  /** Referenced columns, in the order of `columns` */
+  referencedColumns: string[];
 }
 
 export interface ForeignKeyContext {
   foreignKey: ForeignKeyInfo;
-  value: unknown;
+  /** Values of the foreign key columns, in the order of `columns` */
+  values: unknown[];
   currentFilePath: string;
 }
 
@@ -35,17 +38,20 @@ export async function getForeignKeys(jsonlFilePath: string): Promise<ForeignKeyI
 
     // Type assertion for schema with foreignKeys
     const schemaWithForeignKeys = schema as {
-      foreignKeys?: Array<{ column: string; references: { table: string; column: string } }>;
+      foreignKeys?: Array<
+        | { column: string; references: { table: string; column: string } }
+        | { columns: string[]; references: { table: string; columns: string[] } }
+      >;
     };
     if (!schemaWithForeignKeys.foreignKeys) {
       return [];
     }
 
-    return schemaWithForeignKeys.foreignKeys.map((fk) => ({
-      column: fk.column,
-      referencedTable: fk.references.table,
-      referencedColumn: fk.references.column,
-    }));
+    return schemaWithForeignKeys.foreignKeys.map((fk) =>
+      'columns' in fk
+        ? { columns: fk.columns, referencedTable: fk.references.table, referencedColumns: fk.references.columns }
+        : { columns: [fk.column], referencedTable: fk.references.table, referencedColumns: [fk.references.column] },
+    );
   } catch {
     // Silently fail
     return [];
@@ -86,37 +92,37 @@ export async function getForeignKeyAtPosition(
     const lineStartOffset = document.offsetAt(new vscode.Position(position.line, 0));
     const relativeOffset = cursorOffset - lineStartOffset;
 
-    // Try to determine which property the cursor is on
+    // Try to determine which property the cursor is on; any column of a composite key will do
     for (const fk of foreignKeys) {
-      if (!(fk.column in record)) {
+      if (!fk.columns.every((column) => column in record)) {
         continue;
       }
 
-      const value = record[fk.column];
-
-      // Find the position of this property in the JSON string (both key and value)
-      const propertyPattern = new RegExp(`"${fk.column}"\\s*:\\s*([^,}]+)`, 'g');
-      const match = propertyPattern.exec(lineText);
-
-      if (match) {
-        // Check if cursor is on the key name (including quotes)
-        const keyStart = match.index;
-        const keyEnd = match.index + `"${fk.column}"`.length;
-
-        // Check if cursor is on the value
-        const valueStart = match.index + match[0].indexOf(match[1]);
-        const valueEnd = valueStart + match[1].length;
-
-        // Accept cursor on either key or value
-        if (
-          (relativeOffset >= keyStart && relativeOffset <= keyEnd) ||
-          (relativeOffset >= valueStart && relativeOffset <= valueEnd)
-        ) {
-          return {
-            foreignKey: fk,
-            value,
-            currentFilePath: document.uri.fsPath,
-          };
+      for (const column of fk.columns) {
+        // Find the position of this property in the JSON string (both key and value)
+        const propertyPattern = new RegExp(`"${column}"\\s*:\\s*([^,}]+)`, 'g');
+        const match = propertyPattern.exec(lineText);
+
+        if (match) {
+          // Check if cursor is on the key name (including quotes)
+          const keyStart = match.index;
+          const keyEnd = match.index + `"${column}"`.length;
+
+          // Check if cursor is on the value
+          const valueStart = match.index + match[0].indexOf(match[1]);
+          const valueEnd = valueStart + match[1].length;
+
+          // Accept cursor on either key or value
+          if (
+            (relativeOffset >= keyStart && relativeOffset <= keyEnd) ||
+            (relativeOffset >= valueStart && relativeOffset <= valueEnd)
+          ) {
+            return {
+              foreignKey: fk,
+              values: fk.columns.map((fkColumn) => record[fkColumn]),
+              currentFilePath: document.uri.fsPath,
+            };
+          }
         }
       }
     }
@@ -155,8 +161,10 @@ export async function findReferencedRecord(context: ForeignKeyContext): Promise<
     }
 
     // Find the matching record
-    const referencedColumn = context.foreignKey.referencedColumn;
-    const recordIndex = records.findIndex((record: any) => record[referencedColumn] === context.value);
+    const referencedColumns = context.foreignKey.referencedColumns;
+    const recordIndex = records.findIndex((record: any) =>
+      referencedColumns.every((column, i) => record[column] === context.values[i]),
+    );
 
     if (recordIndex === -1) {
       return null;
@@ -183,11 +191,11 @@ export async function findReferencedRecord(context: ForeignKeyContext): Promise<
 export function formatRecordAsMarkdown(
   record: Record<string, unknown>,
   tableName: string,
-  primaryKeyColumn: string,
+  keyColumns: string[],
 ): string {
-  const primaryKeyValue = record[primaryKeyColumn];
+  const key = keyColumns.map((column) => `${column}: ${JSON.stringify(record[column])}`).join(', ');
   const lines: string[] = [
-    `**${tableName}** (${primaryKeyColumn}: ${JSON.stringify(primaryKeyValue)})`,
+    `**${tableName}** (${key})`,
     '',
     '---',
     '',
@@ -6,6 +6,7 @@ register('amaro/transform', import.meta.url);
 
 import { TypeGenerator } from './type-generator.js';
 import { LinesDB } from './database.js';
+import { tableBaseNameOf } from './directory-scanner.js';
 import { ErrorFormatter } from './error-formatter.js';
 import type { ValidationError, JsonObject, TableDefs } from './types.js';
 import { z } from 'zod';
@@ -73,7 +74,7 @@ const generateCommand = defineCommand({
 
 const validateCommand = defineCommand({
   name: 'validate',
-  description: 'Validate JSONL file(s) against schema',
+  description: 'Validate JSONL, CSV or TSV file(s) against schema',
   args: z.object({
     path: arg(z.string(), {
       positional: true,
@@ -92,17 +93,17 @@ const validateCommand = defineCommand({
 
       if (stats.isDirectory()) {
         dataDir = args.path;
-      } else if (stats.isFile() && args.path.endsWith('.jsonl')) {
+      } else if (stats.isFile() && tableBaseNameOf(basename(args.path), []) !== null) {
         dataDir = dirname(args.path);
-        tableName = basename(args.path, '.jsonl');
+        tableName = tableBaseNameOf(basename(args.path), await readdir(dataDir))!;
       } else {
-        throw new Error(`Invalid path: ${args.path}. Must be a directory or .jsonl file.`);
+        throw new Error(`Invalid path: ${args.path}. Must be a directory or a .jsonl, .jsonl.gz, .csv or .tsv file.`);
       }
 
       const db = LinesDB.create({ dataDir });
       let result;
       try {
-        result = await db.initialize({ tableName, detailedValidate: true });
+        result = await db.initialize({ tableName, detailedValidate: true, tolerant: true });
       } finally {
         await db.close();
       }
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { reapplyChanges } from './conflicts.js';
+
+describe('reapplyChanges', () => {
+  const base = [
+    { id: 1, name: 'Alice', score: 1 },
+    { id: 2, name: 'Bob', score: 2 },
+    { id: 3, name: 'Carol', score: 3 },
+  ];
+
+  it('should take the fields we changed and keep the ones they changed', () => {
+    const merged = reapplyChanges(
+      base,
+      [{ id: 1, name: 'Alice', score: 10 }, base[1], base[2]],
+      [{ id: 1, name: 'Alicia', score: 1 }, base[1], base[2]],
+      ['id'],
+    );
+
+    expect(merged).toEqual([{ id: 1, name: 'Alicia', score: 10 }, base[1], base[2]]);
+  });
+
+  it('should keep the rows they added and deleted, and follow them with the rows we added', () => {
+    const merged = reapplyChanges(
+      base,
+      [...base, { id: 5, name: 'Eve', score: 5 }],
+      [base[0], { id: 4, name: 'Dave', score: 4 }, base[2]],
+      ['id'],
+    );
+
+    expect(merged).toEqual([base[0], { id: 4, name: 'Dave', score: 4 }, base[2], { id: 5, name: 'Eve', score: 5 }]);
+  });
+
+  it('should delete the rows we deleted', () => {
+    const merged = reapplyChanges(
+      base,
+      [base[0], base[2]],
+      [base[0], { id: 2, name: 'Bobby', score: 2 }, base[2]],
+      ['id'],
+    );
+
+    expect(merged).toEqual([base[0], base[2]]);
+  });
+
+  it('should add back a row we changed that they deleted', () => {
+    const merged = reapplyChanges(
+      base,
+      [base[0], { id: 2, name: 'Bob', score: 20 }, base[2]],
+      [base[0], base[2]],
+      ['id'],
+    );
+
+    expect(merged).toEqual([base[0], base[2], { id: 2, name: 'Bob', score: 20 }]);
+  });
+
+  it('should replace their row with a row we added under the same key', () => {
+    const merged = reapplyChanges(
+      [],
+      [{ id: 1, name: 'Alice', score: 1 }],
+      [{ id: 1, name: 'Alicia', score: 9 }],
+      ['id'],
+    );
+
+    expect(merged).toEqual([{ id: 1, name: 'Alice', score: 1 }]);
+  });
+
+  it('should remove a field we removed', () => {
+    const merged = reapplyChanges(
+      [{ id: 1, name: 'Alice', nickname: 'Al' }],
+      [{ id: 1, name: 'Alice' }],
+      [{ id: 1, name: 'Alicia', nickname: 'Al' }],
+      ['id'],
+    );
+
+    expect(merged).toEqual([{ id: 1, name: 'Alicia' }]);
+  });
+
+  it('should tell a number key from the string of its digits', () => {
+    const merged = reapplyChanges([], [{ id: '1', name: 'One' }], [{ id: 1, name: 'Alice' }], ['id']);
+
+    expect(merged).toEqual([
+      { id: 1, name: 'Alice' },
+      { id: '1', name: 'One' },
+    ]);
+  });
+});
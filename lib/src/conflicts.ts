@@ -0,0 +1,84 @@
+import { canonical, rowKey } from './layers.js';
+import type { JsonObject } from './types.js';
+
+/**
+ * Re-apply the changes made to a table since its files were read onto the rows its files hold now,
+ * after something else changed them. Rows are matched by primary key:
+ *
+ * - a field our row changed takes our value, while every other field keeps theirs
+ * - a row we added replaces theirs with the same key, or follows their rows
+ * - a row we deleted is deleted
+ * - a row we changed that they deleted is added back as ours
+ *
+ * Rows without a complete primary key cannot be matched, so our changes to them are lost.
+ *
+ * @param base - The rows the files held when they were read
+ * @param ours - The rows of the table now, changed since `base`
+ * @param theirs - The rows the files hold now, changed since `base`
+ * @param primaryKey - The table's primary key
+ * @returns Their rows in their order with our changes applied, then the rows we added
+ */
+export function reapplyChanges(
+  base: JsonObject[],
+  ours: JsonObject[],
+  theirs: JsonObject[],
+  primaryKey: string[],
+): JsonObject[] {
+  const byKey = (rows: JsonObject[]) => {
+    const keyed = new Map<string, JsonObject>();
+    for (const row of rows) {
+      const key = rowKey(row, primaryKey);
+      if (key !== undefined) {
+        keyed.set(key, row);
+      }
+    }
+    return keyed;
+  };
+  const baseRows = byKey(base);
+  const ourRows = byKey(ours);
+
+  const merged = theirs.map((row) => ({ key: rowKey(row, primaryKey), row }));
+  const indexOf = new Map(merged.flatMap(({ key }, index) => (key === undefined ? [] : [[key, index]])));
+  const deleted = new Set<string>();
+
+  for (const key of baseRows.keys()) {
+    if (!ourRows.has(key)) {
+      deleted.add(key);
+    }
+  }
+  for (const [key, row] of ourRows) {
+    const before = baseRows.get(key);
+    if (before && canonical(before) === canonical(row)) {
+      continue;
+    }
+    const index = indexOf.get(key);
+    if (index === undefined) {
+      indexOf.set(key, merged.length);
+      merged.push({ key, row });
+    } else if (!before) {
+      merged[index] = { key, row };
+    } else {
+      merged[index] = { key, row: patch(merged[index].row, before, row) };
+    }
+  }
+
+  return merged.filter(({ key }) => key === undefined || !deleted.has(key)).map(({ row }) => row);
+}
+
+/**
+ * Set the fields that changed from `before` to `after` on a row, removing the ones `after` dropped
+ */
+function patch(row: JsonObject, before: JsonObject, after: JsonObject): JsonObject {
+  const patched = { ...row };
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (canonical(before[field] ?? null) === canonical(after[field] ?? null)) {
+      continue;
+    }
+    if (field in after) {
+      patched[field] = after[field];
+    } else {
+      delete patched[field];
+    }
+  }
+  return patched;
+}
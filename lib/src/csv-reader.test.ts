@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { CsvReader } from './csv-reader.js';
+import type { ColumnDefinition } from './types.js';
+
+describe('CsvReader', () => {
+  describe('parse', () => {
+    it('should read cells by the header row', () => {
+      const table = CsvReader.parse('users.csv', 'id,name\n1,Alice\n2,Bob\n');
+
+      expect(table.header).toEqual(['id', 'name']);
+      expect(table.rows).toEqual([
+        { id: '1', name: 'Alice' },
+        { id: '2', name: 'Bob' },
+      ]);
+    });
+
+    it('should read quoted cells holding delimiters, quotes and line breaks', () => {
+      const table = CsvReader.parse('notes.csv', 'id,text\n1,"a, b"\n2,"say ""hi"""\n3,"two\nlines"\n');
+
+      expect(table.rows.map((row) => row.text)).toEqual(['a, b', 'say "hi"', 'two\nlines']);
+    });
+
+    it('should split TSV cells on tabs', () => {
+      const table = CsvReader.parse('users.tsv', 'id\tname\n1\tAlice, Jr.\n');
+
+      expect(table.rows).toEqual([{ id: '1', name: 'Alice, Jr.' }]);
+    });
+
+    it('should accept CRLF line endings, a BOM and blank lines', () => {
+      const table = CsvReader.parse('users.csv', '\uFEFFid,name\r\n1,Alice\r\n\r\n2,Bob');
+
+      expect(table.header).toEqual(['id', 'name']);
+      expect(table.lineEnding).toBe('\r\n');
+      expect(table.rows).toEqual([
+        { id: '1', name: 'Alice' },
+        { id: '2', name: 'Bob' },
+      ]);
+    });
+
+    it('should leave empty cells out and keep quoted empty cells as empty strings', () => {
+      const table = CsvReader.parse('users.csv', 'id,name,nickname\n1,,""\n');
+
+      expect(table.rows).toEqual([{ id: '1', nickname: '' }]);
+    });
+
+    it('should report the columns whose cells are always quoted', () => {
+      const table = CsvReader.parse('users.csv', 'id,name,code\n1,"Alice","007"\n2,Bob,"008"\n');
+
+      expect(table.quotedColumns).toEqual(['code']);
+    });
+
+    it('should throw on a quoted cell that is never closed', () => {
+      expect(() => CsvReader.parse('users.csv', 'id,name\n1,"Alice\n')).toThrow(
+        'Failed to parse users.csv: quoted cell starting at line 2 is never closed',
+      );
+    });
+
+    it('should throw on a row with more cells than the header', () => {
+      expect(() => CsvReader.parse('users.csv', 'id,name\n1,Alice,extra\n')).toThrow(
+        'Failed to parse users.csv: row 1 has 3 cells but the header has 2',
+      );
+    });
+
+    it('should throw on a header naming a column twice', () => {
+      expect(() => CsvReader.parse('users.csv', 'id,name,name\n1,Alice,Bob\n')).toThrow(
+        "Failed to parse users.csv: the header names column 'name' more than once",
+      );
+    });
+  });
+
+  describe('toRows', () => {
+    it('should give cells the types of the columns the schema declares', () => {
+      const columns: ColumnDefinition[] = [
+        { name: 'id', type: 'INTEGER' },
+        { name: 'code', type: 'TEXT' },
+        { name: 'active', type: 'INTEGER', valueType: 'boolean' },
+        { name: 'tags', type: 'JSON' },
+      ];
+      const table = CsvReader.parse('users.csv', 'id,code,active,tags\n1,007,true,"[""a""]"\n');
+
+      expect(CsvReader.toRows(table, columns)).toEqual([{ id: 1, code: '007', active: true, tags: ['a'] }]);
+    });
+
+    it('should keep cells that do not read as their declared type as text', () => {
+      const table = CsvReader.parse('users.csv', 'id\nabc\n');
+
+      expect(CsvReader.toRows(table, [{ name: 'id', type: 'INTEGER' }])).toEqual([{ id: 'abc' }]);
+    });
+
+    it('should infer the types of columns the schema does not declare', () => {
+      const table = CsvReader.parse(
+        'users.csv',
+        'id,score,active,name,code\n1,1.5,true,Alice,"1"\n2,-3,false,42,"2"\n',
+      );
+
+      expect(CsvReader.toRows(table)).toEqual([
+        { id: 1, score: 1.5, active: true, name: 'Alice', code: '1' },
+        { id: 2, score: -3, active: false, name: '42', code: '2' },
+      ]);
+    });
+  });
+});
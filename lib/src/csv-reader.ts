@@ -0,0 +1,234 @@
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import type { ColumnDefinition, JsonObject, JsonValue } from './types.js';
+
+/**
+ * A CSV or TSV file as it is laid out, along with its rows
+ */
+export interface CsvTable {
+  /** The column names of the header row, in file order */
+  header: string[];
+  /**
+   * The cells of each row by column name. A cell left empty is absent, while a quoted empty cell
+   * (`""`) is an empty string.
+   */
+  rows: Array<Record<string, string>>;
+  /** Columns whose every non-empty cell is quoted, which the writer keeps quoting */
+  quotedColumns: string[];
+  /** The line break ending the header row, which the writer ends every row with */
+  lineEnding: '\n' | '\r\n';
+}
+
+/**
+ * Whether a table file is CSV or TSV rather than JSONL
+ */
+export function isDelimitedFile(filePath: string): boolean {
+  const extension = extname(filePath);
+  return extension === '.csv' || extension === '.tsv';
+}
+
+/**
+ * The delimiter a CSV or TSV file separates its cells with, by its extension
+ */
+export function delimiterOf(filePath: string): string {
+  return extname(filePath) === '.tsv' ? '\t' : ',';
+}
+
+export class CsvReader {
+  /**
+   * Read a CSV or TSV file with a header row, the delimiter following its extension
+   */
+  static async read(filePath: string): Promise<CsvTable> {
+    return this.parse(filePath, await readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Read a CSV or TSV file synchronously, for loading a table the moment a synchronous call first uses it
+   */
+  static readSync(filePath: string): CsvTable {
+    return this.parse(filePath, readFileSync(filePath, 'utf-8'));
+  }
+
+  /**
+   * Parse CSV or TSV content, following RFC 4180 quoting: a quoted cell may hold the delimiter,
+   * line breaks and quotes doubled as `""`
+   */
+  static parse(filePath: string, content: string): CsvTable {
+    const delimiter = delimiterOf(filePath);
+    const records = parseRecords(filePath, content.replace(/^\uFEFF/, ''), delimiter);
+    const lineBreak = content.indexOf('\n');
+    const lineEnding = lineBreak > 0 && content[lineBreak - 1] === '\r' ? '\r\n' : '\n';
+    const [headerRecord, ...rowRecords] = records;
+    if (!headerRecord) {
+      return { header: [], rows: [], quotedColumns: [], lineEnding };
+    }
+
+    const header = headerRecord.map((cell) => cell.value);
+    const duplicate = header.find((name, column) => header.indexOf(name) !== column);
+    if (duplicate !== undefined) {
+      throw new Error(`Failed to parse ${filePath}: the header names column '${duplicate}' more than once`);
+    }
+    const quoted = header.map(() => ({ quoted: 0, unquoted: 0 }));
+    const rows = rowRecords.map((record, index) => {
+      if (record.length > header.length) {
+        throw new Error(
+          `Failed to parse ${filePath}: row ${index + 1} has ${record.length} cells but the header has ${header.length}`,
+        );
+      }
+      const row: Record<string, string> = {};
+      record.forEach((cell, column) => {
+        if (cell.quoted || cell.value !== '') {
+          row[header[column]] = cell.value;
+          quoted[column][cell.quoted ? 'quoted' : 'unquoted']++;
+        }
+      });
+      return row;
+    });
+
+    return {
+      header,
+      rows,
+      quotedColumns: header.filter((_, column) => quoted[column].quoted > 0 && quoted[column].unquoted === 0),
+      lineEnding,
+    };
+  }
+
+  /**
+   * Turn the cells of a CSV or TSV file into rows, giving each value the type its column has.
+   *
+   * The columns a table's schema describes decide the type: numbers for INTEGER and REAL columns,
+   * `true`/`false` for boolean ones and parsed JSON for JSON ones. A column the schema does not
+   * describe is inferred from its cells: numbers when every unquoted cell is one, booleans when every
+   * cell is `true` or `false`, and text otherwise. A cell that cannot be read as its type is kept as
+   * text, for validation to report.
+   */
+  static toRows(table: CsvTable, columns: ColumnDefinition[] = []): JsonObject[] {
+    const declared = new Map(columns.map((column) => [column.name, column]));
+    const coercers = new Map(
+      table.header.map((name) => {
+        const column = declared.get(name);
+        return [name, column ? declaredCoercer(column) : inferredCoercer(table, name)];
+      }),
+    );
+
+    return table.rows.map((cells) => {
+      const row: JsonObject = {};
+      for (const [name, value] of Object.entries(cells)) {
+        row[name] = coercers.get(name)!(value);
+      }
+      return row;
+    });
+  }
+}
+
+type Coercer = (value: string) => JsonValue;
+
+const NUMBER_PATTERN = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+function declaredCoercer(column: ColumnDefinition): Coercer {
+  if (column.valueType === 'boolean') {
+    return (value) => (value === 'true' || value === 'false' ? value === 'true' : value);
+  }
+  switch (column.type) {
+    case 'INTEGER':
+    case 'REAL':
+      return (value) => (NUMBER_PATTERN.test(value) ? Number(value) : value);
+    case 'JSON':
+      return (value) => {
+        try {
+          return JSON.parse(value) as JsonValue;
+        } catch {
+          return value;
+        }
+      };
+    default:
+      return (value) => value;
+  }
+}
+
+function inferredCoercer(table: CsvTable, name: string): Coercer {
+  const values = table.rows.map((row) => row[name]).filter((value) => value !== undefined);
+  if (values.length > 0 && !table.quotedColumns.includes(name)) {
+    if (values.every((value) => NUMBER_PATTERN.test(value))) {
+      return (value) => Number(value);
+    }
+    if (values.every((value) => value === 'true' || value === 'false')) {
+      return (value) => value === 'true';
+    }
+  }
+  return (value) => value;
+}
+
+interface Cell {
+  value: string;
+  quoted: boolean;
+}
+
+function parseRecords(filePath: string, content: string, delimiter: string): Cell[][] {
+  const records: Cell[][] = [];
+  let record: Cell[] = [];
+  let position = 0;
+  let line = 1;
+
+  while (position < content.length) {
+    let cell: Cell;
+    if (content[position] === '"') {
+      const startLine = line;
+      let value = '';
+      position++;
+      for (;;) {
+        const quote = content.indexOf('"', position);
+        if (quote === -1) {
+          throw new Error(`Failed to parse ${filePath}: quoted cell starting at line ${startLine} is never closed`);
+        }
+        const chunk = content.slice(position, quote);
+        line += chunk.split('\n').length - 1;
+        value += chunk;
+        position = quote + 1;
+        if (content[position] !== '"') {
+          break;
+        }
+        value += '"';
+        position++;
+      }
+      cell = { value, quoted: true };
+      if (position < content.length && !/[\r\n]/.test(content[position]) && content[position] !== delimiter) {
+        throw new Error(`Failed to parse ${filePath}: unexpected text after the quoted cell at line ${line}`);
+      }
+    } else {
+      let end = position;
+      while (end < content.length && content[end] !== delimiter && content[end] !== '\n' && content[end] !== '\r') {
+        end++;
+      }
+      cell = { value: content.slice(position, end), quoted: false };
+      position = end;
+    }
+    record.push(cell);
+
+    if (content[position] === delimiter) {
+      position++;
+      continue;
+    }
+    // The end of the record: a line break, CRLF or not, or the end of the file
+    if (content[position] === '\r') {
+      position++;
+    }
+    if (content[position] === '\n') {
+      position++;
+      line++;
+    }
+    // A blank line holds no record
+    if (!(record.length === 1 && !record[0].quoted && record[0].value === '')) {
+      records.push(record);
+    }
+    record = [];
+  }
+  // A delimiter ending the file leaves an empty last cell
+  if (record.length > 0) {
+    record.push({ value: '', quoted: false });
+    records.push(record);
+  }
+
+  return records;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CsvWriter } from './csv-writer.js';
+import { CsvReader } from './csv-reader.js';
+import type { JsonObject } from './types.js';
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('CsvWriter', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `csv-writer-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('write', () => {
+    it('should write rows under a header row', async () => {
+      const filePath = join(testDir, 'users.csv');
+
+      await CsvWriter.write(filePath, [
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob' },
+      ]);
+
+      expect(await readFile(filePath, 'utf-8')).toBe('id,name\n1,Alice\n2,Bob\n');
+    });
+
+    it('should separate TSV cells with tabs', async () => {
+      const filePath = join(testDir, 'users.tsv');
+
+      await CsvWriter.write(filePath, [{ id: 1, name: 'Alice, Jr.' }]);
+
+      expect(await readFile(filePath, 'utf-8')).toBe('id\tname\n1\tAlice, Jr.\n');
+    });
+
+    it('should keep the line breaks of the file and leave it alone when nothing changed', async () => {
+      const filePath = join(testDir, 'users.csv');
+      await writeFile(filePath, 'id,name\r\n1,Alice\r\n2,Bob\r\n');
+      const { header, quotedColumns, lineEnding } = await CsvReader.read(filePath);
+
+      expect(
+        await CsvWriter.write(
+          filePath,
+          [
+            { id: 1, name: 'Alice' },
+            { id: 2, name: 'Bob' },
+          ],
+          { header, lineEnding },
+        ),
+      ).toBeUndefined();
+      expect(
+        await CsvWriter.write(
+          filePath,
+          [
+            { id: 1, name: 'Alice' },
+            { id: 2, name: 'Bobby' },
+          ],
+          {
+            header,
+            quotedColumns,
+            lineEnding,
+          },
+        ),
+      ).toBe(createHash('sha256').update('id,name\r\n1,Alice\r\n2,Bobby\r\n').digest('hex'));
+      expect(await readFile(filePath, 'utf-8')).toBe('id,name\r\n1,Alice\r\n2,Bobby\r\n');
+    });
+
+    it('should keep the byte order mark the file starts with', async () => {
+      const filePath = join(testDir, 'users.csv');
+      await writeFile(filePath, '\uFEFFid,name\n1,Alice\n');
+
+      expect(await CsvWriter.write(filePath, [{ id: 1, name: 'Alice' }])).toBeUndefined();
+      await CsvWriter.write(filePath, [{ id: 1, name: 'Alicia' }]);
+      expect(await readFile(filePath, 'utf-8')).toBe('\uFEFFid,name\n1,Alicia\n');
+    });
+  });
+
+  describe('format', () => {
+    it('should keep the header order and append fields it lacks', () => {
+      const content = CsvWriter.format('users.csv', [{ id: 1, name: 'Alice', age: 30 }], { header: ['name', 'id'] });
+
+      expect(content).toBe('name,id,age\nAlice,1,30\n');
+    });
+
+    it('should keep quoting the columns the file quotes', () => {
+      const content = CsvWriter.format('users.csv', [{ id: 1, code: '007' }], { quotedColumns: ['code'] });
+
+      expect(content).toBe('id,code\n1,"007"\n');
+    });
+
+    it('should quote cells holding delimiters, quotes and line breaks', () => {
+      const content = CsvWriter.format('notes.csv', [{ text: 'a, b' }, { text: 'say "hi"' }, { text: 'two\nlines' }]);
+
+      expect(content).toBe('text\n"a, b"\n"say ""hi"""\n"two\nlines"\n');
+    });
+
+    it('should write what reads back as the same rows', () => {
+      const rows: JsonObject[] = [
+        { id: 1, name: '', nickname: null, tags: ['a', 'b'] },
+        { id: 2, name: 'Bob' },
+      ];
+      const content = CsvWriter.format('users.csv', rows);
+
+      expect(content).toBe('id,name,nickname,tags\n1,"",,"[""a"",""b""]"\n2,Bob,,\n');
+      expect(CsvReader.toRows(CsvReader.parse('users.csv', content), [{ name: 'tags', type: 'JSON' }])).toEqual([
+        { id: 1, name: '', tags: ['a', 'b'] },
+        { id: 2, name: 'Bob' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { readFile } from 'node:fs/promises';
+import { delimiterOf } from './csv-reader.js';
+import { writeFileAtomic } from './file-lock.js';
+import type { JsonObject, JsonValue } from './types.js';
+
+/**
+ * How a CSV or TSV file is laid out, as `CsvReader` found it
+ */
+export interface CsvLayout {
+  /** Column order. Fields the rows have beyond it follow, in the order the rows list them. */
+  header?: string[];
+  /** Columns whose cells are always quoted */
+  quotedColumns?: string[];
+  /** The line break ending each row. Defaults to `\n`. */
+  lineEnding?: '\n' | '\r\n';
+}
+
+export class CsvWriter {
+  /**
+   * Write rows to a CSV or TSV file with a header row, the delimiter following its extension. A byte
+   * order mark the file starts with is kept, and the file is not touched when it already holds the rows
+   * as they would be written.
+   *
+   * @returns The hash of the content written, as `writeFileAtomic` returns it, or undefined when the file
+   * was left as it was
+   */
+  static async write(filePath: string, rows: JsonObject[], layout: CsvLayout = {}): Promise<string | undefined> {
+    const previous = await readFile(filePath, 'utf-8').catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    });
+    const bom = previous?.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const content = bom + this.format(filePath, rows, layout);
+    if (content === previous) {
+      return undefined;
+    }
+    return writeFileAtomic(filePath, content);
+  }
+
+  /**
+   * Format rows as the content of a CSV or TSV file.
+   *
+   * A missing or null value is written as an empty cell, an empty string as `""` so that it reads
+   * back as one, and an object or array as JSON. A cell is quoted when its column is, or when it holds
+   * the delimiter, a quote or a line break.
+   */
+  static format(filePath: string, rows: JsonObject[], layout: CsvLayout = {}): string {
+    const delimiter = delimiterOf(filePath);
+    const header = [...(layout.header ?? [])];
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!header.includes(key)) {
+          header.push(key);
+        }
+      }
+    }
+    const quotedColumns = new Set(layout.quotedColumns ?? []);
+
+    const lines = [
+      header.map((name) => formatCell(name, false, delimiter)).join(delimiter),
+      ...rows.map((row) =>
+        header.map((name) => formatValue(row[name], quotedColumns.has(name), delimiter)).join(delimiter),
+      ),
+    ];
+    const lineEnding = layout.lineEnding ?? '\n';
+    return lines.join(lineEnding) + lineEnding;
+  }
+}
+
+function formatValue(value: JsonValue | undefined, quoted: boolean, delimiter: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (value === '') {
+    return '""';
+  }
+  return formatCell(typeof value === 'object' ? JSON.stringify(value) : String(value), quoted, delimiter);
+}
+
+function formatCell(value: string, quoted: boolean, delimiter: string): string {
+  if (quoted || value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
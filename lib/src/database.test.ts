@@ -1,9 +1,12 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { LinesDB } from './database.js';
+import { JsonlReader } from './jsonl-reader.js';
+import { FileLock } from './file-lock.js';
 import type { DatabaseConfig } from './types.js';
-import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { writeFile, readFile, readdir, mkdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { gunzipSync, gzipSync } from 'node:zlib';
 
 describe('LinesDB', () => {
   let testDir: string;
@@ -338,6 +341,235 @@ export const schema = defineSchema(rawSchema);
     });
   });
 
+  describe('upsert operations', () => {
+    it('should insert a new row and update an existing one', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice","age":30}\n');
+
+      type Tables = {
+        users: { id: number; name: string; age: number };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      db.upsert('users', { id: 1, name: 'Alice', age: 31 });
+      db.upsert('users', { id: 2, name: 'Bob', age: 25 });
+
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } })).toEqual([
+        { id: 1, name: 'Alice', age: 31 },
+        { id: 2, name: 'Bob', age: 25 },
+      ]);
+
+      await db.close();
+
+      const content = await readFile(join(testDir, 'users.jsonl'), 'utf-8');
+      expect(content).toBe('{"id":1,"name":"Alice","age":31}\n{"id":2,"name":"Bob","age":25}\n');
+    });
+
+    it('should batch upsert rows', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice","age":30}\n{"id":2,"name":"Bob","age":25}\n');
+
+      type Tables = {
+        users: { id: number; name: string; age: number };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      const result = db.batchUpsert('users', [
+        { id: 2, name: 'Bob', age: 26 },
+        { id: 3, name: 'Carol', age: 41 },
+      ]);
+      expect(result.changes).toBe(2n);
+
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } }).map((u) => u.age)).toEqual([30, 26, 41]);
+
+      await db.close();
+    });
+
+    it('should validate the row merged over the existing one', async () => {
+      await writeFile(join(testDir, 'users.jsonl'), '{"id":1,"name":"Alice"}\n');
+      await writeFile(
+        join(testDir, 'users.schema.ts'),
+        `
+        export const schema = {
+          primaryKey: 'id',
+          '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: (data) => {
+              const issues = [];
+              if (!data.name || data.name.length === 0) {
+                issues.push({ message: 'Name is required' });
+              }
+              return { value: data, issues };
+            }
+          }
+        };
+      `,
+      );
+
+      type Tables = {
+        users: { id: number; name: string };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      expect(() => db.upsert('users', { id: 1, name: '' })).toThrow(/Validation/);
+      expect(() =>
+        db.batchUpsert('users', [
+          { id: 1, name: 'Alicia' },
+          { id: 2, name: '' },
+        ]),
+      ).toThrow('Validation failed for 1 row(s)');
+      expect(db.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+
+      await db.close();
+    });
+
+    it('should require the primary key', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+
+      const config: DatabaseConfig<{ users: { id?: number; name: string } }> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      expect(() => db.upsert('users', { name: 'Bob' })).toThrow("Record is missing primary key 'id'");
+
+      await db.close();
+    });
+  });
+
+  describe('async validation', () => {
+    type Tables = {
+      users: { id: number; name: string };
+    };
+
+    beforeEach(async () => {
+      await writeFile(join(testDir, 'users.jsonl'), '{"id":1,"name":"Alice"}\n');
+      await writeFile(
+        join(testDir, 'users.schema.ts'),
+        `
+        export const schema = {
+          primaryKey: 'id',
+          '~standard': {
+            version: 1,
+            vendor: 'test',
+            validate: async (data) => {
+              await new Promise((resolve) => setTimeout(resolve, 1));
+              const issues = [];
+              if (!data.name || data.name.length === 0) {
+                issues.push({ message: 'Name is required', path: ['name'] });
+              }
+              return issues.length > 0 ? { issues } : { value: { ...data, name: data.name.trim() } };
+            }
+          }
+        };
+      `,
+      );
+    });
+
+    it('should tell a lazy initialize to load a table with an asynchronous schema', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize({ lazy: true });
+
+      expect(() => db.find('users')).toThrow(
+        "Table 'users' has an asynchronous validation schema. Loading a table on first use needs a synchronous " +
+          'schema: name it in the tables initialize() loads.',
+      );
+      await db.close();
+
+      const eager = LinesDB.create<Tables>({ dataDir: testDir });
+      await eager.initialize({ lazy: true, tables: ['users'] });
+      expect(eager.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+      await eager.close();
+    });
+
+    it('should await validation while loading tables', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+
+      expect(db.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+
+      await db.close();
+    });
+
+    it('should reject the synchronous API for an asynchronous schema', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+
+      expect(() => db.insert('users', { id: 2, name: 'Bob' })).toThrow(
+        "Table 'users' has an asynchronous validation schema",
+      );
+      expect(() => db.update('users', { name: 'Alicia' }, { id: 1 })).toThrow(/insertAsync, updateAsync/);
+      expect(db.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+
+      await db.close();
+    });
+
+    it('should insert and update rows with async methods', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+
+      await db.insertAsync('users', { id: 2, name: 'Bob' });
+      await db.batchInsertAsync('users', [
+        { id: 3, name: 'Carol' },
+        { id: 4, name: 'Dave' },
+      ]);
+      await db.updateAsync('users', { name: 'Alicia' }, { id: 1 });
+
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } }).map((u) => u.name)).toEqual([
+        'Alicia',
+        'Bob',
+        'Carol',
+        'Dave',
+      ]);
+
+      await db.close();
+    });
+
+    it('should reject invalid rows with async methods', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+
+      await expect(db.insertAsync('users', { id: 2, name: '' })).rejects.toThrow(
+        "Validation failed for table 'users':\n  - name: Name is required",
+      );
+      await expect(
+        db.batchInsertAsync('users', [
+          { id: 3, name: 'Carol' },
+          { id: 4, name: '' },
+        ]),
+      ).rejects.toThrow(/Validation failed/);
+      await expect(db.updateAsync('users', { name: '' }, { id: 1 })).rejects.toThrow(/Validation failed/);
+
+      expect(db.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+
+      await db.close();
+    });
+
+    it('should update only the rows it validated', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+
+      const updating = db.updateAsync('users', { name: 'Alicia' }, { name: { like: 'A%' } });
+      // A row that starts matching while validation is awaited was never checked
+      db.insert('users', { id: 2, name: 'Anna' }, { validate: false });
+      await updating;
+
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } })).toEqual([
+        { id: 1, name: 'Alicia' },
+        { id: 2, name: 'Anna' },
+      ]);
+
+      await db.close();
+    });
+  });
+
   describe('delete operations', () => {
     it('should delete rows', async () => {
       await writeTable('users', '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
@@ -402,95 +634,1905 @@ export const schema = defineSchema(rawSchema);
     });
   });
 
-  describe('JSON columns', () => {
-    it('should handle JSON objects', async () => {
-      await writeTable('records', '{"id":1,"data":{"key":"value"}}\n');
+  describe('transactions', () => {
+    type Tables = {
+      users: { id: number; name: string };
+    };
 
-      type Tables = {
-        records: { id: number; data: { key: string } };
-      };
+    it('should roll back only the failed nested transaction', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
 
       const config: DatabaseConfig<Tables> = { dataDir: testDir };
       const db = LinesDB.create(config);
       await db.initialize();
 
-      const records = db.find('records');
-      expect(records[0].data).toEqual({ key: 'value' });
+      await db.transaction(async (tx) => {
+        tx.insert('users', { id: 2, name: 'Bob' });
+
+        await expect(
+          tx.transaction(async (inner) => {
+            inner.insert('users', { id: 3, name: 'Carol' });
+            throw new Error('inner failure');
+          }),
+        ).rejects.toThrow('inner failure');
+
+        await tx.transaction(async (inner) => {
+          inner.insert('users', { id: 4, name: 'Dave' });
+        });
+
+        // Nothing is written back before the outermost transaction commits
+        const content = await readFile(join(testDir, 'users.jsonl'), 'utf-8');
+        expect(content).toBe('{"id":1,"name":"Alice"}\n');
+      });
+
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } }).map((u) => u.id)).toEqual([1, 2, 4]);
+
+      const content = await readFile(join(testDir, 'users.jsonl'), 'utf-8');
+      expect(content).toBe('{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n{"id":4,"name":"Dave"}\n');
 
       await db.close();
     });
 
-    it('should handle JSON arrays', async () => {
-      await writeTable('records', '{"id":1,"tags":["a","b","c"]}\n');
-
-      type Tables = {
-        records: { id: number; tags: string[] };
-      };
+    it('should roll back committed nested transactions when the outer one fails', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
 
       const config: DatabaseConfig<Tables> = { dataDir: testDir };
       const db = LinesDB.create(config);
       await db.initialize();
 
-      const records = db.find('records');
-      expect(records[0].tags).toEqual(['a', 'b', 'c']);
+      await expect(
+        db.transaction(async (tx) => {
+          await tx.transaction(async (inner) => {
+            inner.insert('users', { id: 2, name: 'Bob' });
+          });
+          throw new Error('outer failure');
+        }),
+      ).rejects.toThrow('outer failure');
+
+      expect(db.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+
+      // The database accepts a new transaction afterwards
+      await db.transaction((tx) => {
+        tx.insert('users', { id: 3, name: 'Carol' });
+      });
+      expect(db.find('users')).toHaveLength(2);
 
       await db.close();
     });
 
-    it('should insert JSON columns', async () => {
-      await writeTable('records', '{"id":1,"data":{}}\n');
+    it('should reject a transaction started on the database while another runs', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
 
-      type Tables = {
-        records: { id: number; data: { key: string } };
-      };
+      let concurrent: Promise<void> | undefined;
+      await expect(
+        db.transaction(async (tx) => {
+          tx.insert('users', { id: 2, name: 'Bob' });
+          concurrent = expect(
+            db.transaction((other) => {
+              other.insert('users', { id: 3, name: 'Carol' });
+            }),
+          ).rejects.toThrow('Another transaction is running');
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          throw new Error('outer failure');
+        }),
+      ).rejects.toThrow('outer failure');
+
+      await concurrent;
+      expect(db.find('users')).toEqual([{ id: 1, name: 'Alice' }]);
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe('{"id":1,"name":"Alice"}\n');
 
-      const config: DatabaseConfig<Tables> = { dataDir: testDir };
-      const db = LinesDB.create(config);
+      await db.close();
+    });
+
+    it('should reject a nested transaction started while another of the same transaction runs', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create({ dataDir: testDir });
       await db.initialize();
 
-      db.insert('records', { id: 2, data: { key: 'new value' } });
+      await db.transaction(async (tx) => {
+        const first = tx.transaction(async (inner) => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          inner.insert('users', { id: 2, name: 'Bob' });
+        });
+        await expect(
+          tx.transaction((inner) => {
+            inner.insert('users', { id: 3, name: 'Carol' });
+          }),
+        ).rejects.toThrow('Cannot start a nested transaction');
+        await first;
+      });
 
-      const record = db.findOne('records', { id: 2 });
-      expect(record?.data).toEqual({ key: 'new value' });
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } }).map((u) => u.id)).toEqual([1, 2]);
 
       await db.close();
     });
   });
 
-  describe('raw SQL queries', () => {
-    it('should execute raw queries', async () => {
-      await writeFile(join(testDir, 'users.jsonl'), '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
+  describe('events', () => {
+    type Tables = {
+      users: { id: number; name: string };
+    };
 
-      type Tables = {
-        users: { id: number; name: string };
-      };
+    const createDb = async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+      return db;
+    };
 
-      const config: DatabaseConfig<Tables> = { dataDir: testDir };
-      const db = LinesDB.create(config);
+    it('should emit the rows each mutation changes', async () => {
+      const db = await createDb();
+      const events: unknown[] = [];
+      db.on('insert', (event) => events.push(['insert', event]));
+      db.on('update', (event) => events.push(['update', event]));
+      db.on('delete', (event) => events.push(['delete', event]));
+
+      db.insert('users', { id: 3, name: 'Carol' });
+      db.update('users', { name: 'Alicia' }, { id: 1 });
+      db.delete('users', { id: 2 });
+
+      expect(events).toEqual([
+        [
+          'insert',
+          {
+            table: 'users',
+            changes: [{ key: 3, before: null, after: { id: 3, name: 'Carol' } }],
+            transactionId: null,
+          },
+        ],
+        [
+          'update',
+          {
+            table: 'users',
+            changes: [{ key: 1, before: { id: 1, name: 'Alice' }, after: { id: 1, name: 'Alicia' } }],
+            transactionId: null,
+          },
+        ],
+        [
+          'delete',
+          {
+            table: 'users',
+            changes: [{ key: 2, before: { id: 2, name: 'Bob' }, after: null }],
+            transactionId: null,
+          },
+        ],
+      ]);
+
+      await db.close();
+    });
+
+    it('should emit one event per batch call', async () => {
+      const db = await createDb();
+      const keys: Record<string, unknown[][]> = { insert: [], update: [], delete: [] };
+      for (const name of ['insert', 'update', 'delete'] as const) {
+        db.on(name, (event) => keys[name].push(event.changes.map((change) => change.key)));
+      }
+
+      db.batchInsert('users', [
+        { id: 3, name: 'Carol' },
+        { id: 4, name: 'Dave' },
+      ]);
+      db.batchUpdate('users', [
+        { id: 1, name: 'Alicia' },
+        { id: 3, name: 'Caroline' },
+      ]);
+      db.batchUpsert('users', [
+        { id: 2, name: 'Robert' },
+        { id: 5, name: 'Eve' },
+      ]);
+      db.batchDelete('users', [{ id: 4 }, { id: 5 }]);
+
+      expect(keys).toEqual({
+        insert: [[3, 4], [5]],
+        update: [[1, 3], [2]],
+        delete: [[4, 5]],
+      });
+
+      await db.close();
+    });
+
+    it('should deliver the changes of a transaction after it commits', async () => {
+      const db = await createDb();
+      const events: Array<{ keys: unknown[]; transactionId: number | null }> = [];
+      db.on('insert', (event) =>
+        events.push({ keys: event.changes.map((change) => change.key), transactionId: event.transactionId }),
+      );
+
+      await db.transaction(async (tx) => {
+        tx.insert('users', { id: 3, name: 'Carol' });
+        await tx
+          .transaction((inner) => {
+            inner.insert('users', { id: 4, name: 'Dave' });
+            throw new Error('rolled back');
+          })
+          .catch(() => {});
+        tx.insert('users', { id: 5, name: 'Eve' });
+        expect(events).toEqual([]);
+      });
+
+      expect(events.map((event) => event.keys)).toEqual([[3], [5]]);
+      expect(events[0].transactionId).not.toBeNull();
+      expect(events[1].transactionId).toBe(events[0].transactionId);
+
+      await expect(
+        db.transaction((tx) => {
+          tx.insert('users', { id: 6, name: 'Frank' });
+          throw new Error('rolled back');
+        }),
+      ).rejects.toThrow('rolled back');
+      expect(events).toHaveLength(2);
+
+      await db.close();
+    });
+
+    it('should emit sync events and stop once unsubscribed', async () => {
+      const db = await createDb();
+      const synced: unknown[] = [];
+      const unsubscribe = db.on('sync', (event) => synced.push(event));
+
+      db.insert('users', { id: 3, name: 'Carol' });
+      await db.sync();
+      expect(synced).toContainEqual({ table: 'users', file: join(testDir, 'users.jsonl'), lines: [3] });
+
+      unsubscribe();
+      synced.length = 0;
+      await db.sync();
+      expect(synced).toEqual([]);
+
+      await db.close();
+    });
+  });
+
+  describe('new columns', () => {
+    type Tables = {
+      users: { id: number; name: string; nickname?: string; active?: boolean; tags?: string[] };
+    };
+
+    it('should add a column for a field no line had', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
       await db.initialize();
 
-      const result = db.query<{ id: number; name: string }>('SELECT * FROM users WHERE id > ?', [1]);
+      db.insert('users', { id: 2, name: 'Bob', nickname: 'bobby' });
+      db.update('users', { active: true }, { id: 1 });
+      db.batchUpsert('users', [{ id: 3, name: 'Carol', tags: ['admin'] }]);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].name).toBe('Bob');
+      expect(db.getSchema('users')?.columns.slice(2)).toEqual([
+        expect.objectContaining({ name: 'nickname', type: 'TEXT', notNull: false, optional: true }),
+        expect.objectContaining({ name: 'active', type: 'INTEGER', notNull: false, valueType: 'boolean' }),
+        expect.objectContaining({ name: 'tags', type: 'JSON', notNull: false }),
+      ]);
+      // Rows that never set a new field leave it out rather than holding null
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } })).toEqual([
+        { id: 1, name: 'Alice', active: true },
+        { id: 2, name: 'Bob', nickname: 'bobby' },
+        { id: 3, name: 'Carol', tags: ['admin'] },
+      ]);
+
+      await db.sync();
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alice","active":true}\n' +
+          '{"id":2,"name":"Bob","nickname":"bobby"}\n' +
+          '{"id":3,"name":"Carol","tags":["admin"]}\n',
+      );
 
       await db.close();
     });
 
-    it('should execute queryOne', async () => {
+    it('should drop a column a rolled back transaction added', async () => {
       await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
 
-      type Tables = {
-        users: { id: number; name: string };
-      };
+      await expect(
+        db.transaction(async (tx) => {
+          tx.insert('users', { id: 2, name: 'Bob', nickname: 'bobby' });
+          throw new Error('abort');
+        }),
+      ).rejects.toThrow('abort');
+      expect(db.getSchema('users')?.columns.map((col) => col.name)).toEqual(['id', 'name']);
 
-      const config: DatabaseConfig<Tables> = { dataDir: testDir };
-      const db = LinesDB.create(config);
+      db.insert('users', { id: 3, name: 'Carol', nickname: 'caz' });
+      expect(db.findOne('users', { id: 3 })).toEqual({ id: 3, name: 'Carol', nickname: 'caz' });
+
+      await db.close();
+    });
+
+    it('should keep the null a row sets a new field to', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
       await db.initialize();
 
-      const result = db.queryOne<{ name: string }>('SELECT name FROM users WHERE id = ?', [1]);
+      db.insert('users', { id: 2, name: 'Bob', nickname: null as unknown as string });
+      expect(db.find('users', undefined, { orderBy: { id: 'asc' } })).toEqual([
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bob', nickname: null },
+      ]);
 
-      expect(result?.name).toBe('Alice');
+      await db.sync();
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob","nickname":null}\n',
+      );
+
+      await db.close();
+    });
+  });
+
+  describe('JSON columns', () => {
+    it('should handle JSON objects', async () => {
+      await writeTable('records', '{"id":1,"data":{"key":"value"}}\n');
+
+      type Tables = {
+        records: { id: number; data: { key: string } };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      const records = db.find('records');
+      expect(records[0].data).toEqual({ key: 'value' });
+
+      await db.close();
+    });
+
+    it('should handle JSON arrays', async () => {
+      await writeTable('records', '{"id":1,"tags":["a","b","c"]}\n');
+
+      type Tables = {
+        records: { id: number; tags: string[] };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      const records = db.find('records');
+      expect(records[0].tags).toEqual(['a', 'b', 'c']);
+
+      await db.close();
+    });
+
+    it('should insert JSON columns', async () => {
+      await writeTable('records', '{"id":1,"data":{}}\n');
+
+      type Tables = {
+        records: { id: number; data: { key: string } };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      db.insert('records', { id: 2, data: { key: 'new value' } });
+
+      const record = db.findOne('records', { id: 2 });
+      expect(record?.data).toEqual({ key: 'new value' });
+
+      await db.close();
+    });
+  });
+
+  describe('raw SQL queries', () => {
+    it('should execute raw queries', async () => {
+      await writeFile(join(testDir, 'users.jsonl'), '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
+
+      type Tables = {
+        users: { id: number; name: string };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      const result = db.query<{ id: number; name: string }>('SELECT * FROM users WHERE id > ?', [1]);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].name).toBe('Bob');
+
+      await db.close();
+    });
+
+    it('should execute queryOne', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+
+      type Tables = {
+        users: { id: number; name: string };
+      };
+
+      const config: DatabaseConfig<Tables> = { dataDir: testDir };
+      const db = LinesDB.create(config);
+      await db.initialize();
+
+      const result = db.queryOne<{ name: string }>('SELECT name FROM users WHERE id = ?', [1]);
+
+      expect(result?.name).toBe('Alice');
+
+      await db.close();
+    });
+  });
+
+  describe('composite primary keys', () => {
+    type Tables = {
+      user_roles: { userId: number; roleId: number; grantedBy: string };
+    };
+    type PrimaryKeys = { user_roles: 'userId' | 'roleId' };
+
+    const createDb = async () => {
+      await writeFile(
+        join(testDir, 'user_roles.jsonl'),
+        '{"userId":1,"roleId":1,"grantedBy":"root"}\n{"userId":1,"roleId":2,"grantedBy":"root"}\n{"userId":2,"roleId":1,"grantedBy":"admin"}\n',
+      );
+      // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+      await writeFile(
+        join(testDir, 'user_roles.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: ['userId', 'roleId'],
+};
+`,
+      );
+
+      const db = LinesDB.create<Tables, {}, PrimaryKeys>({ dataDir: testDir });
+      await db.initialize();
+      return db;
+    };
+
+    it('should declare the primary key as a table constraint', async () => {
+      const db = await createDb();
+
+      const table = db.queryOne<{ sql: string }>("SELECT sql FROM sqlite_master WHERE name = 'user_roles'");
+      expect(table?.sql).toContain('PRIMARY KEY ("userId", "roleId")');
+      expect(() => db.insert('user_roles', { userId: 1, roleId: 2, grantedBy: 'admin' })).toThrow(/UNIQUE/);
+
+      await db.close();
+    });
+
+    it('should upsert, batch update and batch delete rows by the whole key', async () => {
+      const db = await createDb();
+
+      db.upsert('user_roles', { userId: 2, roleId: 1, grantedBy: 'root' });
+      db.upsert('user_roles', { userId: 2, roleId: 2, grantedBy: 'root' });
+      db.batchUpdate('user_roles', [
+        { userId: 1, roleId: 2, grantedBy: 'admin' },
+        { userId: 2, roleId: 2, grantedBy: 'admin' },
+      ]);
+      const result = db.batchDelete('user_roles', [
+        { userId: 1, roleId: 1 },
+        { userId: 2, roleId: 1 },
+      ]);
+      expect(result.changes).toBe(2n);
+
+      expect(db.find('user_roles', undefined, { orderBy: [{ userId: 'asc' }, { roleId: 'asc' }] })).toEqual([
+        { userId: 1, roleId: 2, grantedBy: 'admin' },
+        { userId: 2, roleId: 2, grantedBy: 'admin' },
+      ]);
+
+      await db.close();
+    });
+
+    it('should require every key column', async () => {
+      const db = await createDb();
+
+      // @ts-expect-error roleId is part of the key
+      expect(() => db.batchUpdate('user_roles', [{ userId: 1, grantedBy: 'admin' }])).toThrow(
+        "Record is missing primary key ('userId', 'roleId')",
+      );
+      // @ts-expect-error userId is part of the key
+      expect(() => db.batchDelete('user_roles', [{ roleId: 1 }])).toThrow(
+        "Record at index 0 is missing primary key ('userId', 'roleId')",
+      );
+      expect(() => db.batchUpdate('user_roles', [{ userId: 3, roleId: 1, grantedBy: 'admin' }])).toThrow(
+        'No existing row found with (userId, roleId)=[3,1]',
+      );
+
+      await db.close();
+    });
+
+    it('should reject a key column the table does not have', async () => {
+      await writeFile(join(testDir, 'user_roles.jsonl'), '{"userId":1,"grantedBy":"root"}\n');
+      await writeFile(
+        join(testDir, 'user_roles.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: ['userId', 'roleId'],
+};
+`,
+      );
+      const db = LinesDB.create<Tables, {}, PrimaryKeys>({ dataDir: testDir });
+
+      await expect(db.initialize()).rejects.toThrow("Primary key column 'roleId' of table 'user_roles'");
+
+      await db.close();
+    });
+
+    it('should key change events by the tuple', async () => {
+      const db = await createDb();
+      const changes: unknown[] = [];
+      db.on('update', (event) => changes.push(...event.changes));
+
+      db.update('user_roles', { roleId: 3 }, { userId: 2 });
+
+      expect(changes).toEqual([
+        {
+          key: [2, 1],
+          before: { userId: 2, roleId: 1, grantedBy: 'admin' },
+          after: { userId: 2, roleId: 3, grantedBy: 'admin' },
+        },
+      ]);
+
+      await db.close();
+    });
+  });
+
+  describe('foreign key actions', () => {
+    // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+    const writeChildTable = async (tableName: string, contents: string, foreignKey: string) => {
+      await writeFile(join(testDir, `${tableName}.jsonl`), contents);
+      await writeFile(
+        join(testDir, `${tableName}.schema.ts`),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  foreignKeys: [${foreignKey}],
+};
+`,
+      );
+    };
+
+    type Tables = {
+      authors: { id: number; name: string };
+      posts: { id: number; authorId: number; title: string };
+      comments: { id: number; postId: number | null; body: string };
+    };
+
+    const createDb = async () => {
+      await writeTable('authors', '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
+      await writeChildTable(
+        'posts',
+        '{"id":1,"authorId":1,"title":"Hello"}\n{"id":2,"authorId":2,"title":"Hi"}\n',
+        `{ column: 'authorId', references: { table: 'authors', column: 'id' }, onDelete: 'CASCADE', onUpdate: 'CASCADE' }`,
+      );
+      await writeChildTable(
+        'comments',
+        '{"id":1,"postId":1,"body":"Nice"}\n{"id":2,"postId":2,"body":"Cool"}\n{"id":3,"postId":null,"body":"Hm"}\n',
+        `{ column: 'postId', references: { table: 'posts', column: 'id' }, onDelete: 'SET NULL' }`,
+      );
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize();
+      return db;
+    };
+
+    const readLines = async (tableName: string) =>
+      (await readFile(join(testDir, `${tableName}.jsonl`), 'utf-8')).trim().split('\n');
+
+    it('should write back the tables a delete cascades to', async () => {
+      const db = await createDb();
+
+      db.delete('authors', { id: 1 });
+      await db.sync('authors');
+      await db.close();
+
+      expect(await readLines('authors')).toEqual(['{"id":2,"name":"Bob"}']);
+      expect(await readLines('posts')).toEqual(['{"id":2,"authorId":2,"title":"Hi"}']);
+      expect(await readLines('comments')).toEqual([
+        '{"id":1,"postId":null,"body":"Nice"}',
+        '{"id":2,"postId":2,"body":"Cool"}',
+        '{"id":3,"postId":null,"body":"Hm"}',
+      ]);
+    });
+
+    it('should write back the tables an update cascades to', async () => {
+      const db = await createDb();
+
+      db.update('authors', { id: 3 }, { id: 2 });
+      await db.close();
+
+      expect(await readLines('posts')).toEqual([
+        '{"id":1,"authorId":1,"title":"Hello"}',
+        '{"id":2,"authorId":3,"title":"Hi"}',
+      ]);
+    });
+
+    it('should write back the tables a batch delete in a transaction cascades to', async () => {
+      const db = await createDb();
+
+      await db.transaction((tx) => {
+        tx.batchDelete('posts', [{ id: 1 }, { id: 2 }]);
+      });
+      db.insert('authors', { id: 3, name: 'Carol' });
+      await db.close();
+
+      expect(await readLines('posts')).toEqual(['']);
+      expect(await readLines('comments')).toEqual([
+        '{"id":1,"postId":null,"body":"Nice"}',
+        '{"id":2,"postId":null,"body":"Cool"}',
+        '{"id":3,"postId":null,"body":"Hm"}',
+      ]);
+    });
+  });
+
+  describe('composite foreign keys', () => {
+    // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+    const writeKeyedTable = async (tableName: string, contents: string, primaryKey: string[], foreignKeys = '') => {
+      await writeFile(join(testDir, `${tableName}.jsonl`), contents);
+      await writeFile(
+        join(testDir, `${tableName}.schema.ts`),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: ${JSON.stringify(primaryKey)},
+  foreignKeys: [${foreignKeys}],
+};
+`,
+      );
+    };
+
+    type Tables = {
+      products: { tenantId: number; code: string; name: string };
+      stock: { id: number; tenantId: number; productCode: string | null; qty: number };
+    };
+
+    const writeTables = async (stock: string) => {
+      await writeKeyedTable(
+        'products',
+        '{"tenantId":1,"code":"A","name":"Apple"}\n{"tenantId":2,"code":"A","name":"Avocado"}\n',
+        ['tenantId', 'code'],
+      );
+      await writeKeyedTable(
+        'stock',
+        stock,
+        ['id'],
+        `{ columns: ['tenantId', 'productCode'], references: { table: 'products', columns: ['tenantId', 'code'] } }`,
+      );
+    };
+
+    it('should reference a composite key and include the referenced row', async () => {
+      await writeTables(
+        '{"id":1,"tenantId":2,"productCode":"A","qty":5}\n{"id":2,"tenantId":1,"productCode":null,"qty":0}\n',
+      );
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      const result = await db.initialize({ detailedValidate: true });
+      expect(result.valid).toBe(true);
+
+      const stock = db.find('stock', undefined, { orderBy: { id: 'asc' }, include: { products: true } });
+      expect(stock.map((row) => row.products)).toEqual([{ tenantId: 2, code: 'A', name: 'Avocado' }, null]);
+      expect(() => db.insert('stock', { id: 3, tenantId: 2, productCode: 'B', qty: 1 })).toThrow(/FOREIGN KEY/);
+
+      await db.close();
+    });
+
+    it('should reject a foreign key whose column lists differ in length', async () => {
+      await writeKeyedTable('products', '{"tenantId":1,"code":"A","name":"Apple"}\n', ['tenantId', 'code']);
+      await writeKeyedTable(
+        'stock',
+        '{"id":1,"tenantId":1,"productCode":"A","qty":5}\n',
+        ['id'],
+        `{ columns: ['tenantId', 'productCode'], references: { table: 'products', columns: ['code'] } }`,
+      );
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await expect(db.initialize()).rejects.toThrow(
+        "Foreign key (tenantId, productCode) of table 'stock' lists 2 column(s) but references 1 of table 'products' (code)",
+      );
+
+      await db.close();
+    });
+
+    it('should report every column of a composite key a row fails', async () => {
+      await writeTables(
+        '{"id":1,"tenantId":1,"productCode":"A","qty":5}\n{"id":2,"tenantId":3,"productCode":"A","qty":1}\n',
+      );
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      const result = await db.initialize({ detailedValidate: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        tableName: 'stock',
+        rowIndex: 1,
+        foreignKeyError: {
+          column: 'tenantId, productCode',
+          value: [3, 'A'],
+          referencedTable: 'products',
+          referencedColumn: 'tenantId, code',
+          columns: ['tenantId', 'productCode'],
+          referencedColumns: ['tenantId', 'code'],
+        },
+      });
+
+      await db.close();
+    });
+
+    it('should validate circular composite foreign keys after all tables are loaded', async () => {
+      // Each region has a head store, and each store belongs to a region of the same tenant
+      await writeKeyedTable(
+        'regions',
+        '{"tenantId":1,"code":"east","hqStore":"s1"}\n{"tenantId":1,"code":"west","hqStore":"s9"}\n',
+        ['tenantId', 'code'],
+        `{ columns: ['tenantId', 'hqStore'], references: { table: 'stores', columns: ['tenantId', 'code'] } }`,
+      );
+      await writeKeyedTable(
+        'stores',
+        '{"tenantId":1,"code":"s1","region":"east"}\n',
+        ['tenantId', 'code'],
+        `{ columns: ['tenantId', 'region'], references: { table: 'regions', columns: ['tenantId', 'code'] } }`,
+      );
+
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize({ detailedValidate: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        tableName: 'regions',
+        rowIndex: 1,
+        foreignKeyError: {
+          value: [1, 's9'],
+          columns: ['tenantId', 'hqStore'],
+          referencedColumns: ['tenantId', 'code'],
+        },
+      });
+
+      await db.close();
+    });
+  });
+
+  describe('checks and defaults', () => {
+    type Tables = {
+      products: { id: number; price: number; status: string };
+    };
+
+    const createDb = async (contents: string, detailedValidate = true) => {
+      await writeFile(join(testDir, 'products.jsonl'), contents);
+      // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+      await writeFile(
+        join(testDir, 'products.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  defaults: { status: 'draft' },
+  checks: [
+    { name: 'price_non_negative', expression: 'price >= 0' },
+    { name: 'status_known', expression: "status IN ('draft', 'published')" },
+  ],
+};
+`,
+      );
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      const result = await db.initialize({ detailedValidate });
+      return { db, result };
+    };
+
+    it('should enforce checks and fill in defaults for raw SQL', async () => {
+      const { db, result } = await createDb('{"id":1,"price":100,"status":"published"}\n');
+      expect(result.valid).toBe(true);
+
+      db.execute('INSERT INTO products (id, price) VALUES (?, ?)', [2, 50]);
+      expect(db.findOne('products', { id: 2 })).toEqual({ id: 2, price: 50, status: 'draft' });
+      expect(() => db.execute('UPDATE products SET price = -1 WHERE id = 1')).toThrow(
+        'CHECK constraint failed: price_non_negative',
+      );
+
+      await db.close();
+    });
+
+    it('should fill in defaults for the fields a line leaves out', async () => {
+      for (const detailedValidate of [false, true]) {
+        const { db, result } = await createDb(
+          '{"id":1,"price":100}\n{"id":2,"price":5,"status":"published"}\n',
+          detailedValidate,
+        );
+
+        expect(result.valid).toBe(true);
+        expect(db.find('products')).toEqual([
+          { id: 1, price: 100, status: 'draft' },
+          { id: 2, price: 5, status: 'published' },
+        ]);
+
+        await db.close();
+      }
+    });
+
+    it('should reject a default that is not a finite number', async () => {
+      await writeFile(join(testDir, 'products.jsonl'), '{"id":1,"price":100}\n');
+      await writeFile(
+        join(testDir, 'products.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  defaults: { price: Infinity },
+};
+`,
+      );
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await expect(db.initialize()).rejects.toThrow(
+        "Invalid default for column 'price' in table 'products': Infinity is not a finite number",
+      );
+
+      await db.close();
+    });
+
+    it('should report the check a row fails in detailed validation', async () => {
+      const { db, result } = await createDb(
+        '{"id":1,"price":100,"status":"published"}\n{"id":2,"price":10,"status":"archived"}\n',
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          tableName: 'products',
+          rowIndex: 1,
+          type: 'check',
+          checkError: { name: 'status_known', expression: "status IN ('draft', 'published')" },
+          issues: [{ message: "Check constraint 'status_known' failed: status IN ('draft', 'published')", path: [] }],
+        }),
+      ]);
+
+      await db.close();
+    });
+  });
+
+  describe('schema columns', () => {
+    type Tables = {
+      orders: { id: number; total: number; note?: string | null; paid: boolean };
+    };
+
+    const createDb = async (contents: string, schemaSource: string) => {
+      await writeFile(join(testDir, 'orders.jsonl'), contents);
+      await writeFile(join(testDir, 'orders.schema.ts'), schemaSource);
+
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      const result = await db.initialize();
+      return { db, result };
+    };
+
+    const jsonSchemaSource = `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => ({ value }),
+    jsonSchema: {
+      output: () => ({
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          total: { type: 'number' },
+          note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+          paid: { type: 'boolean' },
+        },
+        required: ['id', 'total', 'paid'],
+      }),
+    },
+  },
+  primaryKey: 'id',
+};
+`;
+
+    const columnTypes = (db: LinesDB<Tables>) =>
+      db
+        .query<{ name: string; type: string; notnull: number }>('PRAGMA table_info(orders)')
+        .filter(({ name }) => name !== '__lines_db_null_fields')
+        .map(({ name, type, notnull }) => ({ name, type, notnull }));
+
+    it('should create an empty table from the JSON Schema of its output', async () => {
+      const { db, result } = await createDb('', jsonSchemaSource);
+      expect(result.valid).toBe(true);
+
+      expect(db.find('orders')).toEqual([]);
+      expect(columnTypes(db)).toEqual([
+        { name: 'id', type: 'INTEGER', notnull: 1 },
+        { name: 'total', type: 'REAL', notnull: 1 },
+        { name: 'note', type: 'TEXT', notnull: 0 },
+        { name: 'paid', type: 'INTEGER', notnull: 1 },
+      ]);
+
+      db.insert('orders', { id: 1, total: 9.5, paid: true });
+      expect(db.findOne('orders', { id: 1 })).toEqual({ id: 1, total: 9.5, paid: true });
+
+      await db.close();
+    });
+
+    it('should keep declared types when every row holds null or omits the column', async () => {
+      const { db } = await createDb(
+        '{"id":1,"total":3,"note":null,"paid":false}\n{"id":2,"total":4,"paid":true}\n',
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  columns: { id: 'INTEGER', total: 'REAL', note: 'TEXT', paid: 'BOOLEAN' },
+};
+`,
+      );
+
+      expect(columnTypes(db)).toEqual([
+        { name: 'id', type: 'INTEGER', notnull: 0 },
+        { name: 'total', type: 'REAL', notnull: 0 },
+        { name: 'note', type: 'TEXT', notnull: 0 },
+        { name: 'paid', type: 'INTEGER', notnull: 0 },
+      ]);
+      expect(db.findOne('orders', { id: 1 })).toEqual({ id: 1, total: 3, note: null, paid: false });
+      expect(db.findOne('orders', { id: 2 })).toEqual({ id: 2, total: 4, paid: true });
+
+      // The line that left the column out does not gain a null
+      db.insert('orders', { id: 3, total: 5, note: 'gift', paid: false });
+      await db.sync();
+      expect(await readFile(join(testDir, 'orders.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"total":3,"note":null,"paid":false}\n{"id":2,"total":4,"paid":true}\n' +
+          '{"id":3,"total":5,"note":"gift","paid":false}\n',
+      );
+
+      await db.close();
+    });
+
+    it('should leave out the optional fields a row does not have', async () => {
+      const { db } = await createDb(
+        '{"id":1,"total":3,"paid":false}\n{"id":2,"total":4,"note":"gift","paid":true}\n',
+        jsonSchemaSource.replace("note: { anyOf: [{ type: 'string' }, { type: 'null' }] }", "note: { type: 'string' }"),
+      );
+
+      db.insert('orders', { id: 3, total: 5, paid: true });
+      expect(db.find('orders')).toEqual([
+        { id: 1, total: 3, paid: false },
+        { id: 2, total: 4, note: 'gift', paid: true },
+        { id: 3, total: 5, paid: true },
+      ]);
+
+      await db.sync();
+      expect(await readFile(join(testDir, 'orders.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"total":3,"paid":false}\n{"id":2,"total":4,"note":"gift","paid":true}\n' +
+          '{"id":3,"total":5,"paid":true}\n',
+      );
+
+      await db.close();
+    });
+
+    it('should keep the null an optional field is set to', async () => {
+      const { db } = await createDb(
+        '{"id":1,"total":3,"note":null,"paid":false}\n{"id":2,"total":4,"paid":true}\n' +
+          '{"id":3,"total":5,"paid":true}\n',
+        jsonSchemaSource,
+      );
+
+      db.update('orders', { note: null }, { id: 2 });
+      db.upsert('orders', { id: 3, total: 6, note: null, paid: true });
+      db.insert('orders', { id: 4, total: 7, note: null, paid: false });
+      db.insert('orders', { id: 5, total: 8, paid: false });
+      expect(db.find('orders', undefined, { orderBy: { id: 'asc' } })).toEqual([
+        { id: 1, total: 3, note: null, paid: false },
+        { id: 2, total: 4, note: null, paid: true },
+        { id: 3, total: 6, note: null, paid: true },
+        { id: 4, total: 7, note: null, paid: false },
+        { id: 5, total: 8, paid: false },
+      ]);
+      expect(db.find('orders', { id: 1 }, { select: ['id', 'note'] })).toEqual([{ id: 1, note: null }]);
+
+      await db.sync();
+      expect(await readFile(join(testDir, 'orders.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"total":3,"note":null,"paid":false}\n{"id":2,"total":4,"note":null,"paid":true}\n' +
+          '{"id":3,"total":6,"note":null,"paid":true}\n{"id":4,"total":7,"note":null,"paid":false}\n' +
+          '{"id":5,"total":8,"paid":false}\n',
+      );
+
+      await db.close();
+    });
+  });
+
+  describe('database file cache', () => {
+    type Tables = {
+      authors: { id: number; name: string };
+      posts: { id: number; authorId: number; title: string };
+      tags: { id: number; label: string };
+    };
+
+    beforeEach(async () => {
+      await writeTable('authors', '{"id":1,"name":"Alice"}\n');
+      await writeFile(join(testDir, 'posts.jsonl'), '{"id":1,"authorId":1,"title":"Hello"}\n');
+      // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+      await writeFile(
+        join(testDir, 'posts.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  foreignKeys: [{ column: 'authorId', references: { table: 'authors', column: 'id' } }],
+};
+`,
+      );
+      await writeTable('tags', '{"id":1,"label":"news"}\n');
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const openDb = async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir }, join(testDir, 'cache.db'));
+      const result = await db.initialize();
+      return { db, result };
+    };
+
+    const tablesRead = () =>
+      vi
+        .mocked(JsonlReader.stream)
+        .mock.calls.map(([path]) => path.slice(testDir.length + 1))
+        .sort();
+
+    it('should keep the tables whose files have not changed', async () => {
+      const first = await openDb();
+      await first.db.close();
+
+      vi.spyOn(JsonlReader, 'stream');
+      const { db, result } = await openDb();
+
+      expect(tablesRead()).toEqual([]);
+      expect(result.tableResults).toEqual([
+        expect.objectContaining({ tableName: 'authors', valid: true, rowCount: 1 }),
+        expect.objectContaining({ tableName: 'posts', valid: true, rowCount: 1 }),
+        expect.objectContaining({ tableName: 'tags', valid: true, rowCount: 1 }),
+      ]);
+      expect(db.find('posts')).toEqual([{ id: 1, authorId: 1, title: 'Hello' }]);
+      expect(db.getSchema('posts')?.foreignKeys).toHaveLength(1);
+      expect(() => db.insert('posts', { id: 2, authorId: 9, title: 'Orphan' })).toThrow();
+
+      await db.close();
+    });
+
+    it('should load a changed table again along with the tables referencing it', async () => {
+      const first = await openDb();
+      await first.db.close();
+
+      await writeFile(join(testDir, 'authors.jsonl'), '{"id":1,"name":"Alicia"}\n');
+      vi.spyOn(JsonlReader, 'stream');
+      const { db } = await openDb();
+
+      expect(tablesRead()).toEqual(['authors.jsonl', 'posts.jsonl']);
+      expect(db.find('authors')).toEqual([{ id: 1, name: 'Alicia' }]);
+      expect(db.find('tags')).toEqual([{ id: 1, label: 'news' }]);
+
+      await db.close();
+    });
+
+    it('should load every table again when an earlier version stored them', async () => {
+      const first = await openDb();
+      first.db.getDb().exec('PRAGMA user_version = 0');
+      await first.db.close();
+
+      vi.spyOn(JsonlReader, 'stream');
+      const { db } = await openDb();
+
+      expect(tablesRead()).toEqual(['authors.jsonl', 'posts.jsonl', 'tags.jsonl']);
+      expect(db.find('posts')).toEqual([{ id: 1, authorId: 1, title: 'Hello' }]);
+
+      await db.close();
+    });
+
+    it('should keep a table written back since it was loaded', async () => {
+      const first = await openDb();
+      first.db.insert('tags', { id: 2, label: 'tech' });
+      await first.db.close();
+
+      vi.spyOn(JsonlReader, 'stream');
+      const { db } = await openDb();
+
+      expect(tablesRead()).toEqual([]);
+      expect(db.find('tags')).toHaveLength(2);
+
+      await db.close();
+    });
+
+    it('should drop a table whose file was removed', async () => {
+      const first = await openDb();
+      await first.db.close();
+
+      await rm(join(testDir, 'tags.jsonl'));
+      await rm(join(testDir, 'tags.schema.ts'));
+      const { db } = await openDb();
+
+      expect(db.getTableNames()).toEqual(['authors', 'posts']);
+      expect(db.query(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'tags'`)).toEqual([]);
+
+      await db.close();
+    });
+  });
+
+  describe('lazy initialization', () => {
+    type Tables = {
+      authors: { id: number; name: string };
+      posts: { id: number; authorId: number; title: string };
+      tags: { id: number; label: string };
+    };
+
+    beforeEach(async () => {
+      await writeTable('authors', '{"id":1,"name":"Alice"}\n');
+      await writeFile(join(testDir, 'posts.jsonl'), '{"id":1,"authorId":1,"title":"Hello"}\n');
+      // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+      await writeFile(
+        join(testDir, 'posts.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  foreignKeys: [{ column: 'authorId', references: { table: 'authors', column: 'id' } }],
+};
+`,
+      );
+      await writeTable('tags', '{"id":1,"label":"news"}\n');
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const tablesRead = () =>
+      [...vi.mocked(JsonlReader.stream).mock.calls, ...vi.mocked(JsonlReader.readSync).mock.calls]
+        .map(([path]) => path.slice(testDir.length + 1))
+        .sort();
+
+    it('should load a table and the tables it references when first used', async () => {
+      vi.spyOn(JsonlReader, 'stream');
+      vi.spyOn(JsonlReader, 'readSync');
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      const result = await db.initialize({ lazy: true });
+
+      expect(result.valid).toBe(true);
+      expect(tablesRead()).toEqual([]);
+      expect(db.getTableNames().sort()).toEqual(['authors', 'posts', 'tags']);
+
+      expect(db.find('posts')).toEqual([{ id: 1, authorId: 1, title: 'Hello' }]);
+      expect(tablesRead()).toEqual(['authors.jsonl', 'posts.jsonl']);
+
+      expect(db.query<{ count: number }>('SELECT COUNT(*) AS count FROM tags')).toEqual([{ count: 1 }]);
+      expect(tablesRead()).toEqual(['authors.jsonl', 'posts.jsonl', 'tags.jsonl']);
+
+      await db.close();
+    });
+
+    it('should load the tables a list names along with the tables they reference', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      const result = await db.initialize({ tables: ['posts'] });
+
+      expect(result.tableResults.map((table) => table.tableName)).toEqual(['posts']);
+      expect(db.getTableNames()).toEqual(['authors', 'posts']);
+
+      await db.close();
+    });
+
+    it('should throw the validation errors of a table when first used', async () => {
+      await writeFile(join(testDir, 'tags.jsonl'), '{"id":1,"label":"news"}\n{"id":2}\n');
+      await writeFile(
+        join(testDir, 'tags.schema.ts'),
+        `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => (value.label ? { value } : { issues: [{ message: 'label is required', path: ['label'] }] }),
+  },
+};
+`,
+      );
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize({ lazy: true });
+
+      let error: unknown;
+      try {
+        db.find('tags');
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toMatchObject({
+        name: 'ValidationError',
+        message: "Table 'tags' could not be loaded: 1 row(s) failed validation",
+        validationErrors: [expect.objectContaining({ tableName: 'tags', rowIndex: 1, type: 'schema' })],
+      });
+
+      await writeFile(join(testDir, 'tags.jsonl'), '{"id":1,"label":"news"}\n');
+      expect(db.find('tags')).toEqual([{ id: 1, label: 'news' }]);
+
+      await db.close();
+    });
+
+    it('should load the tables referencing a table before deleting its rows', async () => {
+      await writeFile(
+        join(testDir, 'posts.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  foreignKeys: [{ column: 'authorId', references: { table: 'authors', column: 'id' }, onDelete: 'CASCADE' }],
+};
+`,
+      );
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize({ lazy: true });
+
+      db.delete('authors', { id: 1 });
+      await db.sync();
+
+      expect(db.find('posts')).toEqual([]);
+      expect(await readFile(join(testDir, 'posts.jsonl'), 'utf-8')).toBe('\n');
+
+      await db.close();
+    });
+
+    it('should leave a table a rolled back transaction loaded to be loaded again', async () => {
+      const db = LinesDB.create<Tables>({ dataDir: testDir });
+      await db.initialize({ lazy: true });
+
+      await expect(
+        db.transaction(async (tx) => {
+          tx.insert('tags', { id: 2, label: 'tech' });
+          throw new Error('abort');
+        }),
+      ).rejects.toThrow('abort');
+
+      expect(db.find('tags')).toEqual([{ id: 1, label: 'news' }]);
+
+      await db.close();
+    });
+  });
+
+  describe('namespaced tables', () => {
+    beforeEach(async () => {
+      await mkdir(join(testDir, 'admin'));
+      await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1,"name":"Alice"}\n');
+      await writeFile(join(testDir, 'posts.jsonl'), '{"id":1,"authorId":1,"title":"Hello"}\n');
+      // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+      await writeFile(
+        join(testDir, 'posts.schema.ts'),
+        `
+export const schema = {
+  '~standard': { version: 1, vendor: 'test', validate: (value) => ({ value }) },
+  primaryKey: 'id',
+  foreignKeys: [{ column: 'authorId', references: { table: 'admin.users', column: 'id' } }],
+};
+`,
+      );
+      await writeFile(
+        join(testDir, 'admin', 'users.schema.ts'),
+        `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => (value.name ? { value } : { issues: [{ message: 'name is required' }] }),
+  },
+  primaryKey: 'id',
+};
+`,
+      );
+    });
+
+    it('should load tables in subdirectories with the schema beside them', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.valid).toBe(true);
+      expect(db.getTableNames().sort()).toEqual(['admin.users', 'posts']);
+      expect(db.find('admin.users')).toEqual([{ id: 1, name: 'Alice' }]);
+      expect(() => db.insert('admin.users', { id: 2 })).toThrow('name is required');
+      expect(() => db.insert('posts', { id: 2, authorId: 3, title: 'Orphan' })).toThrow();
+      expect(db.query('SELECT title FROM posts JOIN "admin.users" u ON u.id = posts.authorId')).toEqual([
+        { title: 'Hello' },
+      ]);
+
+      await db.close();
+    });
+
+    it('should write a namespaced table back to its file', async () => {
+      // posts references the table by the name the default separator gives it
+      await rm(join(testDir, 'posts.jsonl'));
+      const db = LinesDB.create({ dataDir: testDir, namespaceSeparator: '/' });
+      await db.initialize();
+
+      db.insert('admin/users', { id: 2, name: 'Bob' });
+      await db.sync();
+
+      expect(await readFile(join(testDir, 'admin', 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n',
+      );
+
+      await db.close();
+    });
+  });
+
+  describe('layered data directories', () => {
+    let baseDir: string;
+    let devDir: string;
+
+    beforeEach(async () => {
+      baseDir = join(testDir, 'base');
+      devDir = join(testDir, 'dev');
+      await mkdir(baseDir);
+      await mkdir(devDir);
+      await writeFile(
+        join(baseDir, 'users.jsonl'),
+        '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n{"id":3,"name":"Carol"}\n',
+      );
+      // Inline StandardSchema without external imports (dynamic import from /tmp can't resolve npm packages)
+      await writeFile(
+        join(baseDir, 'users.schema.ts'),
+        `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => (value.name ? { value } : { issues: [{ message: 'name is required', path: ['name'] }] }),
+  },
+  primaryKey: 'id',
+};
+`,
+      );
+      await writeFile(
+        join(devDir, 'users.jsonl'),
+        '{"id":4,"name":"Dave"}\n{"id":2,"name":"Bobby"}\n{"id":3,"$deleted":true}\n',
+      );
+      await writeFile(join(devDir, 'flags.jsonl'), '{"id":1,"enabled":true}\n');
+    });
+
+    it('should lay later layers over earlier ones', async () => {
+      const db = LinesDB.create({ dataDir: [baseDir, devDir] });
+      const result = await db.initialize();
+
+      expect(result.valid).toBe(true);
+      expect(db.getTableNames().sort()).toEqual(['flags', 'users']);
+      expect(db.find('users')).toEqual([
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Bobby' },
+        { id: 4, name: 'Dave' },
+      ]);
+
+      await db.close();
+    });
+
+    it('should report the layer and line an invalid row comes from', async () => {
+      await writeFile(join(devDir, 'users.jsonl'), '{"id":4,"name":"Dave"}\n{"id":2,"name":""}\n');
+      const db = LinesDB.create({ dataDir: [baseDir, devDir] });
+      const result = await db.initialize();
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          file: join(devDir, 'users.jsonl'),
+          layer: devDir,
+          rowIndex: 1,
+          type: 'schema',
+        }),
+      ]);
+
+      await db.close();
+    });
+
+    it('should write the difference from the layers below to the sync layer', async () => {
+      const demoDir = join(testDir, 'demo');
+      await mkdir(demoDir);
+      const db = LinesDB.create({ dataDir: [baseDir, devDir, demoDir], syncLayer: demoDir });
+      await db.initialize();
+
+      db.update('users', { name: 'Alicia' }, { id: 1 });
+      db.delete('users', { id: 4 });
+      db.insert('users', { id: 5, name: 'Eve' });
+      await db.sync();
+
+      expect(await readFile(join(demoDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alicia"}\n{"id":5,"name":"Eve"}\n{"id":4,"$deleted":true}\n',
+      );
+      // The layers below and the tables that did not change are left alone
+      expect(await readFile(join(baseDir, 'users.jsonl'), 'utf-8')).toContain('"name":"Alice"}');
+      await expect(readFile(join(demoDir, 'flags.jsonl'), 'utf-8')).rejects.toThrow();
+      await db.close();
+
+      const reopened = LinesDB.create({ dataDir: [baseDir, devDir, demoDir] });
+      await reopened.initialize();
+      expect(reopened.find('users')).toEqual([
+        { id: 1, name: 'Alicia' },
+        { id: 2, name: 'Bobby' },
+        { id: 5, name: 'Eve' },
+      ]);
+      await reopened.close();
+    });
+
+    it('should keep the lines the sync layer holds where they are', async () => {
+      const db = LinesDB.create({ dataDir: [baseDir, devDir] });
+      await db.initialize();
+
+      db.update('users', { name: 'Bob' }, { id: 2 });
+      db.update('users', { name: 'Alicia' }, { id: 1 });
+      db.insert('users', { id: 5, name: 'Eve' });
+      await db.sync();
+
+      expect(await readFile(join(devDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":4,"name":"Dave"}\n{"id":3,"$deleted":true}\n{"id":1,"name":"Alicia"}\n{"id":5,"name":"Eve"}\n',
+      );
+      await db.close();
+    });
+
+    it('should reject a sync layer that is not one of the directories', () => {
+      expect(() => LinesDB.create({ dataDir: [baseDir, devDir], syncLayer: testDir })).toThrow('syncLayer');
+      expect(() => LinesDB.create({ dataDir: [baseDir, devDir], syncLayer: `${devDir}/../dev/` })).not.toThrow();
+    });
+  });
+
+  describe('minimal write-back', () => {
+    it('should rewrite only the lines of changed rows', async () => {
+      const original =
+        '{"id": 1, "name": "\\u00c9mile", "score": 1.0}\r\n{"id":2,"name":"Bob","score":2}\r\n{"id":3,"name":"Carol","score":4}';
+      await writeTable('users', original);
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+      const synced: unknown[] = [];
+      db.on('sync', (event) => synced.push(event));
+
+      db.update('users', { score: 3 }, { id: 2 });
+      await db.sync();
+
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id": 1, "name": "\\u00c9mile", "score": 1.0}\r\n{"id":2,"name":"Bob","score":3}\r\n{"id":3,"name":"Carol","score":4}',
+      );
+      // The update's own write-back rewrote line 2, which left nothing for the sync after it to write
+      expect(synced).toEqual([{ table: 'users', file: join(testDir, 'users.jsonl'), lines: [2] }]);
+
+      await db.close();
+    });
+  });
+
+  describe('file locking', () => {
+    it('should fail to sync a table another process holds the lock of', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create({ dataDir: testDir, lockTimeout: 0 });
+      await db.initialize();
+      const lock = await FileLock.acquire(join(testDir, 'users.jsonl'));
+
+      await expect(db.sync('users')).rejects.toThrow(
+        `Cannot write ${join(testDir, 'users.jsonl')}: process ${process.pid} holds its lock file`,
+      );
+
+      await lock.release();
+      await db.close();
+    });
+
+    it('should wait for the lock to be released and write without leaving files behind', async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+      const lock = await FileLock.acquire(join(testDir, 'users.jsonl'));
+      setTimeout(() => void lock.release(), 100);
+
+      await db.transaction(() => {
+        db.insert('users', { id: 2, name: 'Bob' });
+      });
+
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n',
+      );
+      expect((await readdir(testDir)).sort()).toEqual(['users.jsonl', 'users.schema.ts']);
+
+      await db.close();
+    });
+  });
+
+  describe('sync conflicts', () => {
+    const original =
+      '{"id":1,"name":"Alice","score":1}\n{"id":2,"name":"Bob","score":2}\n{"id":3,"name":"Carol","score":3}\n';
+    const edited =
+      '{"id":1,"name":"Alicia", "score":1}\n{"id":2,"name":"Bob","score":2}\n{"id":4,"name":"Dave","score":4}\n';
+
+    it('should fail to sync a table whose file changed since it was loaded', async () => {
+      await writeTable('users', original);
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+      await writeFile(join(testDir, 'users.jsonl'), edited);
+
+      await expect(
+        db.transaction(() => {
+          db.update('users', { score: 5 }, { id: 2 });
+        }),
+      ).rejects.toMatchObject({
+        name: 'SyncConflictError',
+        table: 'users',
+        message: expect.stringContaining("Cannot sync table 'users': its files changed on disk"),
+      });
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(edited);
+
+      await db.close();
+    });
+
+    it('should not take its own writes for changes', async () => {
+      await writeTable('users', original);
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+
+      db.update('users', { score: 5 }, { id: 2 });
+      await db.sync();
+      db.update('users', { score: 6 }, { id: 2 });
+      await db.sync();
+
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alice","score":1}\n{"id":2,"name":"Bob","score":6}\n{"id":3,"name":"Carol","score":3}\n',
+      );
+
+      await db.close();
+    });
+
+    it('should re-apply the changes of the table onto the changed file by primary key', async () => {
+      await writeTable('users', original);
+      const db = LinesDB.create({ dataDir: testDir, onSyncConflict: 'merge' });
+      await db.initialize();
+      await writeFile(join(testDir, 'users.jsonl'), edited);
+
+      await db.transaction(() => {
+        db.update('users', { score: 5 }, { id: 2 });
+        db.update('users', { score: 10 }, { id: 1 });
+        db.insert('users', { id: 5, name: 'Eve', score: 5 });
+      });
+
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alicia","score":10}\n{"id":2,"name":"Bob","score":5}\n{"id":4,"name":"Dave","score":4}\n' +
+          '{"id":5,"name":"Eve","score":5}\n',
+      );
+      expect(db.find('users')).toEqual([
+        { id: 1, name: 'Alicia', score: 10 },
+        { id: 2, name: 'Bob', score: 5 },
+        { id: 4, name: 'Dave', score: 4 },
+        { id: 5, name: 'Eve', score: 5 },
+      ]);
+
+      await db.close();
+    });
+
+    it('should overwrite the changed file when told to', async () => {
+      await writeTable('users', original);
+      const db = LinesDB.create({ dataDir: testDir, onSyncConflict: 'overwrite' });
+      await db.initialize();
+      await writeFile(join(testDir, 'users.jsonl'), edited);
+
+      await db.transaction(() => {
+        db.update('users', { score: 5 }, { id: 2 });
+      });
+
+      expect(await readFile(join(testDir, 'users.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"name":"Alice","score":1}\n{"id":2,"name":"Bob","score":5}\n{"id":3,"name":"Carol","score":3}\n',
+      );
+
+      await db.close();
+    });
+  });
+
+  describe('CSV tables', () => {
+    const schemaSource = `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => ({ value }),
+    jsonSchema: {
+      output: () => ({
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          code: { type: 'string' },
+          name: { type: 'string' },
+          active: { type: 'boolean' },
+        },
+        required: ['id', 'code', 'name'],
+      }),
+    },
+  },
+  primaryKey: 'id',
+};
+`;
+
+    it('should read cells as the types the schema declares', async () => {
+      await writeFile(join(testDir, 'users.csv'), 'id,code,name,active\n1,007,Alice,true\n2,"008","Bob, Jr.",\n');
+      await writeFile(join(testDir, 'users.schema.ts'), schemaSource);
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.valid).toBe(true);
+      expect(db.find('users')).toEqual([
+        { id: 1, code: '007', name: 'Alice', active: true },
+        // A blank cell leaves the field out
+        { id: 2, code: '008', name: 'Bob, Jr.' },
+      ]);
+
+      await db.close();
+    });
+
+    it('should infer the types of a TSV table without a schema', async () => {
+      await writeFile(join(testDir, 'scores.tsv'), 'id\tplayer\tscore\n1\tAlice\t9.5\n2\tBob\t7\n');
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+
+      expect(db.find('scores')).toEqual([
+        { id: 1, player: 'Alice', score: 9.5 },
+        { id: 2, player: 'Bob', score: 7 },
+      ]);
+
+      await db.close();
+    });
+
+    it('should load a table without a schema that has blank cells', async () => {
+      await writeFile(join(testDir, 'products.csv'), 'id,label,price\n1,Pen,2\n2,,3\n3,Ink,\n');
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.valid).toBe(true);
+      expect(db.find('products', { id: 2 })).toHaveLength(1);
+      expect(db.getSchema('products')?.columns).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'label', notNull: false }),
+          expect.objectContaining({ name: 'price', notNull: false }),
+        ]),
+      );
+
+      await db.close();
+    });
+
+    it('should write changes back keeping the header order and quoting', async () => {
+      await writeFile(join(testDir, 'users.csv'), 'name,id,code,active\n"Alice",1,"007",true\n"Bob",2,"008",false\n');
+      await writeFile(join(testDir, 'users.schema.ts'), schemaSource);
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+      const synced: unknown[] = [];
+      db.on('sync', (event) => synced.push(event));
+
+      db.update('users', { name: 'Bob, Jr.' }, { id: 2 });
+      db.insert('users', { id: 3, code: '009', name: 'Carol', active: true });
+      await db.sync();
+
+      expect(await readFile(join(testDir, 'users.csv'), 'utf-8')).toBe(
+        'name,id,code,active\n"Alice",1,"007",true\n"Bob, Jr.",2,"008",false\n"Carol",3,"009",true\n',
+      );
+      // CSV files are written whole, so their events list no lines
+      expect(synced.at(-1)).toEqual({ table: 'users', file: join(testDir, 'users.csv') });
+
+      // A sync finding the file as it would write it leaves it alone
+      synced.length = 0;
+      await db.sync();
+      expect(synced).toEqual([]);
+
+      await db.close();
+    });
+  });
+
+  describe('sharded and compressed tables', () => {
+    const schemaSource = `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => (value.type ? { value } : { issues: [{ message: 'type is required', path: ['type'] }] }),
+  },
+  primaryKey: 'id',
+};
+`;
+
+    beforeEach(async () => {
+      await writeFile(join(testDir, 'events.001.jsonl'), '{"id":1,"type":"open"}\n{"id":2,"type":"click"}\n');
+      await writeFile(join(testDir, 'events.002.jsonl.gz'), gzipSync('{"id":3,"type":"close"}\n'));
+      await writeFile(join(testDir, 'events.schema.ts'), schemaSource);
+    });
+
+    it('should load the shards of a table as one table', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.valid).toBe(true);
+      expect(db.getTableNames()).toEqual(['events']);
+      expect(db.find('events')).toEqual([
+        { id: 1, type: 'open' },
+        { id: 2, type: 'click' },
+        { id: 3, type: 'close' },
+      ]);
+
+      await db.close();
+    });
+
+    it('should report the shard and line an invalid row comes from', async () => {
+      await writeFile(join(testDir, 'events.002.jsonl.gz'), gzipSync('{"id":3,"type":"close"}\n{"id":4}\n'));
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ file: join(testDir, 'events.002.jsonl.gz'), rowIndex: 1, type: 'schema' }),
+      ]);
+      expect(result.errors[0]).not.toHaveProperty('layer');
+
+      await db.close();
+    });
+
+    it('should write rows back to their shards and leave unchanged shards alone', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+      const synced: string[] = [];
+      db.on('sync', ({ file }) => synced.push(file));
+
+      db.update('events', { type: 'closed' }, { id: 3 });
+      db.insert('events', { id: 5, type: 'scroll' });
+      await db.sync();
+
+      expect(synced).toEqual([join(testDir, 'events.002.jsonl.gz')]);
+      expect(gunzipSync(await readFile(join(testDir, 'events.002.jsonl.gz'))).toString('utf-8')).toBe(
+        '{"id":3,"type":"closed"}\n{"id":5,"type":"scroll"}\n',
+      );
+      expect(await readFile(join(testDir, 'events.001.jsonl'), 'utf-8')).toBe(
+        '{"id":1,"type":"open"}\n{"id":2,"type":"click"}\n',
+      );
+
+      await db.close();
+    });
+
+    it('should write new rows to the shard shardFor picks', async () => {
+      const db = LinesDB.create({
+        dataDir: testDir,
+        shardFor: (_tableName, row) => (row.type === 'error' ? 'events.003.jsonl' : undefined),
+      });
+      await db.initialize();
+
+      db.insert('events', { id: 4, type: 'error' });
+      db.delete('events', { id: 1 });
+      await db.sync();
+
+      expect(await readFile(join(testDir, 'events.001.jsonl'), 'utf-8')).toBe('{"id":2,"type":"click"}\n');
+      expect(await readFile(join(testDir, 'events.003.jsonl'), 'utf-8')).toBe('{"id":4,"type":"error"}\n');
+
+      db.update('events', { type: 'fatal' }, { id: 4 });
+      await db.sync();
+      expect(await readFile(join(testDir, 'events.003.jsonl'), 'utf-8')).toBe('{"id":4,"type":"fatal"}\n');
+
+      await db.close();
+    });
+
+    it('should reject a shard name that does not belong to the table', async () => {
+      const db = LinesDB.create({ dataDir: testDir, shardFor: () => 'other.jsonl' });
+      await db.initialize();
+
+      db.insert('events', { id: 4, type: 'error' });
+
+      await expect(db.sync()).rejects.toThrow("shardFor returned 'other.jsonl' for table 'events'");
+      await db.close();
+    });
+
+    it('should load a directory of shards with a schema file beside it', async () => {
+      await mkdir(join(testDir, 'logs'));
+      await writeFile(join(testDir, 'logs', '2024.jsonl'), '{"id":1,"type":"boot"}\n');
+      await writeFile(join(testDir, 'logs', '2025.jsonl'), '{"id":2,"type":"halt"}\n');
+      await writeFile(join(testDir, 'logs.schema.ts'), schemaSource);
+      const db = LinesDB.create({ dataDir: testDir, shardFor: () => '2026.jsonl' });
+      await db.initialize();
+
+      expect(db.find('logs')).toEqual([
+        { id: 1, type: 'boot' },
+        { id: 2, type: 'halt' },
+      ]);
+
+      db.insert('logs', { id: 3, type: 'boot' });
+      await db.sync('logs');
+      expect(await readFile(join(testDir, 'logs', '2026.jsonl'), 'utf-8')).toBe('{"id":3,"type":"boot"}\n');
+
+      await db.close();
+    });
+  });
+
+  describe('directories of records', () => {
+    const schemaSource = `
+export const schema = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => (value.title ? { value } : { issues: [{ message: 'title is required', path: ['title'] }] }),
+  },
+  primaryKey: 'slug',
+  foreignKeys: [{ column: 'authorId', references: { table: 'users', column: 'id' } }],
+};
+`;
+
+    beforeEach(async () => {
+      await mkdir(join(testDir, 'articles'));
+      await writeFile(
+        join(testDir, 'articles', 'hello.json'),
+        '{\n  "slug": "hello",\n  "title": "Hello",\n  "authorId": 1\n}\n',
+      );
+      await writeFile(join(testDir, 'articles', 'intro.json'), '{"slug":"intro","title":"Intro","authorId":1}');
+      await writeFile(join(testDir, 'articles.schema.ts'), schemaSource);
+      await writeTable('users', '{"id":1,"name":"Alice"}\n');
+    });
+
+    it('should load one row per file', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.valid).toBe(true);
+      expect(db.find('articles')).toEqual([
+        { slug: 'hello', title: 'Hello', authorId: 1 },
+        { slug: 'intro', title: 'Intro', authorId: 1 },
+      ]);
+
+      await db.close();
+    });
+
+    it('should report the file an invalid record comes from', async () => {
+      await writeFile(join(testDir, 'articles', 'draft.json'), '{"slug":"draft","authorId":1}');
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize();
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ file: join(testDir, 'articles', 'draft.json'), rowIndex: 0, type: 'schema' }),
+      ]);
+
+      await db.close();
+    });
+
+    it('should create, rewrite and delete the files of changed records on sync', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+      await db.initialize();
+      const synced: string[] = [];
+      db.on('sync', ({ file }) => synced.push(file));
+
+      db.update('articles', { title: 'Hello, world' }, { slug: 'hello' });
+      db.delete('articles', { slug: 'intro' });
+      db.insert('articles', { slug: 'news', title: 'News', authorId: 1 });
+      await db.sync('articles');
+
+      expect(synced).toEqual([
+        join(testDir, 'articles', 'hello.json'),
+        join(testDir, 'articles', 'news.json'),
+        join(testDir, 'articles', 'intro.json'),
+      ]);
+      expect((await readdir(join(testDir, 'articles'))).sort()).toEqual(['hello.json', 'news.json']);
+      expect(await readFile(join(testDir, 'articles', 'hello.json'), 'utf-8')).toBe(
+        '{\n  "slug": "hello",\n  "title": "Hello, world",\n  "authorId": 1\n}\n',
+      );
+
+      await db.close();
+    });
+  });
+
+  describe('malformed lines', () => {
+    beforeEach(async () => {
+      await writeTable('users', '{"id":1,"name":"Alice"}\r\n{"id":2,"name":\r\n\r\n{"id":3,"name":"Carol"}\r\n');
+      await writeTable('tags', '\uFEFF{"id":1,"label":"news"}\r\n');
+    });
+
+    it('should throw with the line and column by default', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+
+      await expect(db.initialize()).rejects.toThrow(/Failed to parse JSON line 2 of .+users\.jsonl at column 16/);
+
+      await db.close();
+    });
+
+    it('should report malformed lines as parse errors in tolerant mode', async () => {
+      const db = LinesDB.create({ dataDir: testDir });
+      const result = await db.initialize({ tolerant: true });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        {
+          file: join(testDir, 'users.jsonl'),
+          tableName: 'users',
+          rowIndex: 1,
+          issues: [{ message: expect.stringMatching(/^Invalid JSON at line 2, column 16: /) }],
+          type: 'parse',
+          parseError: { line: 2, column: 16 },
+        },
+      ]);
+      // The table missing the malformed line is not loaded, so a sync cannot drop it from the file
+      expect(db.getTableNames()).toEqual(['tags']);
+      expect(db.find('tags')).toEqual([{ id: 1, label: 'news' }]);
 
       await db.close();
     });
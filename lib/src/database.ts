@@ -1,26 +1,61 @@
-import { createDatabase, type SQLiteDatabase } from './sqlite-adapter.js';
-import { JsonlReader } from './jsonl-reader.js';
+import { createDatabase, type SQLiteDatabase, type SQLiteStatement } from './sqlite-adapter.js';
+import { JsonlReader, type JsonlParseError } from './jsonl-reader.js';
 import { JsonlWriter } from './jsonl-writer.js';
+import { CsvReader, isDelimitedFile } from './csv-reader.js';
+import { CsvWriter, type CsvLayout } from './csv-writer.js';
 import { SchemaLoader } from './schema-loader.js';
-import { DirectoryScanner } from './directory-scanner.js';
+import { DirectoryScanner, compareShards, shardBaseNameOf, tableFileBaseName } from './directory-scanner.js';
+import { routeToShards } from './shards.js';
+import { reapplyChanges } from './conflicts.js';
+import { RecordDirectory, isRecordFile, type RecordFile } from './record-directory.js';
+import { FileLock } from './file-lock.js';
 import { hasBackward } from './schema.js';
 import { mergeFields } from './merge-fields.js';
+import { columnsFromSchema } from './schema-columns.js';
+import { inverseRelationNameOf, relationNameOf } from './relations.js';
+import { canonical, layerDiff, mergeLayers, rowKey, type LayerRows, type RowOrigin } from './layers.js';
+import { TableCache, type CachedTable, type TableFingerprint } from './table-cache.js';
 import { findSchemaFile } from './schema-extensions.js';
-import { dirname, basename } from 'node:path';
+import { isWhereOperators, matchesWhereOperators, type WHERE_OPERATORS } from './where-operators.js';
+import { LinesDBWatcher, type WatchOptions, type WatchReloadEvent } from './watcher.js';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { mkdir, readFile } from 'node:fs/promises';
+import { dirname, basename, join, relative, resolve } from 'node:path';
 import type {
   DatabaseConfig,
   TableSchema,
+  ColumnDefinition,
   JsonObject,
   TableConfig,
+  TableLayer,
   StandardSchema,
+  StandardSchemaResult,
   ValidationError,
   Table,
   TableDefs,
+  RelationDefs,
+  RelationsOf,
+  PrimaryKeyDefs,
+  KeyedRecord,
   WhereCondition,
+  WhereOperators,
+  FindOptions,
+  FindResult,
+  OrderBy,
+  Include,
+  WithRelations,
   ValidationResult,
+  RowChange,
+  LinesDBEvents,
   ValidationErrorDetail,
   TableValidationResult,
   ForeignKeyDefinition,
+  CheckDefinition,
+  ColumnDefault,
+  SyncEvent,
+  SyncConflictError,
+  SyncConflictPolicy,
 } from './types.js';
 import type { BiDirectionalSchema } from './schema.js';
 
@@ -39,30 +74,156 @@ export interface SyncOptions {
   fields?: readonly string[];
 }
 
+/**
+ * A relation resolved to the columns it joins on: `localColumns` on the table the rows were found in,
+ * matched in order to `foreignColumns` on the table the relation loads
+ */
+interface Relation {
+  name: string;
+  kind: 'belongsTo' | 'hasMany';
+  table: string;
+  localColumns: string[];
+  foreignColumns: string[];
+}
+
+/**
+ * What a table's schema file declares besides the validation schema itself
+ */
+interface SchemaMetadata {
+  primaryKey?: BiDirectionalSchema['primaryKey'];
+  foreignKeys?: BiDirectionalSchema['foreignKeys'];
+  indexes?: BiDirectionalSchema['indexes'];
+  defaults?: BiDirectionalSchema['defaults'];
+  checks?: BiDirectionalSchema['checks'];
+}
+
+/**
+ * A file a sync wrote, with the lines it wrote anew when the file is a JSONL one
+ */
+interface WrittenFile extends Omit<SyncEvent, 'table'> {
+  /** The hash of the file's new content, or null for a record file it deleted */
+  hash: string | null;
+}
+
+/**
+ * A table's files as this database last read or wrote them, to tell when something else changed them
+ */
+interface TableBaseline {
+  /** The hash of the files, as `hashTableFiles` takes it */
+  hash: string;
+  /** The table's rows as the files held them, kept to merge with when the conflict policy is `merge` */
+  rows?: JsonObject[];
+}
+
+/**
+ * How `initialize()` loads the rows of its tables
+ */
+interface LoadOptions {
+  /** Insert rows one by one to catch every constraint violation */
+  detailedValidate: boolean;
+  /** Report lines that are not valid JSON as errors of type `parse` instead of throwing */
+  tolerant: boolean;
+}
+
+/**
+ * A table a lazy initialize found, whose rows are loaded the first time it is used.
+ * Its schema file is read up front, since loading the rows then has to happen synchronously.
+ */
+interface PendingTable {
+  config: TableConfig;
+  validationSchema: StandardSchema | undefined;
+  metadata: SchemaMetadata;
+  options: LoadOptions;
+  /** Taken up front when the database file caches tables */
+  fingerprint?: TableFingerprint;
+}
+
+/**
+ * Temporary table the cascade triggers record the tables a foreign key action changed in
+ */
+const CASCADE_LOG_TABLE = 'lines_db_cascaded_tables';
+
+/**
+ * Hidden column of a table with optional columns, listing the optional fields a row sets to null -
+ * NULL in an optional column that it does not list means the row leaves the field out
+ */
+const NULL_FIELDS_COLUMN = '__lines_db_null_fields';
+
 /**
  * Sync options plus how to treat fields a table does not have: a sync asked for one table by name
  * rejects them, while a sync covering every table just leaves them out.
  */
 type InternalSyncOptions = SyncOptions & { strictFields?: boolean };
 
-export class LinesDB<Tables extends TableDefs> {
+export class LinesDB<
+  Tables extends TableDefs,
+  Relations extends RelationDefs = {},
+  PrimaryKeys extends PrimaryKeyDefs = {},
+> {
   private db: SQLiteDatabase;
-  private config: DatabaseConfig<Tables>;
+  private config: DatabaseConfig<Tables, Relations, PrimaryKeys>;
   private schemas: Map<string, TableSchema> = new Map();
   private validationSchemas: Map<string, StandardSchema | undefined> = new Map();
   private tables: Map<string, TableConfig> = new Map();
   private inTransaction: boolean = false;
+  /** The savepoints of the nested transactions running, innermost last */
+  private savepoints: string[] = [];
+  /** How many savepoints were opened, which names the next one */
+  private savepointCount: number = 0;
   private syncQueue: Map<string, Promise<void>> = new Map();
   /** The order a table's schema declares its fields in, as the rows it computes list them */
   private keyOrders: Map<string, Set<string>> = new Map();
+  /** Settles when the outermost running transaction ends */
+  private transactionEnd: Promise<void> = Promise.resolve();
+  /** The tables a watch reload dropped and is loading again, and when it is done */
+  private reload: { tables: Set<string>; done: Promise<void> } | null = null;
+  private watchers: Set<LinesDBWatcher> = new Set();
+  private listeners: Map<keyof LinesDBEvents<Tables>, Set<(event: never) => void>> = new Map();
+  /** Identifies the running transaction in the events its changes emit */
+  private transactionId: number | null = null;
+  private transactionCount: number = 0;
+  /** Whether a table has triggers recording the changes foreign key actions make to it */
+  private hasCascadeTriggers: boolean = false;
+  /** Events of the running transaction, delivered once it commits */
+  private pendingEvents: Array<() => void> = [];
+  /** Undo what the running transaction changed besides the database, such as a column it added */
+  private rollbackActions: Array<() => void> = [];
+  /** The line each row of a layered table was loaded from, to report errors at */
+  private rowOrigins: Map<string, RowOrigin[]> = new Map();
+  /** Tables a lazy initialize found that have not been loaded yet */
+  private pendingTables: Map<string, PendingTable> = new Map();
+  /**
+   * Hash of the content a sync last wrote to each JSONL file, recorded while watching, or null for a
+   * record file it deleted
+   */
+  private ownWrites: Map<string, string | null> = new Map();
+  /** The files of each table as it was last loaded or synced, unless sync conflicts are overwritten */
+  private baselines: Map<string, TableBaseline> = new Map();
+  /** The files the tables of a database file were loaded from, kept only for a database on disk */
+  private cache: TableCache | undefined;
 
-  private constructor(config: DatabaseConfig<Tables>, dbPath?: string) {
+  private constructor(config: DatabaseConfig<Tables, Relations, PrimaryKeys>, dbPath?: string) {
     this.config = config;
+    if (config.syncLayer !== undefined && this.syncLayerDir() === undefined) {
+      throw new Error(`syncLayer '${config.syncLayer}' is not one of the directories in dataDir`);
+    }
     this.db = createDatabase(dbPath ?? ':memory:');
+    if (dbPath !== undefined && dbPath !== ':memory:') {
+      this.cache = new TableCache(this.db);
+    }
   }
 
-  static create<Tables extends TableDefs>(config: DatabaseConfig<Tables>, dbPath?: string): LinesDB<Tables> {
-    return new LinesDB<Tables>(config, dbPath);
+  /**
+   * Create a database for the JSONL files of a directory.
+   * With a `dbPath`, the database is kept in that SQLite file. A table whose JSONL and schema files
+   * have not changed since it was loaded into the file is kept as the file holds it rather than
+   * loaded again, which makes starting up with large files fast.
+   */
+  static create<Tables extends TableDefs, Relations extends RelationDefs = {}, PrimaryKeys extends PrimaryKeyDefs = {}>(
+    config: DatabaseConfig<Tables, Relations, PrimaryKeys>,
+    dbPath?: string,
+  ): LinesDB<Tables, Relations, PrimaryKeys> {
+    return new LinesDB<Tables, Relations, PrimaryKeys>(config, dbPath);
   }
 
   /**
@@ -70,39 +231,93 @@ export class LinesDB<Tables extends TableDefs> {
    * Uses dependency resolution to ensure foreign key references are loaded in correct order
    * @param options Optional configuration for initialization
    * @param options.tableName Optional table name to initialize. If not provided, initializes all tables
+   * @param options.tables Optional table names to initialize, along with the tables they reference
+   * @param options.lazy If true, tables not named in `tableName` or `tables` are loaded the first time they are used
    * @param options.detailedValidate If true, performs detailed validation by inserting rows one by one to catch constraint violations
+   * @param options.tolerant If true, lines that are not valid JSON are reported as errors of type `parse` instead of throwing
    * @param options.transform Optional transform function to apply to rows before validation (only applied to the specified tableName)
    * @returns ValidationResult containing validation status, errors, and warnings
    */
   async initialize(options?: {
     tableName?: string;
+    tables?: string[];
+    lazy?: boolean;
     detailedValidate?: boolean;
+    tolerant?: boolean;
     transform?: (row: JsonObject) => JsonObject;
   }): Promise<ValidationResult> {
-    const allErrors: ValidationErrorDetail[] = [];
-    const allWarnings: string[] = [];
-    const allRowCounts = new Map<string, number>();
     const tableName = options?.tableName;
-    const detailedValidate = options?.detailedValidate ?? false;
+    const loadOptions: LoadOptions = {
+      detailedValidate: options?.detailedValidate ?? false,
+      tolerant: options?.tolerant ?? false,
+    };
     const transform = options?.transform;
+    const lazy = options?.lazy ?? false;
+    const namedTables = [...(tableName ? [tableName] : []), ...(options?.tables ?? [])];
 
     // Scan directory for JSONL files
-    this.tables = await DirectoryScanner.scanDirectory(this.config.dataDir);
+    this.tables = await DirectoryScanner.scanDirectory(this.config.dataDir, {
+      namespaceSeparator: this.config.namespaceSeparator,
+    });
+    this.pendingTables.clear();
+
+    // A database file may hold tables whose JSONL file has since been removed
+    if (this.cache && namedTables.length === 0) {
+      for (const name of this.cache.tableNames()) {
+        if (!this.tables.has(name)) {
+          this.dropTable(name);
+        }
+      }
+    }
 
     // Determine which tables to load
-    const tablesToLoad = tableName ? [tableName] : Array.from(this.tables.keys());
+    const tablesToLoad = namedTables.length > 0 || lazy ? namedTables : Array.from(this.tables.keys());
 
     // Validate that all requested tables exist BEFORE starting to load
     for (const tableNameToLoad of tablesToLoad) {
       if (!this.tables.has(tableNameToLoad)) {
-        throw new Error(`Table '${tableNameToLoad}' not found in directory '${this.config.dataDir}'`);
+        throw new Error(`Table '${tableNameToLoad}' not found in directory '${this.dataDirs().join("', '")}'`);
+      }
+    }
+
+    const result = await this.loadTables(tablesToLoad, { ...loadOptions, transform, transformTable: tableName });
+
+    if (lazy) {
+      for (const [name, config] of this.tables) {
+        if (!this.schemas.has(name)) {
+          await this.preloadTable(name, config, loadOptions);
+        }
       }
     }
 
+    return result;
+  }
+
+  /**
+   * Load tables with dependency resolution and build the validation result for them
+   * @param alreadyLoaded Tables already in the database, which are neither loaded again nor reported
+   */
+  private async loadTables(
+    tablesToLoad: string[],
+    options: Partial<LoadOptions> & {
+      transform?: (row: JsonObject) => JsonObject;
+      transformTable?: string;
+    },
+    alreadyLoaded: Iterable<string> = [],
+  ): Promise<ValidationResult> {
+    const allErrors: ValidationErrorDetail[] = [];
+    const allWarnings: string[] = [];
+    const allRowCounts = new Map<string, number>();
+    const { transform, transformTable } = options;
+    const loadOptions: LoadOptions = {
+      detailedValidate: options.detailedValidate ?? false,
+      tolerant: options.tolerant ?? false,
+    };
+
     // Track loaded tables and tables currently being loaded (for circular dependency detection)
-    const loadedTables = new Set<string>();
+    const loadedTables = new Set<string>(alreadyLoaded);
     const loadingTables = new Set<string>();
-    const attemptedTables = new Set<string>(); // Track all attempted tables (loaded or not)
+    const attemptedTables = new Set<string>(loadedTables); // Track all attempted tables (loaded or not)
     const allDeferredForeignKeys: Array<{
       tableName: string;
       foreignKey: ForeignKeyDefinition;
@@ -113,7 +328,7 @@ export class LinesDB<Tables extends TableDefs> {
     for (const tableNameToLoad of tablesToLoad) {
       if (!attemptedTables.has(tableNameToLoad)) {
         // Only apply transform to the specified table
-        const tableTransform = tableNameToLoad === tableName ? transform : undefined;
+        const tableTransform = tableNameToLoad === transformTable ? transform : undefined;
         const {
           errors,
           warnings,
@@ -124,7 +339,7 @@ export class LinesDB<Tables extends TableDefs> {
           loadedTables,
           loadingTables,
           attemptedTables,
-          detailedValidate,
+          loadOptions,
           tableTransform,
         );
         allErrors.push(...errors);
@@ -137,13 +352,13 @@ export class LinesDB<Tables extends TableDefs> {
     }
 
     // Validate deferred foreign keys (from circular dependencies) now that all tables are loaded
-    if (detailedValidate && allDeferredForeignKeys.length > 0) {
+    if (loadOptions.detailedValidate && allDeferredForeignKeys.length > 0) {
       for (const { tableName: tName, foreignKey: fk, filePath } of allDeferredForeignKeys) {
         // Only validate if the referenced table was actually loaded
         if (!loadedTables.has(fk.references.table)) {
           continue;
         }
-        const deferredErrors = this.validateDeferredForeignKey(tName, fk, filePath);
+        const deferredErrors = this.locateErrors(tName, this.validateDeferredForeignKey(tName, fk, filePath));
         allErrors.push(...deferredErrors);
       }
     }
@@ -177,7 +392,7 @@ export class LinesDB<Tables extends TableDefs> {
     loadedTables: Set<string>,
     loadingTables: Set<string>,
     attemptedTables: Set<string>,
-    detailedValidate: boolean,
+    options: LoadOptions,
     transform?: (row: JsonObject) => JsonObject,
   ): Promise<{
     errors: ValidationErrorDetail[];
@@ -229,7 +444,7 @@ export class LinesDB<Tables extends TableDefs> {
         const { pathToFileURL } = await import('node:url');
         const schemaPath = await findSchemaFile(
           dirname(tableConfig.jsonlPath),
-          basename(tableConfig.jsonlPath, '.jsonl'),
+          tableFileBaseName(basename(tableConfig.jsonlPath))!,
         );
         if (schemaPath) {
           const schemaUrl = pathToFileURL(schemaPath).href;
@@ -262,7 +477,7 @@ export class LinesDB<Tables extends TableDefs> {
                 loadedTables,
                 loadingTables,
                 attemptedTables,
-                detailedValidate,
+                options,
                 undefined,
               );
               errors.push(...depResult.errors);
@@ -309,17 +524,29 @@ export class LinesDB<Tables extends TableDefs> {
       // Combine failed and circular dependencies for table loading (both need FK skipping)
       const allSkippedDependencies = new Set([...failedDependencies, ...circularDependencies]);
 
-      // Now load this table
+      // Taken before reading, so a file changing while the table loads conflicts with the next sync and is
+      // loaded again next time
+      const fingerprint = this.cache && !transform ? await this.tableFingerprint(tableConfig) : undefined;
+      const loadedHash =
+        this.conflictPolicy() === 'overwrite'
+          ? undefined
+          : (fingerprint?.jsonlHash ?? (await this.hashTableFiles(tableConfig)));
+
+      // Now load this table, unless the database file already holds it as its files describe it
+      const cached = fingerprint && (await this.cachedTable(tableName, fingerprint, circularDependencies));
       const {
         loaded,
         rowCount,
         errors: loadErrors,
-      } = await this.loadTable(tableName, tableConfig, detailedValidate, transform, allSkippedDependencies);
+      } = cached
+        ? this.restoreTable(tableName, await this.readValidationSchema(tableConfig), cached)
+        : await this.loadTable(tableName, tableConfig, options, transform, allSkippedDependencies, fingerprint);
       errors.push(...loadErrors);
       rowCounts.set(tableName, rowCount);
 
       if (loaded) {
         loadedTables.add(tableName);
+        this.recordBaseline(tableName, loadedHash);
 
         // Track circular dependency FKs for deferred validation
         if (foreignKeys && circularDependencies.size > 0) {
@@ -348,46 +575,127 @@ export class LinesDB<Tables extends TableDefs> {
 
   /**
    * Load a single table from JSONL file
+   * @param fingerprint - The fingerprint of the table's files, taken before reading them, to keep the
+   * table in the database file under
    * @returns Object with loaded status and validation errors
    */
   private async loadTable(
     tableName: string,
     config: TableConfig,
-    detailedValidate: boolean,
+    options: LoadOptions,
     transform?: (row: JsonObject) => JsonObject,
     failedDependencies?: Set<string>,
+    fingerprint?: TableFingerprint,
   ): Promise<{ loaded: boolean; rowCount: number; errors: ValidationErrorDetail[] }> {
-    // Read JSONL file
-    let data = await JsonlReader.read(config.jsonlPath);
+    if (this.cache) {
+      // The database file may hold the table from an earlier load, which this one replaces
+      this.dropTable(tableName);
+    }
 
-    // Apply transform if provided (before validation)
-    if (transform) {
-      data = data.map((row) => transform(row));
+    const { validationSchema, metadata } = await this.readTableSchema(tableName, config);
+
+    // Read JSONL file, applying transform if provided (before validation)
+    const { rows, parseErrors } = await this.readTableRows(
+      tableName,
+      config,
+      { validationSchema, metadata },
+      options.tolerant,
+    );
+    if (parseErrors.length > 0) {
+      // Loading the other rows would drop the malformed lines from the file at the next sync
+      return { loaded: false, rowCount: rows.length + parseErrors.length, errors: parseErrors };
     }
+    const data = transform ? rows.map((row) => transform(row)) : rows;
+
+    this.validationSchemas.set(tableName, validationSchema);
 
-    // Load validation schema if provided or try to auto-load
-    let validationSchema = config.validationSchema;
-    const schemaMetadata: {
-      primaryKey?: string;
-      foreignKeys?: BiDirectionalSchema['foreignKeys'];
-      indexes?: BiDirectionalSchema['indexes'];
-    } = {};
+    // Validate data first and collect validated (transformed) data
+    const validationErrors: Array<{
+      rowIndex: number;
+      rowData: JsonObject;
+      error: ValidationError;
+    }> = [];
+    const validatedData: JsonObject[] = [];
+    // The field order describes the rows this load computes, so a reload does not keep the order a
+    // schema had the last time the table was loaded
+    this.keyOrders.delete(tableName);
 
-    if (!validationSchema) {
+    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
+      const row = data[rowIndex];
       try {
-        validationSchema = await SchemaLoader.loadSchema(config.jsonlPath);
-      } catch (_error) {
-        // Schema file not found or failed to load - this is OK, table can still be used without validation
+        const validatedRow = await this.validateAndTransformAsync(tableName, row);
+        this.recordKeyOrder(tableName, validatedRow);
+        validatedData.push(validatedRow);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ValidationError') {
+          validationErrors.push({
+            rowIndex,
+            rowData: row,
+            error: error as ValidationError,
+          });
+        } else {
+          throw error;
+        }
       }
     }
 
+    // Convert validation errors to ValidationErrorDetail format
+    const validationErrorDetails: ValidationErrorDetail[] = validationErrors.map((ve) => ({
+      file: config.jsonlPath,
+      tableName,
+      rowIndex: ve.rowIndex,
+      issues: ve.error.issues,
+      type: 'schema' as const,
+    }));
+
+    if (validationErrors.length > 0) {
+      // Return errors instead of throwing
+      return { loaded: false, rowCount: data.length, errors: this.locateErrors(tableName, validationErrorDetails) };
+    }
+
+    const { loaded, errors } = this.buildTable(
+      tableName,
+      config,
+      { validationSchema, metadata },
+      validatedData,
+      options.detailedValidate,
+      failedDependencies,
+    );
+    if (!loaded) {
+      return { loaded, rowCount: data.length, errors: this.locateErrors(tableName, errors) };
+    }
+
+    if (fingerprint) {
+      this.cache!.set(tableName, fingerprint, {
+        schema: this.schemas.get(tableName)!,
+        keyOrder: Array.from(this.keyOrders.get(tableName) ?? []),
+        rowCount: data.length,
+      });
+    }
+
+    return { loaded: true, rowCount: data.length, errors: [] };
+  }
+
+  /**
+   * Read a table's validation schema along with the constraints its schema file declares
+   */
+  private async readTableSchema(
+    tableName: string,
+    config: TableConfig,
+  ): Promise<{ validationSchema: StandardSchema | undefined; metadata: SchemaMetadata }> {
+    const validationSchema = await this.readValidationSchema(config);
+    const schemaMetadata: SchemaMetadata = {};
+
     // Load schema metadata (foreignKeys, primaryKey, indexes) from schema module
     // SchemaLoader.loadSchema() only returns the validation schema object, not metadata
     if (!config.validationSchema) {
       // Only load if not already provided via config
       try {
         const { pathToFileURL } = await import('node:url');
-        const schemaPath = await findSchemaFile(dirname(config.jsonlPath), basename(config.jsonlPath, '.jsonl'));
+        const schemaPath = await findSchemaFile(
+          dirname(config.jsonlPath),
+          tableFileBaseName(basename(config.jsonlPath))!,
+        );
         if (!schemaPath) throw new Error('Schema file not found');
         const schemaUrl = pathToFileURL(schemaPath).href;
         const schemaModule = await import(`${schemaUrl}?t=${Date.now()}`);
@@ -413,12 +721,26 @@ export class LinesDB<Tables extends TableDefs> {
           schemaMetadata.indexes = schemaModule.indexes;
         }
 
+        if (schemaExport?.defaults) {
+          schemaMetadata.defaults = schemaExport.defaults;
+        } else if (schemaModule.defaults) {
+          schemaMetadata.defaults = schemaModule.defaults;
+        }
+
+        if (schemaExport?.checks) {
+          schemaMetadata.checks = schemaExport.checks;
+        } else if (schemaModule.checks) {
+          schemaMetadata.checks = schemaModule.checks;
+        }
+
         // Debug: log loaded metadata
         if (process.env.DEBUG_LINES_DB) {
           console.log(`[lines-db] Schema metadata for ${tableName}:`);
           console.log(`  primaryKey: ${schemaMetadata.primaryKey}`);
           console.log(`  foreignKeys: ${JSON.stringify(schemaMetadata.foreignKeys)}`);
           console.log(`  indexes: ${JSON.stringify(schemaMetadata.indexes)}`);
+          console.log(`  defaults: ${JSON.stringify(schemaMetadata.defaults)}`);
+          console.log(`  checks: ${JSON.stringify(schemaMetadata.checks)}`);
         }
       } catch (_error) {
         // Schema file not found - this is OK
@@ -432,52 +754,35 @@ export class LinesDB<Tables extends TableDefs> {
       }
     }
 
-    this.validationSchemas.set(tableName, validationSchema);
-
-    // Validate data first and collect validated (transformed) data
-    const validationErrors: Array<{
-      rowIndex: number;
-      rowData: JsonObject;
-      error: ValidationError;
-    }> = [];
-    const validatedData: JsonObject[] = [];
-    // The field order describes the rows this load computes, so a reload does not keep the order a
-    // schema had the last time the table was loaded
-    this.keyOrders.delete(tableName);
+    return { validationSchema, metadata: schemaMetadata };
+  }
 
-    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-      const row = data[rowIndex];
-      try {
-        const validatedRow = this.validateAndTransform(tableName, row);
-        this.recordKeyOrder(tableName, validatedRow);
-        validatedData.push(validatedRow);
-      } catch (error) {
-        if (error instanceof Error && error.name === 'ValidationError') {
-          validationErrors.push({
-            rowIndex,
-            rowData: row,
-            error: error as ValidationError,
-          });
-        } else {
-          throw error;
-        }
-      }
+  /**
+   * Load the validation schema a table is configured with, or the one its schema file exports
+   */
+  private async readValidationSchema(config: TableConfig): Promise<StandardSchema | undefined> {
+    if (config.validationSchema) {
+      return config.validationSchema;
     }
-
-    // Convert validation errors to ValidationErrorDetail format
-    const validationErrorDetails: ValidationErrorDetail[] = validationErrors.map((ve) => ({
-      file: config.jsonlPath,
-      tableName,
-      rowIndex: ve.rowIndex,
-      issues: ve.error.issues,
-      type: 'schema' as const,
-    }));
-
-    if (validationErrors.length > 0) {
-      // Return errors instead of throwing
-      return { loaded: false, rowCount: data.length, errors: validationErrorDetails };
+    try {
+      return await SchemaLoader.loadSchema(config.jsonlPath);
+    } catch (_error) {
+      // Schema file not found or failed to load - this is OK, table can still be used without validation
+      return undefined;
     }
+  }
 
+  /**
+   * Create a table for validated rows and insert them, working out its columns and constraints
+   */
+  private buildTable(
+    tableName: string,
+    config: TableConfig,
+    { validationSchema, metadata }: { validationSchema: StandardSchema | undefined; metadata: SchemaMetadata },
+    validatedData: JsonObject[],
+    detailedValidate: boolean,
+    failedDependencies?: Set<string>,
+  ): { loaded: boolean; errors: ValidationErrorDetail[] } {
     // Determine schema - infer from validated data if auto-inference is enabled
     let schema: TableSchema;
     let inferredSchema: TableSchema | undefined;
@@ -486,6 +791,7 @@ export class LinesDB<Tables extends TableDefs> {
     if (validatedData.length > 0) {
       inferredSchema = JsonlReader.inferSchema(tableName, validatedData);
     }
+    const schemaColumns = config.schema ? undefined : columnsFromSchema(validationSchema);
 
     if (config.schema) {
       schema = config.schema;
@@ -498,9 +804,20 @@ export class LinesDB<Tables extends TableDefs> {
           }
         }
       }
+    } else if (schemaColumns) {
+      // The schema describes the columns, so the table exists with stable types whatever the rows hold.
+      // Fields the schema passes through without declaring them are still inferred from the rows.
+      const declared = new Set(schemaColumns.map((col) => col.name));
+      schema = {
+        name: tableName,
+        columns: [
+          ...schemaColumns.map((col) => (col.notNull || col.optional ? col : this.withOptionality(col, validatedData))),
+          ...(inferredSchema?.columns ?? []).filter((col) => !declared.has(col.name)),
+        ],
+      };
     } else if (config.autoInferSchema !== false) {
       if (validatedData.length === 0) {
-        return { loaded: false, rowCount: 0, errors: [] };
+        return { loaded: false, errors: [] };
       }
       // Use inferred schema
       schema = inferredSchema!;
@@ -512,13 +829,29 @@ export class LinesDB<Tables extends TableDefs> {
     // Enhance schema with constraints from validation schema and schema metadata
     // Priority: config.validationSchema (as BiDirectionalSchema) > schemaMetadata
     const biSchema = validationSchema as BiDirectionalSchema;
-    const primaryKey = biSchema?.primaryKey || schemaMetadata.primaryKey;
-    const foreignKeys = biSchema?.foreignKeys || schemaMetadata.foreignKeys;
-    const indexes = biSchema?.indexes || schemaMetadata.indexes;
-
-    if (primaryKey && !schema.columns.some((col) => col.primaryKey)) {
+    const primaryKey = biSchema?.primaryKey || metadata.primaryKey;
+    const foreignKeys = biSchema?.foreignKeys || metadata.foreignKeys;
+    const indexes = biSchema?.indexes || metadata.indexes;
+    const defaults = biSchema?.defaults || metadata.defaults;
+    const checks = biSchema?.checks || metadata.checks;
+
+    if (Array.isArray(primaryKey) && primaryKey.length > 1) {
+      // A key missing a column would match rows by the others alone
+      const missing = primaryKey.find((name) => !schema.columns.some((col) => col.name === name));
+      if (missing !== undefined) {
+        throw new Error(
+          `Primary key column '${missing}' of table '${tableName}' is not a column of the table: ` +
+            'no row has the field and the schema does not declare it',
+        );
+      }
+      // A composite key replaces the 'id' column JsonlReader.inferSchema() may have made the key
+      for (const col of schema.columns) {
+        col.primaryKey = primaryKey.includes(col.name);
+      }
+      schema.primaryKey = [...primaryKey];
+    } else if (primaryKey && !schema.columns.some((col) => col.primaryKey)) {
       // Add primary key constraint to column
-      const col = schema.columns.find((c) => c.name === primaryKey);
+      const col = schema.columns.find((c) => c.name === (Array.isArray(primaryKey) ? primaryKey[0] : primaryKey));
       if (col) {
         col.primaryKey = true;
       }
@@ -530,6 +863,16 @@ export class LinesDB<Tables extends TableDefs> {
         idColumn.primaryKey = true;
       }
     }
+    for (const fk of foreignKeys ?? []) {
+      const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+      if (columns.length !== referencedColumns.length) {
+        throw new Error(
+          `Foreign key (${columns.join(', ')}) of table '${tableName}' lists ${columns.length} column(s) but ` +
+            `references ${referencedColumns.length} of table '${fk.references.table}' ` +
+            `(${referencedColumns.join(', ')}): list one referenced column per column`,
+        );
+      }
+    }
     if (foreignKeys) {
       schema.foreignKeys =
         failedDependencies && failedDependencies.size > 0
@@ -545,13 +888,24 @@ export class LinesDB<Tables extends TableDefs> {
       for (const index of indexes) {
         if (index.unique && index.columns.length === 1) {
           const col = schema.columns.find((c) => c.name === index.columns[0]);
-          if (col && !col.unique && !col.primaryKey) {
+          if (col && !col.unique && (!col.primaryKey || this.schemaPrimaryKey(schema).length > 1)) {
             col.unique = true;
           }
         }
       }
     }
 
+    if (defaults) {
+      for (const col of schema.columns) {
+        if (col.name in defaults && defaults[col.name] !== undefined) {
+          col.default = defaults[col.name];
+        }
+      }
+    }
+    if (checks) {
+      schema.checks = checks;
+    }
+
     this.schemas.set(tableName, schema);
 
     // Create table
@@ -561,630 +915,2139 @@ export class LinesDB<Tables extends TableDefs> {
     if (detailedValidate) {
       const insertErrors = this.insertDataWithDetailedValidation(tableName, schema, validatedData, config.jsonlPath);
       if (insertErrors.length > 0) {
-        return { loaded: false, rowCount: data.length, errors: insertErrors };
+        return { loaded: false, errors: insertErrors };
       }
     } else {
       this.insertData(tableName, schema, validatedData);
     }
 
-    return { loaded: true, rowCount: data.length, errors: [] };
+    return { loaded: true, errors: [] };
   }
 
   /**
-   * Create table in SQLite with constraints and indexes
+   * Read the rows of a table, one shard after another, laying its files in a layered data directory
+   * over each other. The cells of a CSV or TSV file take the types of the columns the schema describes.
+   * @param tolerant Report lines that are not valid JSON instead of throwing
    */
-  private createTable(schema: TableSchema): void {
-    // Note: Foreign key constraints are enabled at database connection level (see sqlite-adapter.ts)
-    // No need to enable them here for each table
-
-    // Quote table name to handle special characters
-    const quotedTableName = this.quoteTableName(schema.name);
-
-    // Build a set of columns that should have UNIQUE constraint
-    // This includes columns marked as unique in schema AND single-column unique indexes
-    // The latter is required for foreign key references, as SQLite requires the referenced column
-    // to have a UNIQUE constraint in the table definition (not just a separately created index)
-    const uniqueColumns = new Set<string>();
-    for (const col of schema.columns) {
-      if (col.unique) {
-        uniqueColumns.add(col.name);
+  private async readTableRows(
+    tableName: string,
+    config: TableConfig,
+    schema: { validationSchema: StandardSchema | undefined; metadata: SchemaMetadata },
+    tolerant: boolean,
+  ): Promise<{ rows: JsonObject[]; parseErrors: ValidationErrorDetail[] }> {
+    const parseErrors: ValidationErrorDetail[] = [];
+    const layers: LayerRows[] = [];
+    for (const layer of this.tableFiles(config)) {
+      if (layer.recordDir) {
+        const records = await RecordDirectory.read(layer.recordDir, {
+          onParseError: tolerant
+            ? (file, error) =>
+                parseErrors.push(this.parseErrorDetail(tableName, config, { ...layer, jsonlPath: file }, error))
+            : undefined,
+        });
+        layers.push(...this.recordLayers(layer, records));
+        continue;
       }
-    }
-    if (schema.indexes) {
-      for (const index of schema.indexes) {
-        if (index.unique && index.columns.length === 1) {
-          uniqueColumns.add(index.columns[0]);
-        }
+      if (isDelimitedFile(layer.jsonlPath)) {
+        const table = await CsvReader.read(layer.jsonlPath);
+        layers.push({ layer, rows: CsvReader.toRows(table, this.declaredColumns(config, schema.validationSchema)) });
+        continue;
+      }
+      const onParseError = tolerant
+        ? (error: JsonlParseError) => parseErrors.push(this.parseErrorDetail(tableName, config, layer, error))
+        : undefined;
+      const rows: JsonObject[] = [];
+      for await (const { row } of JsonlReader.stream(layer.jsonlPath, { onParseError })) {
+        rows.push(row);
       }
+      layers.push({ layer, rows });
     }
+    return { rows: this.mergeTableLayers(tableName, config, schema.metadata, layers), parseErrors };
+  }
 
-    const columnDefs = schema.columns.map((col) => {
-      // JSON type is stored as TEXT in SQLite
-      const sqlType = col.type === 'JSON' ? 'TEXT' : col.type;
-      const parts = [this.quoteIdentifier(col.name), sqlType];
-      if (col.primaryKey) parts.push('PRIMARY KEY');
-      if (col.notNull) parts.push('NOT NULL');
-      if (uniqueColumns.has(col.name) && !col.primaryKey) parts.push('UNIQUE');
-      return parts.join(' ');
+  /**
+   * Read the rows of a table synchronously, as {@link readTableRows} does
+   */
+  private readTableRowsSync(
+    tableName: string,
+    config: TableConfig,
+    schema: { validationSchema: StandardSchema | undefined; metadata: SchemaMetadata },
+    tolerant: boolean,
+  ): { rows: JsonObject[]; parseErrors: ValidationErrorDetail[] } {
+    const parseErrors: ValidationErrorDetail[] = [];
+    const layers = this.tableFiles(config).flatMap((layer) => {
+      if (layer.recordDir) {
+        const records = RecordDirectory.readSync(layer.recordDir, {
+          onParseError: tolerant
+            ? (file, error) =>
+                parseErrors.push(this.parseErrorDetail(tableName, config, { ...layer, jsonlPath: file }, error))
+            : undefined,
+        });
+        return this.recordLayers(layer, records);
+      }
+      return {
+        layer,
+        rows: isDelimitedFile(layer.jsonlPath)
+          ? CsvReader.toRows(CsvReader.readSync(layer.jsonlPath), this.declaredColumns(config, schema.validationSchema))
+          : JsonlReader.readSync(layer.jsonlPath, {
+              onParseError: tolerant
+                ? (error) => parseErrors.push(this.parseErrorDetail(tableName, config, layer, error))
+                : undefined,
+            }),
+      };
     });
+    return { rows: this.mergeTableLayers(tableName, config, schema.metadata, layers), parseErrors };
+  }
 
-    // Add foreign key constraints
-    const foreignKeyDefs: string[] = [];
-    if (schema.foreignKeys && schema.foreignKeys.length > 0) {
-      for (const fk of schema.foreignKeys) {
-        const fkParts = [
-          `FOREIGN KEY (${this.quoteIdentifier(fk.column)})`,
-          `REFERENCES ${this.quoteTableName(fk.references.table)}(${this.quoteIdentifier(fk.references.column)})`,
-        ];
-        if (fk.onDelete) {
-          fkParts.push(`ON DELETE ${fk.onDelete}`);
-        }
-        if (fk.onUpdate) {
-          fkParts.push(`ON UPDATE ${fk.onUpdate}`);
-        }
-        foreignKeyDefs.push(fkParts.join(' '));
-      }
-    }
+  /**
+   * Mark a declared column optional when rows leave its field out, so the rows that leave it out are
+   * read and written back without it
+   */
+  private withOptionality(column: ColumnDefinition, rows: JsonObject[]): ColumnDefinition {
+    return rows.some((row) => row[column.name] === undefined) ? { ...column, optional: true } : column;
+  }
 
-    const allDefs = [...columnDefs, ...foreignKeyDefs];
-    const sql = `CREATE TABLE IF NOT EXISTS ${quotedTableName} (${allDefs.join(', ')})`;
-    this.db.exec(sql);
+  /**
+   * The columns a table's schema describes before any row is read, to give the cells of a CSV or TSV
+   * file their types
+   */
+  private declaredColumns(config: TableConfig, validationSchema: StandardSchema | undefined): ColumnDefinition[] {
+    return config.schema?.columns ?? columnsFromSchema(validationSchema) ?? [];
+  }
 
-    // Create indexes
-    if (schema.indexes && schema.indexes.length > 0) {
-      for (let i = 0; i < schema.indexes.length; i++) {
-        const index = schema.indexes[i];
-        // Create safe index name by replacing special characters
-        const safeTableName = schema.name.replace(/[^a-zA-Z0-9]/g, '_');
-        const resolvedIndexName = index.name || `idx_${safeTableName}_${index.columns.join('_')}_${i}`;
-        const uniqueKeyword = index.unique ? 'UNIQUE ' : '';
-        const indexSql = `CREATE ${uniqueKeyword}INDEX IF NOT EXISTS ${this.quoteIdentifier(resolvedIndexName)} ON ${quotedTableName} (${index.columns
-          .map((col) => this.quoteIdentifier(col))
-          .join(', ')})`;
-        this.db.exec(indexSql);
-      }
+  /**
+   * Give each record of a directory of records a layer of its own, so errors point at its file
+   */
+  private recordLayers(layer: TableLayer, records: RecordFile[]): LayerRows[] {
+    return records.map(({ file, row }) => ({ layer: { dataDir: layer.dataDir, jsonlPath: file }, rows: [row] }));
+  }
+
+  /**
+   * Read the rows a layer of a table holds, one shard or record after another when it has several files
+   */
+  private async readLayerRows(tableName: string, layer: TableLayer): Promise<JsonObject[]> {
+    if (layer.recordDir) {
+      return (await RecordDirectory.read(layer.recordDir)).map(({ row }) => row);
     }
+    const files = layer.shards ?? [layer.jsonlPath];
+    return (await Promise.all(files.map((file) => this.readFileRows(tableName, file)))).flat();
   }
 
   /**
-   * Quote table name to handle special characters in SQL
+   * Read the rows a table's file holds, in any of the formats tables are read from
    */
-  private quoteTableName(tableName: string): string {
-    return this.quoteIdentifier(tableName);
+  private async readFileRows(tableName: string, filePath: string): Promise<JsonObject[]> {
+    if (isDelimitedFile(filePath)) {
+      return CsvReader.toRows(await CsvReader.read(filePath), this.schemas.get(tableName)?.columns);
+    }
+    return JsonlReader.read(filePath);
+  }
+
+  private tableLayers(config: TableConfig): TableLayer[] {
+    return (
+      config.layers ?? [
+        {
+          dataDir: dirname(config.jsonlPath),
+          jsonlPath: config.jsonlPath,
+          ...(config.shards ? { shards: config.shards } : {}),
+          ...(config.recordDir ? { recordDir: config.recordDir } : {}),
+        },
+      ]
+    );
   }
 
   /**
-   * Quote identifier for SQL statements, escaping embedded quotes
+   * Every file of a table, lowest layer first and in shard order within a layer, each as a layer of its
+   * own. A directory of records is listed as it is, since its files are only known once it is read.
    */
-  private quoteIdentifier(identifier: string): string {
-    return `"${identifier.replace(/"/g, '""')}"`;
+  private tableFiles(config: TableConfig): TableLayer[] {
+    return this.tableLayers(config).flatMap((layer) =>
+      layer.recordDir
+        ? [layer]
+        : (layer.shards ?? [layer.jsonlPath]).map((file) => ({ dataDir: layer.dataDir, jsonlPath: file })),
+    );
   }
 
   /**
-   * Insert data into table using batch insert (multiple rows per SQL)
-   * SQLite has a parameter limit (default 999), so we batch rows accordingly
-   * Throws exception if any constraint violation occurs
+   * Merge the rows of a table's layers by the primary key its schema file declares, or list the rows
+   * of its shards one after another, remembering the line each row comes from to report errors at
    */
-  private insertData(tableName: string, schema: TableSchema, data: JsonObject[]): void {
-    if (data.length === 0) return;
+  private mergeTableLayers(
+    tableName: string,
+    config: TableConfig,
+    metadata: SchemaMetadata,
+    layers: LayerRows[],
+  ): JsonObject[] {
+    if (!config.layers) {
+      if (layers.length === 1 && layers[0].layer.jsonlPath === config.jsonlPath) {
+        this.rowOrigins.delete(tableName);
+        return layers[0].rows;
+      }
+      this.rowOrigins.set(
+        tableName,
+        layers.flatMap(({ layer, rows }) => rows.map((_, rowIndex) => ({ layer, rowIndex }))),
+      );
+      return layers.flatMap(({ rows }) => rows);
+    }
 
-    const columnNames = schema.columns.map((col) => col.name);
-    const quotedColumns = columnNames.map((name) => this.quoteIdentifier(name));
-    const columnCount = columnNames.length;
+    // Without a declared key, the 'id' column JsonlReader.inferSchema() makes the key
+    const primaryKey = metadata.primaryKey ?? 'id';
+    const { rows, origins } = mergeLayers(layers, Array.isArray(primaryKey) ? primaryKey : [primaryKey]);
+    this.rowOrigins.set(tableName, origins);
+    return rows;
+  }
 
-    // Calculate batch size to stay under SQLite's parameter limit (999)
-    // Leave some margin for safety
-    const maxBatchSize = Math.floor(900 / columnCount);
-    const batchSize = Math.max(1, Math.min(maxBatchSize, 100));
+  /**
+   * Point errors about the rows of a layered or sharded table at the line of the file each row comes from
+   */
+  private locateErrors(tableName: string, errors: ValidationErrorDetail[]): ValidationErrorDetail[] {
+    const origins = this.rowOrigins.get(tableName);
+    if (!origins) {
+      return errors;
+    }
+    const layered = this.tables.get(tableName)?.layers !== undefined;
+    return errors.map((error) => {
+      const origin = error.type === 'parse' || error.tableName !== tableName ? undefined : origins[error.rowIndex];
+      return origin
+        ? {
+            ...error,
+            file: origin.layer.jsonlPath,
+            rowIndex: origin.rowIndex,
+            ...(layered ? { layer: origin.layer.dataDir } : {}),
+          }
+        : error;
+    });
+  }
 
-    // Process data in batches
-    for (let i = 0; i < data.length; i += batchSize) {
-      const batch = data.slice(i, i + batchSize);
-      const rowPlaceholders = columnNames.map(() => '?').join(', ');
-      const valuesPlaceholders = batch.map(() => `(${rowPlaceholders})`).join(', ');
-      const sql = `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES ${valuesPlaceholders}`;
+  /**
+   * Report a line of a table's JSONL file that is not valid JSON
+   */
+  private parseErrorDetail(
+    tableName: string,
+    config: TableConfig,
+    layer: TableLayer,
+    error: JsonlParseError,
+  ): ValidationErrorDetail {
+    return {
+      file: layer.jsonlPath,
+      tableName,
+      rowIndex: error.rowIndex,
+      ...(config.layers ? { layer: layer.dataDir } : {}),
+      issues: [{ message: `Invalid JSON at line ${error.lineNumber}, column ${error.column}: ${error.message}` }],
+      type: 'parse',
+      parseError: { line: error.lineNumber, column: error.column },
+    };
+  }
 
-      const values: (string | number | bigint | null | Uint8Array)[] = [];
-      for (const row of batch) {
-        for (const col of columnNames) {
-          values.push(this.normalizeValue(row[col]));
+  /**
+   * Read the schema of a table a lazy initialize leaves to be loaded when it is first used
+   */
+  private async preloadTable(tableName: string, config: TableConfig, options: LoadOptions): Promise<void> {
+    const { validationSchema, metadata } = await this.readTableSchema(tableName, config);
+    this.validationSchemas.set(tableName, validationSchema);
+    this.pendingTables.set(tableName, {
+      config,
+      validationSchema,
+      metadata,
+      options,
+      fingerprint: this.cache ? await this.tableFingerprint(config) : undefined,
+    });
+  }
+
+  /**
+   * Load a table a lazy initialize left pending, the tables its foreign keys reference first.
+   * Rows failing validation throw, since there is no result to report them in, and the table stays
+   * pending so that the next use reads its file again.
+   */
+  private ensureLoaded(tableName: string, loading: Set<string> = new Set()): void {
+    if (this.reload?.tables.has(tableName)) {
+      throw new Error(`Table '${tableName}' is being reloaded from its files: wait for the reload to finish`);
+    }
+
+    const pending = this.pendingTables.get(tableName);
+    if (!pending) {
+      return;
+    }
+
+    loading.add(tableName);
+    // A referenced table still loading is in a cycle with this one, which then loads without the
+    // foreign key closing the cycle as it would in initialize()
+    const circularDependencies = new Set<string>();
+    for (const fk of pending.metadata.foreignKeys ?? []) {
+      const referencedTable = fk.references.table;
+      if (referencedTable === tableName) {
+        continue;
+      }
+      if (!this.pendingTables.has(referencedTable)) {
+        if (!this.schemas.has(referencedTable)) {
+          throw new Error(`Foreign key reference to non-existent table '${referencedTable}' in table '${tableName}'`);
         }
+      } else if (loading.has(referencedTable)) {
+        circularDependencies.add(referencedTable);
+      } else {
+        this.ensureLoaded(referencedTable, loading);
       }
+    }
 
-      const stmt = this.db.prepare(sql);
-      stmt.run(...values);
+    const errors = this.loadPendingTable(tableName, pending, circularDependencies);
+    if (errors.length > 0) {
+      const error = new Error(
+        `Table '${tableName}' could not be loaded: ${errors.length} row(s) failed validation`,
+      ) as ValidationError & { validationErrors: ValidationErrorDetail[] };
+      error.name = 'ValidationError';
+      error.validationErrors = errors;
+      error.issues = errors[0].issues;
+      throw error;
     }
   }
 
   /**
-   * Insert data into table one row at a time with detailed error reporting
-   * This is used for validation to catch constraint violations
+   * Load a table along with the pending tables whose foreign keys reference it, and the ones referencing
+   * those, before a call changes or deletes its rows: SQLite only runs the ON DELETE and ON UPDATE
+   * actions and RESTRICT checks of the rows it holds
    */
-  private insertDataWithDetailedValidation(
+  private ensureReferencingLoaded(tableName: string, visited: Set<string> = new Set()): void {
+    this.ensureLoaded(tableName);
+    if (this.pendingTables.size === 0) {
+      return;
+    }
+
+    visited.add(tableName);
+    const references = (foreignKeys: ForeignKeyDefinition[] | undefined) =>
+      foreignKeys?.some((fk) => fk.references.table === tableName) ?? false;
+    const referencing = [
+      ...Array.from(this.schemas, ([name, schema]) => (references(schema.foreignKeys) ? name : null)),
+      ...Array.from(this.pendingTables, ([name, pending]) => (references(pending.metadata.foreignKeys) ? name : null)),
+    ];
+    for (const name of referencing) {
+      if (name !== null && !visited.has(name)) {
+        this.ensureReferencingLoaded(name, visited);
+      }
+    }
+  }
+
+  /**
+   * Load the rows of a pending table synchronously, as the call first using it runs
+   * @returns The validation errors of its rows, empty when it loaded
+   */
+  private loadPendingTable(
     tableName: string,
-    schema: TableSchema,
-    data: JsonObject[],
-    filePath: string,
+    pending: PendingTable,
+    circularDependencies: Set<string>,
   ): ValidationErrorDetail[] {
-    const errors: ValidationErrorDetail[] = [];
-    const columnNames = schema.columns.map((col) => col.name);
-    const quotedColumns = columnNames.map((name) => this.quoteIdentifier(name));
-    const placeholders = columnNames.map(() => '?').join(', ');
-    const sql = `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES (${placeholders})`;
+    const { config, fingerprint } = pending;
+    // A table loaded inside a transaction is gone again when it rolls back
+    this.onRollback(() => {
+      this.schemas.delete(tableName);
+      this.keyOrders.delete(tableName);
+      this.pendingTables.set(tableName, pending);
+    });
+    const loadedHash = this.conflictPolicy() === 'overwrite' ? undefined : this.hashTableFilesSync(config);
 
-    const stmt = this.db.prepare(sql);
+    if (this.cache) {
+      const cached = fingerprint ? this.cache.get(tableName, fingerprint) : undefined;
+      const dependenciesCached = Array.from(circularDependencies).every((dependency) => {
+        const dependencyFingerprint = this.pendingTables.get(dependency)?.fingerprint;
+        return dependencyFingerprint !== undefined && this.cache!.get(dependency, dependencyFingerprint);
+      });
+      if (cached && dependenciesCached) {
+        this.pendingTables.delete(tableName);
+        this.restoreTable(tableName, pending.validationSchema, cached);
+        this.recordBaseline(tableName, loadedHash);
+        return [];
+      }
+      this.dropTable(tableName);
+    }
 
-    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
-      const row = data[rowIndex];
+    const { rows: data, parseErrors } = this.readTableRowsSync(tableName, config, pending, pending.options.tolerant);
+    if (parseErrors.length > 0) {
+      return parseErrors;
+    }
+    this.validationSchemas.set(tableName, pending.validationSchema);
+    this.keyOrders.delete(tableName);
+
+    const validatedData: JsonObject[] = [];
+    const validationErrors: ValidationErrorDetail[] = [];
+    data.forEach((row, rowIndex) => {
       try {
-        const values = columnNames.map((col) => this.normalizeValue(row[col]));
-        stmt.run(...values);
-      } catch (error) {
-        // Constraint violation occurred - analyze and record details
-        const constraintError = this.analyzeConstraintError(
-          error,
-          filePath,
+        const validatedRow = this.validateAndTransform(
           tableName,
-          rowIndex,
           row,
-          schema.foreignKeys || [],
+          'Loading a table on first use needs a synchronous schema: name it in the tables initialize() loads.',
         );
-        if (constraintError) {
-          errors.push(constraintError);
+        this.recordKeyOrder(tableName, validatedRow);
+        validatedData.push(validatedRow);
+      } catch (error) {
+        if (error instanceof Error && error.name === 'ValidationError') {
+          const { issues } = error as ValidationError;
+          validationErrors.push({ file: config.jsonlPath, tableName, rowIndex, issues, type: 'schema' });
+        } else {
+          throw error;
         }
       }
+    });
+    if (validationErrors.length > 0) {
+      return this.locateErrors(tableName, validationErrors);
     }
 
-    return errors;
+    const { loaded, errors } = this.buildTable(
+      tableName,
+      config,
+      pending,
+      validatedData,
+      pending.options.detailedValidate,
+      circularDependencies,
+    );
+    if (errors.length > 0) {
+      // Detailed validation leaves the rows before the failing one behind
+      this.schemas.delete(tableName);
+      this.dropTable(tableName);
+      return this.locateErrors(tableName, errors);
+    }
+    this.pendingTables.delete(tableName);
+    if (!loaded) {
+      // A table without rows or a schema describing its columns does not exist, as in initialize()
+      this.tables.delete(tableName);
+      return [];
+    }
+    this.recordBaseline(tableName, loadedHash);
+
+    if (fingerprint) {
+      this.cache!.set(tableName, fingerprint, {
+        schema: this.schemas.get(tableName)!,
+        keyOrder: Array.from(this.keyOrders.get(tableName) ?? []),
+        rowCount: data.length,
+      });
+    }
+    return [];
   }
 
   /**
-   * Analyze constraint error and extract detailed information
+   * Find the table in the database file when it was loaded from files with the content they hold now.
+   * A table in a foreign key cycle with tables still loading is checked against their files too, since
+   * those tables are loaded after it.
    */
-  private analyzeConstraintError(
-    error: unknown,
-    file: string,
+  private async cachedTable(
     tableName: string,
-    rowIndex: number,
-    row: JsonObject,
-    foreignKeys: ForeignKeyDefinition[],
-  ): ValidationErrorDetail | null {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    // Foreign key constraint
-    if (errorMessage.includes('FOREIGN KEY constraint failed')) {
-      // Find which foreign key failed
-      for (const fk of foreignKeys) {
-        const fkValue = row[fk.column];
-        if (fkValue === null || fkValue === undefined) continue;
+    fingerprint: TableFingerprint,
+    circularDependencies: Set<string>,
+  ): Promise<CachedTable | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
 
-        // Check if referenced value exists
-        try {
-          const result = this.query(
-            `SELECT COUNT(*) as count FROM ${this.quoteIdentifier(fk.references.table)} WHERE ${this.quoteIdentifier(fk.references.column)} = ?`,
-            [this.normalizeValue(fkValue)],
-          );
-          if (result.length > 0 && (result[0] as { count: number }).count === 0) {
-            return {
-              file,
-              tableName,
-              rowIndex,
-              issues: [],
-              type: 'foreignKey',
-              foreignKeyError: {
-                column: fk.column,
-                value: fkValue,
-                referencedTable: fk.references.table,
-                referencedColumn: fk.references.column,
-              },
-            };
-          }
-        } catch (_) {
-          // Referenced table doesn't exist yet
-        }
+    const cached = this.cache.get(tableName, fingerprint);
+    if (!cached) {
+      return undefined;
+    }
+    for (const dependency of circularDependencies) {
+      const dependencyConfig = this.tables.get(dependency);
+      const dependencyFingerprint = dependencyConfig && (await this.tableFingerprint(dependencyConfig));
+      if (!dependencyFingerprint || !this.cache.get(dependency, dependencyFingerprint)) {
+        return undefined;
       }
     }
-
-    // Other constraint errors (primary key, unique, etc.)
-    return {
-      file,
-      tableName,
-      rowIndex,
-      issues: [
-        {
-          message: errorMessage,
-          path: [],
-        },
-      ],
-      type: 'schema',
-    };
+    return cached;
   }
 
   /**
-   * Validate a deferred foreign key constraint after all tables have been loaded.
-   * Used for circular dependency FK validation.
+   * Use a table as the database file holds it, setting up what loading it would have
    */
-  private validateDeferredForeignKey(
+  private restoreTable(
     tableName: string,
-    fk: ForeignKeyDefinition,
-    filePath: string,
-  ): ValidationErrorDetail[] {
-    const errors: ValidationErrorDetail[] = [];
-    const quotedTable = this.quoteTableName(tableName);
-    const quotedColumn = this.quoteIdentifier(fk.column);
-    const quotedRefTable = this.quoteTableName(fk.references.table);
-    const quotedRefColumn = this.quoteIdentifier(fk.references.column);
+    validationSchema: StandardSchema | undefined,
+    cached: CachedTable,
+  ): { loaded: boolean; rowCount: number; errors: ValidationErrorDetail[] } {
+    this.validationSchemas.set(tableName, validationSchema);
+    this.schemas.set(tableName, cached.schema);
+    this.keyOrders.set(tableName, new Set(cached.keyOrder));
+    // Triggers are temporary, so they are not in the file
+    this.createCascadeTriggers(cached.schema);
 
-    // Find rows where the FK value does not exist in the referenced table
-    const sql = `SELECT rowid - 1 as idx, ${quotedColumn} as val FROM ${quotedTable} WHERE ${quotedColumn} IS NOT NULL AND ${quotedColumn} NOT IN (SELECT ${quotedRefColumn} FROM ${quotedRefTable})`;
+    return { loaded: true, rowCount: cached.rowCount, errors: [] };
+  }
 
-    try {
-      const rows = this.query<{ idx: number; val: string | number }>(sql);
-      for (const row of rows) {
-        errors.push({
-          file: filePath,
-          tableName,
-          rowIndex: row.idx,
-          issues: [],
-          type: 'foreignKey',
-          foreignKeyError: {
-            column: fk.column,
-            value: row.val,
-            referencedTable: fk.references.table,
-            referencedColumn: fk.references.column,
-          },
-        });
+  /**
+   * Hash the JSONL files of a table and its schema file, along with the schema its config declares.
+   * A table whose config declares a validation schema has none: code cannot be hashed, so the database
+   * file cannot tell whether its rows were validated against the schema declared now.
+   */
+  private async tableFingerprint(config: TableConfig): Promise<TableFingerprint | undefined> {
+    if (config.validationSchema) {
+      return undefined;
+    }
+
+    const { jsonlPath } = config;
+    const schemaPath = await findSchemaFile(dirname(jsonlPath), tableFileBaseName(basename(jsonlPath))!);
+    let schemaHash = schemaPath ? await this.hashFile(schemaPath) : null;
+    if (config.schema) {
+      schemaHash = createHash('sha256')
+        .update(JSON.stringify([schemaHash, config.schema]))
+        .digest('hex');
+    }
+    return { jsonlHash: await this.hashTableFiles(config), schemaHash };
+  }
+
+  /**
+   * Hash the JSONL file of a table, or its shards, records and the files of every layer it is in together
+   * @param hashes - The hashes of files known already, by path, taken instead of reading those files.
+   * The hashes of the files read are added to it.
+   */
+  private async hashTableFiles(config: TableConfig, hashes = new Map<string, string>()): Promise<string> {
+    const hashOf = async (file: string): Promise<string> => {
+      let fileHash = hashes.get(file);
+      if (fileHash === undefined) {
+        fileHash = await this.hashFile(file);
+        hashes.set(file, fileHash);
+      }
+      return fileHash;
+    };
+    if (!config.layers && !config.shards && !config.recordDir) {
+      return hashOf(config.jsonlPath);
+    }
+    const hash = createHash('sha256');
+    for (const layer of this.tableFiles(config)) {
+      for (const file of layer.recordDir ? await RecordDirectory.files(layer.recordDir) : [layer.jsonlPath]) {
+        hash.update(`${layer.dataDir}\0${file}\0${await hashOf(file)}\0`);
       }
-    } catch (_) {
-      // Table might not exist - skip validation
     }
+    return hash.digest('hex');
+  }
 
-    return errors;
+  /**
+   * Hash the files of a table synchronously as {@link hashTableFiles} does, for loading a table the moment
+   * a synchronous call first uses it
+   */
+  private hashTableFilesSync(config: TableConfig): string {
+    const hashFile = (file: string) => createHash('sha256').update(readFileSync(file)).digest('hex');
+    if (!config.layers && !config.shards && !config.recordDir) {
+      return hashFile(config.jsonlPath);
+    }
+    const hash = createHash('sha256');
+    for (const layer of this.tableFiles(config)) {
+      for (const file of layer.recordDir ? RecordDirectory.filesSync(layer.recordDir) : [layer.jsonlPath]) {
+        hash.update(`${layer.dataDir}\0${file}\0${hashFile(file)}\0`);
+      }
+    }
+    return hash.digest('hex');
   }
 
   /**
-   * Execute a raw SQL query
+   * Remember the files of a table as it was just loaded from them, so that a sync finds out when
+   * something else changed them
+   * @param hash - The hash of the files, taken before they were read, or undefined when conflicts are
+   * not looked for
    */
-  query<T = unknown>(sql: string, params: (string | number | bigint | null | Uint8Array)[] = []): T[] {
-    const stmt = this.db.prepare(sql);
-    return stmt.all(...params) as T[];
+  private recordBaseline(tableName: string, hash: string | undefined, rows?: JsonObject[]): void {
+    if (hash === undefined) {
+      return;
+    }
+    this.baselines.set(tableName, {
+      hash,
+      ...(this.conflictPolicy() === 'merge' ? { rows: rows ?? this.selectTableRows(tableName) } : {}),
+    });
+  }
+
+  private conflictPolicy(): SyncConflictPolicy {
+    return this.config.onSyncConflict ?? 'fail';
   }
 
   /**
-   * Execute a SQL query that returns a single row
+   * Drop a table from the database file along with its manifest entry, and the entries of the tables
+   * referencing it so that they are loaded again too
    */
-  queryOne<T = unknown>(sql: string, params: (string | number | bigint | null | Uint8Array)[] = []): T | null {
-    const stmt = this.db.prepare(sql);
-    const result = stmt.get(...params);
-    return result === undefined ? null : (result as T);
+  private dropTable(tableName: string): void {
+    // Dropping a table other tables reference would otherwise have SQLite check their rows
+    this.db.exec('PRAGMA foreign_keys = OFF');
+    try {
+      this.db.exec(`DROP TABLE IF EXISTS ${this.quoteTableName(tableName)}`);
+    } finally {
+      this.db.exec('PRAGMA foreign_keys = ON');
+    }
+    this.cache?.forget(tableName);
   }
 
   /**
-   * Execute a SQL statement (INSERT, UPDATE, DELETE)
+   * Create table in SQLite with constraints and indexes
+   */
+  private createTable(schema: TableSchema): void {
+    // Note: Foreign key constraints are enabled at database connection level (see sqlite-adapter.ts)
+    // No need to enable them here for each table
+
+    // Quote table name to handle special characters
+    const quotedTableName = this.quoteTableName(schema.name);
+
+    // Build a set of columns that should have UNIQUE constraint
+    // This includes columns marked as unique in schema AND single-column unique indexes
+    // The latter is required for foreign key references, as SQLite requires the referenced column
+    // to have a UNIQUE constraint in the table definition (not just a separately created index)
+    const uniqueColumns = new Set<string>();
+    for (const col of schema.columns) {
+      if (col.unique) {
+        uniqueColumns.add(col.name);
+      }
+    }
+    if (schema.indexes) {
+      for (const index of schema.indexes) {
+        if (index.unique && index.columns.length === 1) {
+          uniqueColumns.add(index.columns[0]);
+        }
+      }
+    }
+
+    // A composite primary key can only be declared as a table constraint
+    const pkNames = this.schemaPrimaryKey(schema);
+    const compositePk = pkNames.length > 1;
+
+    const columnDefs = schema.columns.map((col) => {
+      // JSON type is stored as TEXT in SQLite
+      const sqlType = col.type === 'JSON' ? 'TEXT' : col.type;
+      const parts = [this.quoteIdentifier(col.name), sqlType];
+      if (col.primaryKey && !compositePk) parts.push('PRIMARY KEY');
+      if (col.notNull) parts.push('NOT NULL');
+      if (uniqueColumns.has(col.name) && (!col.primaryKey || compositePk)) parts.push('UNIQUE');
+      if (col.default !== undefined) parts.push(`DEFAULT ${this.sqlLiteral(schema.name, col.name, col.default)}`);
+      return parts.join(' ');
+    });
+    if (this.hasOptionalColumns(schema)) {
+      columnDefs.push(`${this.quoteIdentifier(NULL_FIELDS_COLUMN)} TEXT`);
+    }
+    if (compositePk) {
+      columnDefs.push(`PRIMARY KEY (${pkNames.map((name) => this.quoteIdentifier(name)).join(', ')})`);
+    }
+
+    // Add foreign key constraints
+    const foreignKeyDefs: string[] = [];
+    if (schema.foreignKeys && schema.foreignKeys.length > 0) {
+      for (const fk of schema.foreignKeys) {
+        const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+        const fkParts = [
+          `FOREIGN KEY (${columns.map((col) => this.quoteIdentifier(col)).join(', ')})`,
+          `REFERENCES ${this.quoteTableName(fk.references.table)}(${referencedColumns.map((col) => this.quoteIdentifier(col)).join(', ')})`,
+        ];
+        if (fk.onDelete) {
+          fkParts.push(`ON DELETE ${fk.onDelete}`);
+        }
+        if (fk.onUpdate) {
+          fkParts.push(`ON UPDATE ${fk.onUpdate}`);
+        }
+        foreignKeyDefs.push(fkParts.join(' '));
+      }
+    }
+
+    const checkDefs = (schema.checks ?? []).map(
+      (check) => `CONSTRAINT ${this.quoteIdentifier(check.name)} CHECK (${check.expression})`,
+    );
+
+    const allDefs = [...columnDefs, ...foreignKeyDefs, ...checkDefs];
+    const sql = `CREATE TABLE IF NOT EXISTS ${quotedTableName} (${allDefs.join(', ')})`;
+    this.db.exec(sql);
+
+    // Create indexes
+    if (schema.indexes && schema.indexes.length > 0) {
+      for (let i = 0; i < schema.indexes.length; i++) {
+        const index = schema.indexes[i];
+        // Create safe index name by replacing special characters
+        const safeTableName = schema.name.replace(/[^a-zA-Z0-9]/g, '_');
+        const resolvedIndexName = index.name || `idx_${safeTableName}_${index.columns.join('_')}_${i}`;
+        const uniqueKeyword = index.unique ? 'UNIQUE ' : '';
+        const indexSql = `CREATE ${uniqueKeyword}INDEX IF NOT EXISTS ${this.quoteIdentifier(resolvedIndexName)} ON ${quotedTableName} (${index.columns
+          .map((col) => this.quoteIdentifier(col))
+          .join(', ')})`;
+        this.db.exec(indexSql);
+      }
+    }
+
+    this.createCascadeTriggers(schema);
+  }
+
+  /**
+   * Have SQLite record changes to a table whose foreign keys cascade a delete or update of the rows
+   * they reference, which changes it without a call naming it. The call that made the change then
+   * writes this table back too.
+   */
+  private createCascadeTriggers(schema: TableSchema): void {
+    const cascades = (schema.foreignKeys ?? []).some(
+      (fk) =>
+        (fk.onDelete && fk.onDelete !== 'NO ACTION' && fk.onDelete !== 'RESTRICT') ||
+        (fk.onUpdate && fk.onUpdate !== 'NO ACTION' && fk.onUpdate !== 'RESTRICT'),
+    );
+    if (!cascades) {
+      return;
+    }
+
+    this.db.exec(`CREATE TEMP TABLE IF NOT EXISTS ${CASCADE_LOG_TABLE} (name TEXT NOT NULL)`);
+    this.hasCascadeTriggers = true;
+
+    const quotedTableName = this.quoteTableName(schema.name);
+    const tableNameLiteral = `'${schema.name.replace(/'/g, "''")}'`;
+    for (const operation of ['DELETE', 'UPDATE']) {
+      const triggerName = this.quoteIdentifier(`lines_db_cascade_${schema.name}_${operation.toLowerCase()}`);
+      this.db.exec(
+        `CREATE TEMP TRIGGER IF NOT EXISTS ${triggerName} AFTER ${operation} ON ${quotedTableName} ` +
+          `BEGIN INSERT INTO ${CASCADE_LOG_TABLE} (name) VALUES (${tableNameLiteral}); END`,
+      );
+    }
+  }
+
+  /**
+   * Quote table name to handle special characters in SQL
+   */
+  private quoteTableName(tableName: string): string {
+    return this.quoteIdentifier(tableName);
+  }
+
+  /**
+   * Quote identifier for SQL statements, escaping embedded quotes
+   */
+  private quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  /**
+   * Write a column default as an SQL literal, storing booleans as 1/0 the way rows store them
+   */
+  private sqlLiteral(tableName: string, columnName: string, value: ColumnDefault): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error(
+          `Invalid default for column '${columnName}' in table '${tableName}': ${value} is not a finite number`,
+        );
+      }
+      return String(value);
+    }
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  /**
+   * Insert data into table using batch insert (multiple rows per SQL)
+   * SQLite has a parameter limit (default 999), so we batch rows accordingly
+   * Throws exception if any constraint violation occurs
+   */
+  private insertData(tableName: string, schema: TableSchema, rows: JsonObject[]): void {
+    const data = rows.map((row) => this.withNullFields(schema, row));
+    // A batch shares one column list, so it runs over consecutive rows that have the same fields
+    let start = 0;
+    while (start < data.length) {
+      const columnNames = this.insertedColumns(schema, data[start]);
+      const columnKey = columnNames.join('\0');
+      let end = start + 1;
+      while (end < data.length && this.insertedColumns(schema, data[end]).join('\0') === columnKey) {
+        end++;
+      }
+      this.insertBatches(tableName, columnNames, data.slice(start, end));
+      start = end;
+    }
+  }
+
+  /**
+   * Insert rows that have the same fields, as many per statement as SQLite's parameter limit allows
+   */
+  private insertBatches(tableName: string, columnNames: string[], data: JsonObject[]): void {
+    if (columnNames.length === 0) {
+      const stmt = this.db.prepare(`INSERT INTO ${this.quoteTableName(tableName)} DEFAULT VALUES`);
+      for (let i = 0; i < data.length; i++) {
+        stmt.run();
+      }
+      return;
+    }
+
+    const quotedColumns = columnNames.map((name) => this.quoteIdentifier(name));
+    const columnCount = columnNames.length;
+
+    // Calculate batch size to stay under SQLite's parameter limit (999)
+    // Leave some margin for safety
+    const maxBatchSize = Math.floor(900 / columnCount);
+    const batchSize = Math.max(1, Math.min(maxBatchSize, 100));
+
+    // Process data in batches
+    for (let i = 0; i < data.length; i += batchSize) {
+      const batch = data.slice(i, i + batchSize);
+      const rowPlaceholders = columnNames.map(() => '?').join(', ');
+      const valuesPlaceholders = batch.map(() => `(${rowPlaceholders})`).join(', ');
+      const sql = `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES ${valuesPlaceholders}`;
+
+      const values: (string | number | bigint | null | Uint8Array)[] = [];
+      for (const row of batch) {
+        for (const col of columnNames) {
+          values.push(this.normalizeValue(row[col]));
+        }
+      }
+
+      const stmt = this.db.prepare(sql);
+      stmt.run(...values);
+    }
+  }
+
+  /**
+   * The columns of a table a row has a field for. The columns it leaves out are not inserted, so
+   * they take their default.
+   */
+  private insertedColumns(schema: TableSchema, row: JsonObject): string[] {
+    return [...schema.columns.map((col) => col.name), NULL_FIELDS_COLUMN].filter((name) => row[name] !== undefined);
+  }
+
+  private hasOptionalColumns(schema: TableSchema): boolean {
+    return schema.columns.some((col) => col.optional);
+  }
+
+  /**
+   * The optional fields a record sets to null, as the JSON array {@link NULL_FIELDS_COLUMN} holds -
+   * or undefined when it sets none
+   */
+  private nullFields(schema: TableSchema, record: Record<string, unknown>): string | undefined {
+    const fields = schema.columns.filter((col) => col.optional && record[col.name] === null).map((col) => col.name);
+    return fields.length > 0 ? JSON.stringify(fields) : undefined;
+  }
+
+  /**
+   * A row to insert, with the optional fields it sets to null listed in {@link NULL_FIELDS_COLUMN}
+   */
+  private withNullFields<T extends Record<string, unknown>>(schema: TableSchema | undefined, row: T): T {
+    const nullFields = schema && this.nullFields(schema, row);
+    return nullFields === undefined ? row : { ...row, [NULL_FIELDS_COLUMN]: nullFields };
+  }
+
+  /**
+   * The SET clause adding the optional fields an update sets to null to the ones the row already
+   * sets to null, or undefined when it sets none
+   */
+  private nullFieldsAssignment(
+    schema: TableSchema | undefined,
+    record: Record<string, unknown>,
+  ): { clause: string; value: string } | undefined {
+    const nullFields = schema && this.nullFields(schema, record);
+    if (nullFields === undefined) {
+      return undefined;
+    }
+    const column = this.quoteIdentifier(NULL_FIELDS_COLUMN);
+    return {
+      clause:
+        `${column} = (SELECT json_group_array(value) FROM ` +
+        `(SELECT value FROM json_each(coalesce(${column}, '[]')) UNION SELECT value FROM json_each(?)))`,
+      value: nullFields,
+    };
+  }
+
+  /**
+   * Insert data into table one row at a time with detailed error reporting
+   * This is used for validation to catch constraint violations
+   */
+  private insertDataWithDetailedValidation(
+    tableName: string,
+    schema: TableSchema,
+    data: JsonObject[],
+    filePath: string,
+  ): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = [];
+    // One statement per set of fields rows have, since the columns a row leaves out take their default
+    const statements = new Map<string, SQLiteStatement>();
+    const statementFor = (columnNames: string[]) => {
+      const columnKey = columnNames.join('\0');
+      let stmt = statements.get(columnKey);
+      if (!stmt) {
+        const quotedColumns = columnNames.map((name) => this.quoteIdentifier(name));
+        const placeholders = columnNames.map(() => '?').join(', ');
+        stmt = this.db.prepare(
+          columnNames.length === 0
+            ? `INSERT INTO ${this.quoteTableName(tableName)} DEFAULT VALUES`
+            : `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES (${placeholders})`,
+        );
+        statements.set(columnKey, stmt);
+      }
+      return stmt;
+    };
+
+    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
+      const row = data[rowIndex];
+      try {
+        const inserted = this.withNullFields(schema, row);
+        const columnNames = this.insertedColumns(schema, inserted);
+        const values = columnNames.map((col) => this.normalizeValue(inserted[col]));
+        statementFor(columnNames).run(...values);
+      } catch (error) {
+        // Constraint violation occurred - analyze and record details
+        const constraintError = this.analyzeConstraintError(
+          error,
+          filePath,
+          tableName,
+          rowIndex,
+          row,
+          schema.foreignKeys || [],
+          schema.checks,
+        );
+        if (constraintError) {
+          errors.push(constraintError);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Analyze constraint error and extract detailed information
+   */
+  private analyzeConstraintError(
+    error: unknown,
+    file: string,
+    tableName: string,
+    rowIndex: number,
+    row: JsonObject,
+    foreignKeys: ForeignKeyDefinition[],
+    checks: CheckDefinition[] = [],
+  ): ValidationErrorDetail | null {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    // Foreign key constraint
+    if (errorMessage.includes('FOREIGN KEY constraint failed')) {
+      // Find which foreign key failed
+      for (const fk of foreignKeys) {
+        const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+        const fkValues = columns.map((col) => row[col]);
+        // A foreign key with any NULL column references nothing, as SQLite treats it
+        if (fkValues.some((value) => value === null || value === undefined)) continue;
+
+        // Check if referenced value exists
+        try {
+          const result = this.query(
+            `SELECT COUNT(*) as count FROM ${this.quoteIdentifier(fk.references.table)} WHERE ${referencedColumns.map((col) => `${this.quoteIdentifier(col)} = ?`).join(' AND ')}`,
+            fkValues.map((value) => this.normalizeValue(value)),
+          );
+          if (result.length > 0 && (result[0] as { count: number }).count === 0) {
+            return {
+              file,
+              tableName,
+              rowIndex,
+              issues: [],
+              type: 'foreignKey',
+              foreignKeyError: this.foreignKeyError(fk, fkValues),
+            };
+          }
+        } catch (_) {
+          // Referenced table doesn't exist yet
+        }
+      }
+    }
+
+    // CHECK constraint, which SQLite reports by name
+    const checkMatch = /CHECK constraint failed: (.+)$/.exec(errorMessage);
+    const check = checkMatch && checks.find((definition) => definition.name === checkMatch[1]);
+    if (check) {
+      return {
+        file,
+        tableName,
+        rowIndex,
+        issues: [{ message: `Check constraint '${check.name}' failed: ${check.expression}`, path: [] }],
+        type: 'check',
+        checkError: check,
+      };
+    }
+
+    // Other constraint errors (primary key, unique, etc.)
+    return {
+      file,
+      tableName,
+      rowIndex,
+      issues: [
+        {
+          message: errorMessage,
+          path: [],
+        },
+      ],
+      type: 'schema',
+    };
+  }
+
+  /**
+   * Validate a deferred foreign key constraint after all tables have been loaded.
+   * Used for circular dependency FK validation.
+   */
+  private validateDeferredForeignKey(
+    tableName: string,
+    fk: ForeignKeyDefinition,
+    filePath: string,
+  ): ValidationErrorDetail[] {
+    const errors: ValidationErrorDetail[] = [];
+    const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+    const quotedTable = this.quoteTableName(tableName);
+    const quotedRefTable = this.quoteTableName(fk.references.table);
+    const notNull = columns.map((col) => `${quotedTable}.${this.quoteIdentifier(col)} IS NOT NULL`).join(' AND ');
+    const matches = columns
+      .map(
+        (col, i) =>
+          `${quotedRefTable}.${this.quoteIdentifier(referencedColumns[i])} = ${quotedTable}.${this.quoteIdentifier(col)}`,
+      )
+      .join(' AND ');
+    const values = columns.map((col, i) => `${quotedTable}.${this.quoteIdentifier(col)} as val${i}`).join(', ');
+
+    // Find rows where the FK value does not exist in the referenced table
+    const sql = `SELECT ${quotedTable}.rowid - 1 as idx, ${values} FROM ${quotedTable} WHERE ${notNull} AND NOT EXISTS (SELECT 1 FROM ${quotedRefTable} WHERE ${matches})`;
+
+    try {
+      const rows = this.query<Record<string, string | number>>(sql);
+      for (const row of rows) {
+        errors.push({
+          file: filePath,
+          tableName,
+          rowIndex: row.idx as number,
+          issues: [],
+          type: 'foreignKey',
+          foreignKeyError: this.foreignKeyError(
+            fk,
+            columns.map((_, i) => row[`val${i}`]),
+          ),
+        });
+      }
+    } catch (_) {
+      // Table might not exist - skip validation
+    }
+
+    return errors;
+  }
+
+  /**
+   * The columns of a foreign key and the columns they reference, as lists for a single-column key too
+   */
+  private foreignKeyColumns(fk: ForeignKeyDefinition): { columns: string[]; referencedColumns: string[] } {
+    return fk.columns
+      ? { columns: fk.columns, referencedColumns: fk.references.columns }
+      : { columns: [fk.column], referencedColumns: [fk.references.column] };
+  }
+
+  /**
+   * Describe a row's foreign key values no referenced row has, as `ValidationErrorDetail.foreignKeyError`
+   */
+  private foreignKeyError(fk: ForeignKeyDefinition, values: unknown[]): ValidationErrorDetail['foreignKeyError'] {
+    const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+    return {
+      column: columns.join(', '),
+      value: columns.length === 1 ? values[0] : values,
+      referencedTable: fk.references.table,
+      referencedColumn: referencedColumns.join(', '),
+      columns,
+      referencedColumns,
+    };
+  }
+
+  /**
+   * Execute a raw SQL query
+   */
+  query<T = unknown>(sql: string, params: (string | number | bigint | null | Uint8Array)[] = []): T[] {
+    const stmt = this.prepare(sql);
+    return stmt.all(...params) as T[];
+  }
+
+  /**
+   * Execute a SQL query that returns a single row
+   */
+  queryOne<T = unknown>(sql: string, params: (string | number | bigint | null | Uint8Array)[] = []): T | null {
+    const stmt = this.prepare(sql);
+    const result = stmt.get(...params);
+    return result === undefined ? null : (result as T);
+  }
+
+  /**
+   * Execute a SQL statement (INSERT, UPDATE, DELETE)
    */
   execute(
     sql: string,
     params: (string | number | bigint | null | Uint8Array)[] = [],
   ): { changes: number | bigint; lastInsertRowid: number | bigint } {
-    const stmt = this.db.prepare(sql);
-    return stmt.run(...params);
+    const stmt = this.prepare(sql);
+    return stmt.run(...params);
+  }
+
+  /**
+   * Prepare a raw SQL statement. SQL cannot be asked which tables it uses, so a table a lazy
+   * initialize has not loaded yet is loaded when SQLite reports it missing, and the statement
+   * prepared again.
+   */
+  private prepare(sql: string): SQLiteStatement {
+    for (;;) {
+      try {
+        return this.db.prepare(sql);
+      } catch (error) {
+        const missing = error instanceof Error ? /no such table: (?:main\.)?(.+)$/.exec(error.message) : null;
+        if (!missing || !this.pendingTables.has(missing[1])) {
+          throw error;
+        }
+        this.ensureLoaded(missing[1]);
+      }
+    }
+  }
+
+  /**
+   * Find rows by condition (supports OR/AND with arrays, comparison operators and function filters)
+   * If where is not provided, returns all rows
+   * @param options Optional ordering, paging, column projection and relations to include. Ordering,
+   * paging and projection run as SQL unless the condition holds function filters, which need whole
+   * rows to be evaluated in JavaScript first
+   */
+  find<
+    K extends keyof Tables & string,
+    S extends keyof Tables[K] & string = keyof Tables[K] & string,
+    I extends Include = {},
+  >(
+    tableName: K,
+    where?: WhereCondition<Tables[K]>,
+    options?: FindOptions<Tables[K], S> & { include?: I },
+  ): WithRelations<FindResult<Tables[K], S>, Tables, I, RelationsOf<Relations, K>>[] {
+    this.ensureLoaded(tableName);
+    // Selecting no column would leave nothing to return, and no valid SQL to run
+    if (options?.select?.length === 0) {
+      throw new Error('Invalid select: expected at least one column, got an empty list');
+    }
+    const include = options?.include;
+    const relationNames = include ? Object.keys(include).filter((name) => include[name]) : [];
+    if (relationNames.length === 0) {
+      return this.findRows(tableName, where, options) as WithRelations<
+        FindResult<Tables[K], S>,
+        Tables,
+        I,
+        RelationsOf<Relations, K>
+      >[];
+    }
+
+    const relations = relationNames.map((name) => this.resolveRelation(tableName, name));
+
+    // The keys relations are matched on have to be fetched even when `select` leaves them out
+    const select = options?.select;
+    const keyColumns = relations.flatMap((relation) => relation.localColumns);
+    const fetchSelect = select ? Array.from(new Set([...select, ...keyColumns])) : undefined;
+    const rows = this.findRows(tableName, where, { ...options, select: fetchSelect });
+
+    for (const relation of relations) {
+      this.attachRelation(rows, relation);
+    }
+
+    if (select) {
+      const dropped = keyColumns.filter((column) => !(select as readonly string[]).includes(column));
+      for (const row of rows) {
+        for (const column of dropped) {
+          delete row[column];
+        }
+      }
+    }
+
+    return rows as WithRelations<FindResult<Tables[K], S>, Tables, I, RelationsOf<Relations, K>>[];
+  }
+
+  /**
+   * Find a single row by condition (supports OR/AND with arrays, comparison operators and function filters)
+   * @param options Optional ordering, offset, column projection and relations, as for {@link LinesDB.find}
+   */
+  findOne<
+    K extends keyof Tables & string,
+    S extends keyof Tables[K] & string = keyof Tables[K] & string,
+    I extends Include = {},
+  >(
+    tableName: K,
+    where: WhereCondition<Tables[K]>,
+    options?: Omit<FindOptions<Tables[K], S>, 'limit'> & { include?: I },
+  ): WithRelations<FindResult<Tables[K], S>, Tables, I, RelationsOf<Relations, K>> | null {
+    const rows = this.find(tableName, where, { ...options, limit: 1 });
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Find rows without loading relations
+   */
+  private findRows(tableName: string, where: WhereCondition<Table> | undefined, options?: FindOptions<Table, string>) {
+    // If no where condition, return all rows
+    if (where === undefined) {
+      return this.selectRows(tableName, '', [], options);
+    }
+
+    // Handle empty array - should return no results
+    if (Array.isArray(where) && where.length === 0) {
+      return [];
+    }
+
+    const { sql, values, functionFilters, hasOrWithFunctionFilters } = this.buildWhereClause(where);
+
+    // Function filters see whole rows, so only the ordering can run in SQL: paging and projection
+    // apply to the rows the filters keep
+    const sqlOptions = { orderBy: options?.orderBy };
+
+    // If OR condition has function filters, get all rows and evaluate in JS
+    if (hasOrWithFunctionFilters) {
+      const rows = this.selectRows(tableName, '', [], sqlOptions);
+      return this.applyFindOptions(this.applyOrConditionWithFilters(rows, where), options);
+    }
+
+    // Apply function filters for AND conditions
+    if (functionFilters.length > 0) {
+      const rows = this.selectRows(tableName, sql, values, sqlOptions);
+      return this.applyFindOptions(this.applyFunctionFilters(rows, functionFilters), options);
+    }
+
+    // Normal case: use SQL WHERE clause
+    return this.selectRows(tableName, sql, values, options);
+  }
+
+  /**
+   * Resolve a relation name to the foreign key it follows: one of the table's own foreign keys
+   * (belongs-to, a single row or null), or one a loaded table declares against it (has-many, a list)
+   */
+  private resolveRelation(tableName: string, relationName: string): Relation {
+    const schema = this.schemas.get(tableName);
+    if (!schema) {
+      throw new Error(`Table ${tableName} does not exist`);
+    }
+
+    // A table that references this one under the relation's name may not be loaded yet
+    for (const [otherTable, pending] of this.pendingTables) {
+      if (
+        pending.metadata.foreignKeys?.some(
+          (fk) => fk.references.table === tableName && inverseRelationNameOf(fk, otherTable) === relationName,
+        )
+      ) {
+        this.ensureLoaded(otherTable);
+      }
+    }
+
+    const candidates: Relation[] = [];
+    for (const fk of schema.foreignKeys ?? []) {
+      if (relationNameOf(fk) === relationName) {
+        const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+        candidates.push({
+          name: relationName,
+          kind: 'belongsTo',
+          table: fk.references.table,
+          localColumns: columns,
+          foreignColumns: referencedColumns,
+        });
+      }
+    }
+    for (const [otherTable, otherSchema] of this.schemas) {
+      for (const fk of otherSchema.foreignKeys ?? []) {
+        if (fk.references.table === tableName && inverseRelationNameOf(fk, otherTable) === relationName) {
+          const { columns, referencedColumns } = this.foreignKeyColumns(fk);
+          candidates.push({
+            name: relationName,
+            kind: 'hasMany',
+            table: otherTable,
+            localColumns: referencedColumns,
+            foreignColumns: columns,
+          });
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      throw new Error(`Relation '${relationName}' not found for table '${tableName}'`);
+    }
+    if (candidates.length > 1) {
+      throw new Error(
+        `Relation '${relationName}' is ambiguous for table '${tableName}': ` +
+          `name the foreign keys apart with 'as' or 'inverseAs'`,
+      );
+    }
+    if (schema.columns.some((col) => col.name === relationName)) {
+      throw new Error(
+        `Relation '${relationName}' has the name of a column of table '${tableName}': ` +
+          `rename it with 'as' or 'inverseAs' on the foreign key`,
+      );
+    }
+    return candidates[0];
+  }
+
+  /**
+   * Load a relation's rows in a single query per batch of keys and set them on each row
+   */
+  private attachRelation(rows: Table[], relation: Relation): void {
+    // Keys are compared the way SQLite stores them, so `true` and `1` find each other.
+    // A key with any NULL column matches nothing, as a foreign key with one does not.
+    const keyOf = (row: Table, columns: string[]) => {
+      const key = this.recordKey(columns, row);
+      const values = columns.length === 1 ? [key] : (key as unknown[] | undefined);
+      return values === undefined || values.some((value) => value === null || value === undefined)
+        ? undefined
+        : { id: this.keyId(key), key };
+    };
+    const keys = new Map<string, unknown>();
+    for (const row of rows) {
+      const local = keyOf(row, relation.localColumns);
+      if (local) {
+        keys.set(local.id, local.key);
+      }
+    }
+
+    const related = new Map<string, Table[]>();
+    const keyValues = Array.from(keys.values());
+    // Stay under SQLite's parameter limit (999), as insertData does
+    const batchSize = Math.floor(900 / relation.foreignColumns.length);
+    for (let i = 0; i < keyValues.length; i += batchSize) {
+      const { sql, values } = this.keyCondition(relation.foreignColumns, keyValues.slice(i, i + batchSize));
+      const relatedRows = this.selectRows(relation.table, sql, values);
+      for (const relatedRow of relatedRows) {
+        const id = keyOf(relatedRow, relation.foreignColumns)!.id;
+        related.set(id, [...(related.get(id) ?? []), relatedRow]);
+      }
+    }
+
+    for (const row of rows) {
+      const local = keyOf(row, relation.localColumns);
+      const matches = local ? (related.get(local.id) ?? []) : [];
+      row[relation.name] = relation.kind === 'belongsTo' ? (matches[0] ?? null) : matches;
+    }
+  }
+
+  /**
+   * Run a SELECT with the given WHERE clause and find options, and deserialize the rows it returns
+   */
+  private selectRows(
+    tableName: string,
+    whereSql: string,
+    whereValues: Array<string | number | bigint | null | Uint8Array>,
+    options?: FindOptions<Table, string>,
+  ): Table[] {
+    const schema = this.schemas.get(tableName);
+    // The hidden column tells the optional fields a row sets to null from the ones it leaves out
+    const selected = options?.select && [
+      ...options.select,
+      ...(schema && this.hasOptionalColumns(schema) ? [NULL_FIELDS_COLUMN] : []),
+    ];
+    const columns = selected ? selected.map((column) => this.quoteIdentifier(column)).join(', ') : '*';
+    const clauses = [`SELECT ${columns} FROM ${this.quoteTableName(tableName)}`];
+    const values = [...whereValues];
+
+    if (whereSql) {
+      clauses.push(`WHERE ${whereSql}`);
+    }
+
+    const orderBy = this.buildOrderByClause(options?.orderBy);
+    if (orderBy) {
+      clauses.push(`ORDER BY ${orderBy}`);
+    }
+
+    const limit = this.checkRowCount('limit', options?.limit);
+    const offset = this.checkRowCount('offset', options?.offset);
+    if (limit !== undefined || offset !== undefined) {
+      // SQLite only accepts OFFSET after a LIMIT, where a negative limit means no limit
+      clauses.push('LIMIT ?');
+      values.push(limit ?? -1);
+      if (offset !== undefined) {
+        clauses.push('OFFSET ?');
+        values.push(offset);
+      }
+    }
+
+    const rows = this.query<Table>(clauses.join(' '), values);
+    return rows.map((row) => this.deserializeRow(tableName, row));
+  }
+
+  /**
+   * Build the ORDER BY clause from find options, or an empty string when there is nothing to sort by
+   */
+  private buildOrderByClause(orderBy: OrderBy<Table> | undefined): string {
+    if (!orderBy) return '';
+
+    const terms: string[] = [];
+    for (const entry of Array.isArray(orderBy) ? orderBy : [orderBy]) {
+      for (const [column, direction] of Object.entries(entry)) {
+        if (direction === undefined) continue;
+        // The direction is written into the SQL, so only the two known keywords get there
+        if (direction !== 'asc' && direction !== 'desc') {
+          throw new Error(`Invalid order direction for column '${column}': ${String(direction)}`);
+        }
+        terms.push(`${this.quoteIdentifier(column)} ${direction.toUpperCase()}`);
+      }
+    }
+    return terms.join(', ');
+  }
+
+  /**
+   * Check that a limit or offset is a non-negative integer
+   */
+  private checkRowCount(name: 'limit' | 'offset', value: number | undefined): number | undefined {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`Invalid ${name}: expected a non-negative integer, got ${String(value)}`);
+    }
+    return value;
+  }
+
+  /**
+   * Apply paging and projection in JavaScript, for rows a function filter already narrowed down
+   */
+  private applyFindOptions<T extends Table, S extends keyof T & string>(
+    rows: T[],
+    options: FindOptions<T, S> | undefined,
+  ): FindResult<T, S>[] {
+    const offset = this.checkRowCount('offset', options?.offset) ?? 0;
+    const limit = this.checkRowCount('limit', options?.limit);
+    const paged = rows.slice(offset, limit === undefined ? undefined : offset + limit);
+
+    const select = options?.select;
+    if (!select) {
+      return paged as FindResult<T, S>[];
+    }
+    return paged.map((row) => Object.fromEntries(select.map((column) => [column, row[column]]))) as FindResult<T, S>[];
+  }
+
+  /**
+   * Deserialize JSON columns in a row, leaving out the optional fields it holds as NULL without
+   * having set them to null
+   */
+  private deserializeRow<T>(tableName: string, row: T): T {
+    const schema = this.schemas.get(tableName);
+    if (!schema) return row;
+
+    const { [NULL_FIELDS_COLUMN]: nullFields, ...deserializedRow } = row as Record<string, unknown>;
+    const setToNull = new Set<string>(typeof nullFields === 'string' ? JSON.parse(nullFields) : []);
+
+    for (const column of schema.columns) {
+      const colName = column.name;
+      if (!(colName in deserializedRow)) continue;
+
+      const value = deserializedRow[colName];
+
+      if (column.optional && value === null && !setToNull.has(colName)) {
+        delete deserializedRow[colName];
+        continue;
+      }
+
+      if (column.type === 'JSON' && typeof value === 'string') {
+        try {
+          deserializedRow[colName] = JSON.parse(value);
+        } catch (error) {
+          // If parsing fails, keep the original value
+          console.warn(`Failed to parse JSON column ${colName}:`, error);
+        }
+        continue;
+      }
+
+      if (column.valueType === 'boolean') {
+        if (typeof value === 'number') {
+          deserializedRow[colName] = value === 0 ? false : true;
+        } else if (typeof value === 'bigint') {
+          deserializedRow[colName] = value === 0n ? false : true;
+        }
+      }
+    }
+
+    return deserializedRow as T;
+  }
+
+  /**
+   * Validate data using StandardSchema and return the transformed value
+   * Note: Throws when the table's schema validates asynchronously - use {@link validateAndTransformAsync}
+   * @param asyncAdvice - What the error for an asynchronous schema advises doing instead
+   */
+  private validateAndTransform(
+    tableName: string,
+    data: unknown,
+    asyncAdvice = 'Use insertAsync, updateAsync or batchInsertAsync to modify it.',
+  ): JsonObject {
+    const schema = this.validationSchemas.get(tableName);
+    if (!schema) {
+      return data as JsonObject;
+    }
+
+    const result = schema['~standard'].validate(data);
+
+    if (result instanceof Promise) {
+      // Nobody awaits this validation, so its outcome must not surface as an unhandled rejection
+      result.catch(() => {});
+      throw new Error(`Table '${tableName}' has an asynchronous validation schema. ${asyncAdvice}`);
+    }
+
+    return this.applyValidationResult(tableName, data, result);
+  }
+
+  /**
+   * Validate data using StandardSchema, awaiting an asynchronous schema, and return the transformed value
+   */
+  private async validateAndTransformAsync(tableName: string, data: unknown): Promise<JsonObject> {
+    const schema = this.validationSchemas.get(tableName);
+    if (!schema) {
+      return data as JsonObject;
+    }
+
+    const result = schema['~standard'].validate(data);
+    return this.applyValidationResult(tableName, data, result instanceof Promise ? await result : result);
+  }
+
+  /**
+   * Throw a ValidationError for a failed validation result, or return the value it produced
+   */
+  private applyValidationResult(tableName: string, data: unknown, result: StandardSchemaResult<Table>): JsonObject {
+    if (result.issues && result.issues.length > 0) {
+      // Format detailed error message with all validation issues
+      const issueMessages = result.issues
+        .map((issue) => {
+          // Handle path: can be array of PathSegment or undefined
+          let pathStr = 'root';
+          if (issue.path && issue.path.length > 0) {
+            pathStr = issue.path
+              .map((segment) => {
+                // PathSegment can be { key: PropertyKey } or just PropertyKey
+                if (typeof segment === 'object' && segment !== null && 'key' in segment) {
+                  return String(segment.key);
+                }
+                return String(segment);
+              })
+              .join('.');
+          }
+          return `  - ${pathStr}: ${issue.message}`;
+        })
+        .join('\n');
+
+      const errorMessage = `Validation failed for table '${tableName}':\n${issueMessages}`;
+      const error = new Error(errorMessage) as ValidationError;
+      error.name = 'ValidationError';
+      error.issues = result.issues;
+      throw error;
+    }
+
+    // Return the transformed value from validation
+    // When there are no issues, result.value should be present
+    const transformedValue = ('value' in result ? result.value : data) as JsonObject;
+
+    // Convert undefined values to null for JSON compatibility
+    const normalizedValue: JsonObject = {};
+    for (const [key, value] of Object.entries(transformedValue)) {
+      normalizedValue[key] = value === undefined ? null : value;
+    }
+
+    return normalizedValue;
+  }
+
+  /**
+   * Validate data using StandardSchema (without returning transformed value)
+   * Note: Throws when the table's schema validates asynchronously - use {@link validateDataAsync}
+   */
+  private validateData(tableName: string, data: unknown): void {
+    // Use validateAndTransform but discard the result
+    this.validateAndTransform(tableName, data);
+  }
+
+  /**
+   * Validate data using StandardSchema, awaiting an asynchronous schema (without returning transformed value)
+   */
+  private async validateDataAsync(tableName: string, data: unknown): Promise<void> {
+    await this.validateAndTransformAsync(tableName, data);
+  }
+
+  /**
+   * Remember the order a computed row lists its fields in - the order the schema declares them, since
+   * that is the order a hook or a validation fills a row in. A sync inserts a key the line did not
+   * have at the place this order gives it.
+   */
+  private recordKeyOrder(tableName: string, row: JsonObject): void {
+    const order = this.keyOrders.get(tableName) ?? new Set<string>();
+    for (const key of Object.keys(row)) {
+      // A set keeps the order keys were added in, so a field only some rows carry lands after the
+      // ones already seen - which is where the row that carries it puts it too
+      order.add(key);
+    }
+    this.keyOrders.set(tableName, order);
+  }
+
+  /**
+   * Add the columns a table lacks for fields the records carry, so a row may set a field no line of
+   * the file had when the table was loaded. Each column gets the type loading would have inferred
+   * from these values, and is optional since the rows already there do not have the field.
+   */
+  private addMissingColumns(tableName: string, records: Record<string, unknown>[]): void {
+    const schema = this.schemas.get(tableName);
+    if (!schema) {
+      throw new Error(`Table ${tableName} does not exist`);
+    }
+
+    const known = new Set(schema.columns.map((col) => col.name));
+    const missing = new Set<string>();
+    for (const record of records) {
+      for (const key of Object.keys(record)) {
+        if (!known.has(key)) {
+          missing.add(key);
+        }
+      }
+    }
+    if (missing.size === 0) {
+      return;
+    }
+
+    const values = records.map(
+      (record) => Object.fromEntries(Array.from(missing, (key) => [key, record[key] ?? null])) as JsonObject,
+    );
+    const { columns } = JsonlReader.inferSchema(tableName, values);
+    if (!this.hasOptionalColumns(schema)) {
+      this.db.exec(
+        `ALTER TABLE ${this.quoteTableName(tableName)} ADD COLUMN ${this.quoteIdentifier(NULL_FIELDS_COLUMN)} TEXT`,
+      );
+    }
+    for (const col of columns) {
+      const column: ColumnDefinition = { ...col, notNull: false, primaryKey: undefined, optional: true };
+      // JSON type is stored as TEXT in SQLite
+      const sqlType = column.type === 'JSON' ? 'TEXT' : column.type;
+      this.db.exec(
+        `ALTER TABLE ${this.quoteTableName(tableName)} ADD COLUMN ${this.quoteIdentifier(column.name)} ${sqlType}`,
+      );
+      // Replace rather than change the schema, which may be the one the config was given
+      const current = this.schemas.get(tableName)!;
+      this.schemas.set(tableName, { ...current, columns: [...current.columns, column] });
+      // The new field follows every field the table had, as it does in the rows read back
+      this.keyOrders.get(tableName)?.add(column.name);
+      this.onRollback(() => {
+        // SQLite dropped the column along with the rest of the transaction
+        const schema = this.schemas.get(tableName);
+        if (schema) {
+          this.schemas.set(tableName, { ...schema, columns: schema.columns.filter((c) => c.name !== column.name) });
+        }
+        this.keyOrders.get(tableName)?.delete(column.name);
+      });
+    }
+  }
+
+  /**
+   * Register how to undo a change the running transaction made besides the database, if one is running
+   */
+  private onRollback(action: () => void): void {
+    if (this.inTransaction) {
+      this.rollbackActions.push(action);
+    }
+  }
+
+  /**
+   * Undo what the rolled back part of a transaction changed besides the database, latest first
+   */
+  private undoRolledBack(count: number): void {
+    for (const action of this.rollbackActions.splice(count).reverse()) {
+      action();
+    }
+  }
+
+  /**
+   * Insert a row into a table with validation
+   * Note: Throws for a table whose schema validates asynchronously - use {@link LinesDB.insertAsync}
+   */
+  insert<K extends keyof Tables & string>(
+    tableName: K,
+    data: Tables[K],
+    options?: { validate?: boolean },
+  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureLoaded(tableName);
+    // Validate by default (can be disabled with validate: false)
+    if (options?.validate !== false) {
+      this.validateData(tableName, data);
+    }
+
+    this.addMissingColumns(tableName, [data]);
+    const result = this.executeInsert(tableName, data);
+    if (this.hasListeners('insert')) {
+      this.emitChange('insert', tableName, this.insertedChanges(tableName, [result.lastInsertRowid]));
+    }
+
+    this.autoSync(tableName);
+
+    return result;
+  }
+
+  /**
+   * Insert a row into a table, awaiting validation so that an asynchronous schema can check it
+   */
+  async insertAsync<K extends keyof Tables & string>(
+    tableName: K,
+    data: Tables[K],
+  ): Promise<{ changes: number | bigint; lastInsertRowid: number | bigint }> {
+    await this.validateDataAsync(tableName, data);
+
+    return this.insert(tableName, data, { validate: false });
+  }
+
+  /**
+   * Batch insert rows with validation per record.
+   * Note: Throws for a table whose schema validates asynchronously - use {@link LinesDB.batchInsertAsync}
+   */
+  batchInsert<K extends keyof Tables & string>(
+    tableName: K,
+    records: Tables[K][],
+    options?: { validate?: boolean },
+  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureLoaded(tableName);
+    const schema = this.schemas.get(tableName);
+    if (!schema) {
+      throw new Error(`Table ${tableName} does not exist`);
+    }
+
+    if (records.length === 0) {
+      return { changes: 0, lastInsertRowid: 0 };
+    }
+
+    this.addMissingColumns(tableName, records);
+
+    let totalChanges = 0n;
+    let lastRowid = 0n;
+    const rowids: Array<number | bigint> = [];
+
+    for (const record of records) {
+      if (options?.validate !== false) {
+        this.validateData(tableName, record);
+      }
+
+      const result = this.executeInsert(tableName, record);
+      totalChanges += BigInt(result.changes);
+      lastRowid = BigInt(result.lastInsertRowid);
+      rowids.push(result.lastInsertRowid);
+    }
+
+    if (this.hasListeners('insert')) {
+      this.emitChange('insert', tableName, this.insertedChanges(tableName, rowids));
+    }
+
+    this.autoSync(tableName);
+
+    return {
+      changes: totalChanges,
+      lastInsertRowid: lastRowid,
+    };
+  }
+
+  /**
+   * Batch insert rows, awaiting the validation of every record before inserting any.
+   */
+  async batchInsertAsync<K extends keyof Tables & string>(
+    tableName: K,
+    records: Tables[K][],
+  ): Promise<{ changes: number | bigint; lastInsertRowid: number | bigint }> {
+    for (const record of records) {
+      await this.validateDataAsync(tableName, record);
+    }
+
+    return this.batchInsert(tableName, records, { validate: false });
+  }
+
+  /**
+   * Run the INSERT statement for a single record
+   */
+  private executeInsert<K extends keyof Tables & string>(
+    tableName: K,
+    record: Tables[K],
+  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    const row = this.withNullFields(this.schemas.get(tableName), record as Record<string, unknown>);
+    const columnNames = Object.keys(row);
+    const quotedColumns = columnNames.map((col) => this.quoteIdentifier(col));
+    const placeholders = columnNames.map(() => '?').join(', ');
+    const sql = `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES (${placeholders})`;
+
+    const values = columnNames.map((col) => this.normalizeValue(row[col]));
+    return this.execute(sql, values);
   }
 
   /**
-   * Find rows by condition (supports OR/AND with arrays and function filters)
-   * If where is not provided, returns all rows
+   * Insert a row, or update the row with the same primary key if there is one.
+   * The row is validated merged over the existing one, as {@link LinesDB.update} does.
    */
-  find<K extends keyof Tables & string>(tableName: K, where?: WhereCondition<Tables[K]>) {
-    // If no where condition, return all rows
-    if (where === undefined) {
-      const rows = this.query(`SELECT * FROM ${this.quoteTableName(tableName)}`);
-      return rows.map((row) => this.deserializeRow(tableName, row)) as Tables[K][];
+  upsert<K extends keyof Tables & string>(
+    tableName: K,
+    data: Tables[K],
+    options?: { validate?: boolean },
+  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureReferencingLoaded(tableName);
+    const pkNames = this.getPrimaryKeyNames(tableName);
+    const pkValue = this.recordKey(pkNames, data);
+    if (pkValue === undefined) {
+      throw new Error(`Record is missing primary key ${this.describeKey(pkNames)}: ${JSON.stringify(data)}`);
     }
 
-    // Handle empty array - should return no results
-    if (Array.isArray(where) && where.length === 0) {
-      return [];
+    // Validate by default (can be disabled with validate: false)
+    if (options?.validate !== false && this.validationSchemas.has(tableName)) {
+      const [existing] = this.selectRowsByKeys(tableName, [pkValue]).values();
+      this.validateData(tableName, { ...existing?.row, ...data });
     }
 
-    const { sql, values, functionFilters, hasOrWithFunctionFilters } = this.buildWhereClause(where);
-
-    let rows: Tables[K][];
-
-    // If OR condition has function filters, get all rows and evaluate in JS
-    if (hasOrWithFunctionFilters) {
-      const rawRows = this.query(`SELECT * FROM ${this.quoteTableName(tableName)}`);
-      rows = rawRows.map((row) => this.deserializeRow(tableName, row)) as Tables[K][];
-      return this.applyOrConditionWithFilters(rows, where as WhereCondition<Tables[K]>);
-    }
+    this.addMissingColumns(tableName, [data]);
+    const [result] = this.upsertRows(tableName, pkNames, [data]);
 
-    // Normal case: use SQL WHERE clause
-    if (sql) {
-      const rawRows = this.query(`SELECT * FROM ${this.quoteTableName(tableName)} WHERE ${sql}`, values);
-      rows = rawRows.map((row) => this.deserializeRow(tableName, row)) as Tables[K][];
-    } else {
-      // If only function filters (AND case), get all rows
-      const rawRows = this.query(`SELECT * FROM ${this.quoteTableName(tableName)}`);
-      rows = rawRows.map((row) => this.deserializeRow(tableName, row)) as Tables[K][];
-    }
+    this.autoSync(tableName);
 
-    // Apply function filters for AND conditions
-    return this.applyFunctionFilters(rows, functionFilters);
+    return result;
   }
 
   /**
-   * Find a single row by condition (supports OR/AND with arrays and function filters)
+   * Insert or update rows by primary key, validating every merged record before writing any.
+   * The table is written back once for the whole batch.
    */
-  findOne<K extends keyof Tables & string>(tableName: K, where: WhereCondition<Tables[K]>) {
-    const { sql, values, functionFilters } = this.buildWhereClause(where);
+  batchUpsert<K extends keyof Tables & string>(
+    tableName: K,
+    records: Tables[K][],
+    options?: { validate?: boolean },
+  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureReferencingLoaded(tableName);
+    const pkNames = this.getPrimaryKeyNames(tableName);
 
-    let rows: Tables[K][];
-    if (sql) {
-      const rawRows = this.query(`SELECT * FROM ${this.quoteTableName(tableName)} WHERE ${sql}`, values);
-      rows = rawRows.map((row) => this.deserializeRow(tableName, row)) as Tables[K][];
-    } else {
-      // If only function filters, get all rows
-      const rawRows = this.query(`SELECT * FROM ${this.quoteTableName(tableName)}`);
-      rows = rawRows.map((row) => this.deserializeRow(tableName, row)) as Tables[K][];
+    if (records.length === 0) {
+      return { changes: 0, lastInsertRowid: 0 };
     }
 
-    // Apply function filters and return first match
-    const filtered = this.applyFunctionFilters(rows, functionFilters);
-    return filtered.length > 0 ? filtered[0] : null;
-  }
-
-  /**
-   * Deserialize JSON columns in a row
-   */
-  private deserializeRow<T>(tableName: string, row: T): T {
-    const schema = this.schemas.get(tableName);
-    if (!schema) return row;
-
-    const deserializedRow = { ...row } as Record<string, unknown>;
+    const pkValues = records.map((record, index) => {
+      const pkValue = this.recordKey(pkNames, record);
+      if (pkValue === undefined) {
+        throw new Error(`Record at index ${index} is missing primary key ${this.describeKey(pkNames)}`);
+      }
+      return pkValue;
+    });
 
-    for (const column of schema.columns) {
-      const colName = column.name;
-      if (!(colName in deserializedRow)) continue;
+    // Validate by default (can be disabled with validate: false)
+    if (options?.validate !== false && this.validationSchemas.has(tableName)) {
+      // Fetch all existing rows, keyed the way keyId identifies keys
+      const existingRows = this.selectRowsByKeys(tableName, pkValues);
 
-      const value = deserializedRow[colName];
+      // Validate each merged record and collect all errors
+      const validationErrors: Array<{
+        rowIndex: number;
+        rowData: unknown;
+        pkValue: unknown;
+        error: ValidationError;
+      }> = [];
 
-      if (column.type === 'JSON' && typeof value === 'string') {
+      records.forEach((record, i) => {
+        const mergedData = { ...existingRows.get(this.keyId(pkValues[i]))?.row, ...record };
         try {
-          deserializedRow[colName] = JSON.parse(value);
+          this.validateData(tableName, mergedData);
         } catch (error) {
-          // If parsing fails, keep the original value
-          console.warn(`Failed to parse JSON column ${colName}:`, error);
+          if (error instanceof Error && error.name === 'ValidationError') {
+            validationErrors.push({
+              rowIndex: i,
+              rowData: mergedData,
+              pkValue: pkValues[i],
+              error: error as ValidationError,
+            });
+          } else {
+            throw error;
+          }
         }
-        continue;
-      }
+      });
 
-      if (column.valueType === 'boolean') {
-        if (typeof value === 'number') {
-          deserializedRow[colName] = value === 0 ? false : true;
-        } else if (typeof value === 'bigint') {
-          deserializedRow[colName] = value === 0n ? false : true;
-        }
+      if (validationErrors.length > 0) {
+        const enhancedError = new Error(
+          `Validation failed for ${validationErrors.length} row(s)`,
+        ) as ValidationError & { validationErrors: typeof validationErrors };
+        enhancedError.name = 'ValidationError';
+        enhancedError.validationErrors = validationErrors;
+        // For backward compatibility, include issues from first error
+        enhancedError.issues = validationErrors[0].error.issues;
+        throw enhancedError;
       }
     }
 
-    return deserializedRow as T;
+    this.addMissingColumns(tableName, records);
+
+    let totalChanges = 0n;
+    let lastRowid = 0n;
+
+    for (const result of this.upsertRows(tableName, pkNames, records)) {
+      totalChanges += BigInt(result.changes);
+      lastRowid = BigInt(result.lastInsertRowid);
+    }
+
+    this.autoSync(tableName);
+
+    return {
+      changes: totalChanges,
+      lastInsertRowid: lastRowid,
+    };
   }
 
   /**
-   * Validate data using StandardSchema and return the transformed value
-   * Note: Only synchronous validation is supported
+   * Get the primary key columns of a loaded table, which upserts and batch operations key rows on
    */
-  private validateAndTransform(tableName: string, data: unknown): JsonObject {
-    const schema = this.validationSchemas.get(tableName);
+  private getPrimaryKeyNames(tableName: string): string[] {
+    const schema = this.schemas.get(tableName);
     if (!schema) {
-      return data as JsonObject;
+      throw new Error(`Table ${tableName} does not exist`);
     }
 
-    const result = schema['~standard'].validate(data);
-
-    // Only synchronous validation is supported
-    if (result instanceof Promise) {
-      throw new Error('Asynchronous validation is not supported. Please use synchronous validation schemas.');
+    const pkNames = this.schemaPrimaryKey(schema);
+    if (pkNames.length === 0) {
+      throw new Error(`Table ${tableName} does not have a primary key`);
     }
+    return pkNames;
+  }
 
-    if (result.issues && result.issues.length > 0) {
-      // Format detailed error message with all validation issues
-      const issueMessages = result.issues
-        .map((issue) => {
-          // Handle path: can be array of PathSegment or undefined
-          let pathStr = 'root';
-          if (issue.path && issue.path.length > 0) {
-            pathStr = issue.path
-              .map((segment) => {
-                // PathSegment can be { key: PropertyKey } or just PropertyKey
-                if (typeof segment === 'object' && segment !== null && 'key' in segment) {
-                  return String(segment.key);
-                }
-                return String(segment);
-              })
-              .join('.');
-          }
-          return `  - ${pathStr}: ${issue.message}`;
-        })
-        .join('\n');
-
-      const errorMessage = `Validation failed for table '${tableName}':\n${issueMessages}`;
-      const error = new Error(errorMessage) as ValidationError;
-      error.name = 'ValidationError';
-      error.issues = result.issues;
-      throw error;
-    }
+  /**
+   * The primary key columns of a table schema in key order, empty when it has no primary key
+   */
+  private schemaPrimaryKey(schema: TableSchema): string[] {
+    return schema.primaryKey ?? schema.columns.filter((col) => col.primaryKey).map((col) => col.name);
+  }
 
-    // Return the transformed value from validation
-    // When there are no issues, result.value should be present
-    const transformedValue = ('value' in result ? result.value : data) as JsonObject;
+  /**
+   * The primary key columns of a loaded table, empty when it has none
+   */
+  private primaryKeyNames(tableName: string): string[] {
+    const schema = this.schemas.get(tableName);
+    return schema ? this.schemaPrimaryKey(schema) : [];
+  }
 
-    // Convert undefined values to null for JSON compatibility
-    const normalizedValue: JsonObject = {};
-    for (const [key, value] of Object.entries(transformedValue)) {
-      normalizedValue[key] = value === undefined ? null : value;
+  /**
+   * The key of a record: its primary key value, or the list of values of a composite key.
+   * Undefined when the record lacks any of the key columns.
+   */
+  private recordKey(pkNames: string[], record: Record<string, unknown>): unknown {
+    const values = pkNames.map((name) => record[name]);
+    if (values.some((value) => value === undefined)) {
+      return undefined;
     }
+    return pkNames.length === 1 ? values[0] : values;
+  }
 
-    return normalizedValue;
+  /**
+   * Describe the primary key columns for an error message, e.g. `'id'` or `('userId', 'roleId')`
+   */
+  private describeKey(pkNames: string[]): string {
+    const quoted = pkNames.map((name) => `'${name}'`);
+    return pkNames.length === 1 ? quoted[0] : `(${quoted.join(', ')})`;
   }
 
   /**
-   * Validate data using StandardSchema (without returning transformed value)
-   * Note: Only synchronous validation is supported
+   * Describe a key value for an error message, e.g. `id=1` or `(userId, roleId)=[1,2]`
    */
-  private validateData(tableName: string, data: unknown): void {
-    // Use validateAndTransform but discard the result
-    this.validateAndTransform(tableName, data);
+  private describeKeyValue(pkNames: string[], key: unknown): string {
+    const columns = pkNames.length === 1 ? pkNames[0] : `(${pkNames.join(', ')})`;
+    return `${columns}=${JSON.stringify(key)}`;
   }
 
   /**
-   * Remember the order a computed row lists its fields in - the order the schema declares them, since
-   * that is the order a hook or a validation fills a row in. A sync inserts a key the line did not
-   * have at the place this order gives it.
+   * Build a WHERE clause matching the rows with any of the given keys, as {@link recordKey} returns them
    */
-  private recordKeyOrder(tableName: string, row: JsonObject): void {
-    const order = this.keyOrders.get(tableName) ?? new Set<string>();
-    for (const key of Object.keys(row)) {
-      // A set keeps the order keys were added in, so a field only some rows carry lands after the
-      // ones already seen - which is where the row that carries it puts it too
-      order.add(key);
+  private keyCondition(
+    pkNames: string[],
+    keys: unknown[],
+  ): { sql: string; values: Array<string | number | bigint | null | Uint8Array> } {
+    if (pkNames.length === 1) {
+      return {
+        sql: `${this.quoteIdentifier(pkNames[0])} IN (${keys.map(() => '?').join(', ')})`,
+        values: keys.map((key) => this.normalizeValue(key)),
+      };
     }
-    this.keyOrders.set(tableName, order);
+
+    const tuple = `(${pkNames.map(() => '?').join(', ')})`;
+    return {
+      sql:
+        `(${pkNames.map((name) => this.quoteIdentifier(name)).join(', ')}) ` +
+        `IN (VALUES ${keys.map(() => tuple).join(', ')})`,
+      values: keys.flatMap((key) => (key as unknown[]).map((value) => this.normalizeValue(value))),
+    };
   }
 
   /**
-   * Insert a row into a table with validation
+   * Upsert records without validation or sync, emitting `insert` for the rows that were new and
+   * `update` for the ones that existed
    */
-  insert<K extends keyof Tables & string>(
-    tableName: K,
-    data: Tables[K],
-  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
-    // Validate if schema exists
-    this.validateData(tableName, data);
-
-    const schema = this.schemas.get(tableName);
-    if (!schema) {
-      throw new Error(`Table ${tableName} does not exist`);
+  private upsertRows(
+    tableName: string,
+    pkNames: string[],
+    records: Record<string, unknown>[],
+  ): Array<{ changes: number | bigint; lastInsertRowid: number | bigint }> {
+    const tracked = this.hasListeners('insert') || this.hasListeners('update');
+    const keys = records.map((record) => this.recordKey(pkNames, record));
+    const before = tracked ? this.selectRowsByKeys(tableName, keys) : new Map();
+
+    const results = records.map((record) => this.executeUpsert(tableName, pkNames, record));
+
+    if (tracked) {
+      const after = this.selectRowsByKeys(tableName, keys);
+      const inserted: RowChange<Table>[] = [];
+      const updated: RowChange<Table>[] = [];
+      for (const [id, { key, row }] of after) {
+        const previous = before.get(id);
+        if (previous) {
+          updated.push({ key, before: previous.row, after: row });
+        } else {
+          inserted.push({ key, before: null, after: row });
+        }
+      }
+      this.emitChange('insert', tableName, inserted);
+      this.emitChange('update', tableName, updated);
     }
 
-    const columnNames = Object.keys(data);
+    return results;
+  }
+
+  /**
+   * Run `INSERT ... ON CONFLICT(pk) DO UPDATE` for one record, without validation or sync
+   */
+  private executeUpsert(
+    tableName: string,
+    pkNames: string[],
+    record: Record<string, unknown>,
+  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    const schema = this.schemas.get(tableName);
+    const row = this.withNullFields(schema, record);
+    const columnNames = Object.keys(row);
     const quotedColumns = columnNames.map((col) => this.quoteIdentifier(col));
     const placeholders = columnNames.map(() => '?').join(', ');
-    const sql = `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES (${placeholders})`;
-
-    const values = Object.values(data).map((v) => this.normalizeValue(v));
-    const result = this.execute(sql, values);
-
-    // Auto-sync if not in transaction
-    if (!this.inTransaction) {
-      this.syncTable(tableName).catch((err) => {
-        console.error(`Failed to sync table ${tableName}:`, err);
-      });
+    const updates = Object.keys(record)
+      .filter((col) => !pkNames.includes(col))
+      .map((col) => `${this.quoteIdentifier(col)} = excluded.${this.quoteIdentifier(col)}`);
+    const nullFields = this.nullFieldsAssignment(schema, record);
+    if (nullFields) {
+      updates.push(nullFields.clause);
     }
-
-    return result;
+    // A record holding nothing but its key has nothing to update on the existing row
+    const conflictAction = updates.length > 0 ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING';
+    const sql =
+      `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES (${placeholders}) ` +
+      `ON CONFLICT(${pkNames.map((name) => this.quoteIdentifier(name)).join(', ')}) ${conflictAction}`;
+
+    const values = columnNames.map((col) => this.normalizeValue(row[col]));
+    return this.execute(sql, nullFields ? [...values, nullFields.value] : values);
   }
 
   /**
-   * Batch insert rows with validation per record.
+   * Update rows in a table with validation (supports OR/AND with arrays)
+   * Note: Function filters are not supported for update operations; comparison operators are
+   * Note: By default, validation is enabled. For partial updates, existing data is fetched
+   * and merged before validation. Set options.validate = false to disable validation.
+   * Note: Throws for a table whose schema validates asynchronously - use {@link LinesDB.updateAsync}
    */
-  batchInsert<K extends keyof Tables & string>(
+  update<K extends keyof Tables & string>(
     tableName: K,
-    records: Tables[K][],
+    data: Partial<Tables[K]>,
+    where: WhereCondition<Tables[K]>,
+    options?: { validate?: boolean },
   ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureReferencingLoaded(tableName);
     const schema = this.schemas.get(tableName);
     if (!schema) {
       throw new Error(`Table ${tableName} does not exist`);
     }
 
-    if (records.length === 0) {
-      return { changes: 0, lastInsertRowid: 0 };
+    // Validate by default (can be disabled with validate: false)
+    const shouldValidate = options?.validate !== false;
+    const hasValidationSchema = this.validationSchemas.has(tableName);
+
+    if (shouldValidate && hasValidationSchema) {
+      // Get existing rows to merge with partial data
+      const existingRows = this.find(tableName, where);
+
+      // Validate each merged row
+      for (const existingRow of existingRows) {
+        const mergedData = { ...existingRow, ...data };
+        this.validateData(tableName, mergedData);
+      }
     }
 
-    let totalChanges = 0n;
-    let lastRowid = 0n;
+    const { sql: whereSql, values: whereValues, functionFilters } = this.buildWhereClause(where);
 
-    for (const record of records) {
-      this.validateData(tableName, record);
+    if (functionFilters.length > 0) {
+      throw new Error('Function filters are not supported in update operations');
+    }
 
-      const columnNames = Object.keys(record);
-      const quotedColumns = columnNames.map((col) => this.quoteIdentifier(col));
-      const placeholders = columnNames.map(() => '?').join(', ');
-      const sql = `INSERT INTO ${this.quoteTableName(tableName)} (${quotedColumns.join(', ')}) VALUES (${placeholders})`;
+    this.addMissingColumns(tableName, [data]);
+    const { result, changes } = this.updateRows(tableName, data, whereSql, whereValues);
+    this.emitChange('update', tableName, changes);
 
-      const values = columnNames.map((col) => this.normalizeValue(record[col as keyof Tables[K]]));
+    this.autoSync(tableName);
 
-      const result = this.execute(sql, values);
-      totalChanges += BigInt(result.changes);
-      lastRowid = BigInt(result.lastInsertRowid);
+    return result;
+  }
+
+  /**
+   * Run the UPDATE statement without validation or sync, reading the rows it changes when anything
+   * listens for `update`
+   */
+  private updateRows(
+    tableName: string,
+    data: Record<string, unknown>,
+    whereSql: string,
+    whereValues: Array<string | number | bigint | null | Uint8Array>,
+  ): { result: { changes: number | bigint; lastInsertRowid: number | bigint }; changes: RowChange<Table>[] } {
+    const before = this.hasListeners('update') ? this.selectRowsForEvent(tableName, whereSql, whereValues) : null;
+
+    const setClauses = Object.keys(data).map((key) => `${this.quoteIdentifier(key)} = ?`);
+    const values = Object.values(data).map((v) => this.normalizeValue(v));
+    const nullFields = this.nullFieldsAssignment(this.schemas.get(tableName), data);
+    if (nullFields) {
+      setClauses.push(nullFields.clause);
+      values.push(nullFields.value);
     }
+    const sql = `UPDATE ${this.quoteTableName(tableName)} SET ${setClauses.join(', ')} WHERE ${whereSql}`;
+    values.push(...whereValues);
 
-    if (!this.inTransaction) {
-      this.syncTable(tableName).catch((err) => {
-        console.error(`Failed to sync table ${tableName}:`, err);
-      });
+    const result = this.execute(sql, values);
+    if (!before) {
+      return { result, changes: [] };
     }
 
-    return {
-      changes: totalChanges,
-      lastInsertRowid: lastRowid,
+    // An update that sets the primary key moves the row to that key
+    const pkNames = this.primaryKeyNames(tableName);
+    const afterKey = (key: unknown) => {
+      if (!pkNames.some((name) => name in data)) {
+        return key;
+      }
+      if (pkNames.length === 1) {
+        return data[pkNames[0]];
+      }
+      return pkNames.map((name, index) => (name in data ? data[name] : (key as unknown[])[index]));
     };
+    const after = this.selectRowsByKeys(
+      tableName,
+      Array.from(before.values(), ({ key }) => afterKey(key)),
+    );
+    const changes = Array.from(before.values(), ({ key, row }) => ({
+      key,
+      before: row,
+      after: after.get(this.keyId(afterKey(key)))?.row ?? null,
+    }));
+    return { result, changes };
   }
 
   /**
-   * Update rows in a table with validation (supports OR/AND with arrays)
-   * Note: Function filters are not supported for update operations
-   * Note: By default, validation is enabled. For partial updates, existing data is fetched
-   * and merged before validation. Set options.validate = false to disable validation.
+   * Update rows in a table, awaiting validation so that an asynchronous schema can check the merged rows.
+   * Only the rows that matched before validation began are updated.
    */
-  update<K extends keyof Tables & string>(
+  async updateAsync<K extends keyof Tables & string>(
     tableName: K,
     data: Partial<Tables[K]>,
     where: WhereCondition<Tables[K]>,
-    options?: { validate?: boolean },
-  ): { changes: number | bigint; lastInsertRowid: number | bigint } {
-    const schema = this.schemas.get(tableName);
-    if (!schema) {
-      throw new Error(`Table ${tableName} does not exist`);
-    }
-
-    // Validate by default (can be disabled with validate: false)
-    const shouldValidate = options?.validate !== false;
-    const hasValidationSchema = this.validationSchemas.has(tableName);
-
-    if (shouldValidate && hasValidationSchema) {
-      // Get existing rows to merge with partial data
-      const existingRows = this.find(tableName, where);
-
-      // Validate each merged row
-      for (const existingRow of existingRows) {
-        const mergedData = { ...existingRow, ...data };
-        this.validateData(tableName, mergedData);
-      }
+  ): Promise<{ changes: number | bigint; lastInsertRowid: number | bigint }> {
+    if (!this.validationSchemas.has(tableName)) {
+      return this.update(tableName, data, where, { validate: false });
     }
 
+    this.ensureReferencingLoaded(tableName);
     const { sql: whereSql, values: whereValues, functionFilters } = this.buildWhereClause(where);
-
     if (functionFilters.length > 0) {
       throw new Error('Function filters are not supported in update operations');
     }
 
-    const setClauses = Object.keys(data)
-      .map((key) => `${this.quoteIdentifier(key)} = ?`)
-      .join(', ');
-    const sql = `UPDATE ${this.quoteTableName(tableName)} SET ${setClauses} WHERE ${whereSql}`;
-
-    const values = [...Object.values(data).map((v) => this.normalizeValue(v)), ...whereValues];
-
-    const result = this.execute(sql, values);
+    const rows = this.selectRowsForEvent(tableName, whereSql, whereValues);
+    for (const { row } of rows.values()) {
+      await this.validateDataAsync(tableName, { ...row, ...data });
+    }
 
-    // Auto-sync if not in transaction
-    if (!this.inTransaction) {
-      this.syncTable(tableName).catch((err) => {
-        console.error(`Failed to sync table ${tableName}:`, err);
-      });
+    // Only the rows just validated are updated: a row that started matching while validation was
+    // awaited has not been checked
+    const pkNames = this.primaryKeyNames(tableName);
+    const keyColumns = pkNames.length === 0 ? ['rowid'] : pkNames;
+    const keys = Array.from(rows.values(), ({ key }) => key);
+    let totalChanges = 0n;
+    let lastInsertRowid: number | bigint = 0;
+    const changes: RowChange<Table>[] = [];
+    this.addMissingColumns(tableName, [data]);
+    // Stay under SQLite's parameter limit (999), as insertData does
+    const batchSize = Math.floor(900 / keyColumns.length);
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const { sql: keySql, values: keyValues } = this.keyCondition(keyColumns, keys.slice(i, i + batchSize));
+      const { result, changes: batchChanges } = this.updateRows(tableName, data, `(${whereSql}) AND ${keySql}`, [
+        ...whereValues,
+        ...keyValues,
+      ]);
+      totalChanges += BigInt(result.changes);
+      lastInsertRowid = result.lastInsertRowid;
+      changes.push(...batchChanges);
     }
+    this.emitChange('update', tableName, changes);
 
-    return result;
+    this.autoSync(tableName);
+
+    return { changes: totalChanges, lastInsertRowid };
   }
 
   /**
@@ -1194,9 +3057,10 @@ export class LinesDB<Tables extends TableDefs> {
    */
   batchUpdate<K extends keyof Tables & string>(
     tableName: K,
-    records: Array<Partial<Tables[K]> & Record<string, unknown>>,
+    records: Array<KeyedRecord<Tables[K], PrimaryKeys, K>>,
     options?: { validate?: boolean },
   ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureReferencingLoaded(tableName);
     const schema = this.schemas.get(tableName);
     if (!schema) {
       throw new Error(`Table ${tableName} does not exist`);
@@ -1206,20 +3070,15 @@ export class LinesDB<Tables extends TableDefs> {
       return { changes: 0, lastInsertRowid: 0 };
     }
 
-    // Get primary key column
-    const pkColumn = schema.columns.find((col) => col.primaryKey);
-    if (!pkColumn) {
-      throw new Error(`Table ${tableName} does not have a primary key`);
-    }
-
-    const pkName = pkColumn.name;
+    // Get primary key columns
+    const pkNames = this.getPrimaryKeyNames(tableName);
 
     // Extract primary key values from records
     const pkValues: unknown[] = [];
     for (const record of records) {
-      const pkValue = record[pkName];
+      const pkValue = this.recordKey(pkNames, record);
       if (pkValue === undefined) {
-        throw new Error(`Record is missing primary key '${String(pkName)}': ${JSON.stringify(record)}`);
+        throw new Error(`Record is missing primary key ${this.describeKey(pkNames)}: ${JSON.stringify(record)}`);
       }
       pkValues.push(pkValue);
     }
@@ -1229,20 +3088,8 @@ export class LinesDB<Tables extends TableDefs> {
     const hasValidationSchema = this.validationSchemas.has(tableName);
 
     if (shouldValidate && hasValidationSchema) {
-      // Build OR condition to fetch all existing rows at once
-      const orCondition = pkValues.map((pkValue) => ({
-        [pkName]: pkValue,
-      })) as WhereCondition<Tables[K]>;
-
-      // Fetch all existing rows in one query
-      const existingRows = this.find(tableName, orCondition);
-
-      // Create a map for fast lookup: pkValue -> existingRow
-      const existingRowsMap = new Map<unknown, Tables[K]>();
-      for (const row of existingRows) {
-        const pkValue = (row as Record<string, unknown>)[pkName];
-        existingRowsMap.set(pkValue, row);
-      }
+      // Fetch all existing rows at once, keyed the way keyId identifies keys
+      const existingRows = this.selectRowsByKeys(tableName, pkValues);
 
       // Validate each merged record and collect all errors
       const validationErrors: Array<{
@@ -1254,11 +3101,11 @@ export class LinesDB<Tables extends TableDefs> {
 
       for (let i = 0; i < records.length; i++) {
         const record = records[i];
-        const pkValue = record[pkName];
-        const existingRow = existingRowsMap.get(pkValue);
+        const pkValue = pkValues[i];
+        const existingRow = existingRows.get(this.keyId(pkValue))?.row;
 
         if (!existingRow) {
-          throw new Error(`No existing row found with ${String(pkName)}=${JSON.stringify(pkValue)}`);
+          throw new Error(`No existing row found with ${this.describeKeyValue(pkNames, pkValue)}`);
         }
 
         const mergedData = { ...existingRow, ...record };
@@ -1294,22 +3141,24 @@ export class LinesDB<Tables extends TableDefs> {
     }
 
     // All validations passed - perform updates
+    this.addMissingColumns(tableName, records);
     let totalChanges = 0n;
     let lastRowid = 0n;
+    const changes: RowChange<Table>[] = [];
 
-    for (const record of records) {
-      const pkValue = record[pkName];
-      const where = { [pkName]: pkValue } as WhereCondition<Tables[K]>;
-
-      // Call update without validation (already validated above)
-      const result = this.update(tableName, record as Partial<Tables[K]>, where, {
-        validate: false,
-      });
+    for (const [index, record] of records.entries()) {
+      const { sql: whereSql, values: whereValues } = this.keyCondition(pkNames, [pkValues[index]]);
+      const { result, changes: recordChanges } = this.updateRows(tableName, record, whereSql, whereValues);
 
       totalChanges += BigInt(result.changes);
       lastRowid = BigInt(result.lastInsertRowid);
+      changes.push(...recordChanges);
     }
 
+    this.emitChange('update', tableName, changes);
+
+    this.autoSync(tableName);
+
     return {
       changes: totalChanges,
       lastInsertRowid: lastRowid,
@@ -1318,12 +3167,13 @@ export class LinesDB<Tables extends TableDefs> {
 
   /**
    * Delete rows from a table (supports OR/AND with arrays)
-   * Note: Function filters are not supported for delete operations
+   * Note: Function filters are not supported for delete operations; comparison operators are
    */
   delete<K extends keyof Tables & string>(
     tableName: K,
     where: WhereCondition<Tables[K]>,
   ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureReferencingLoaded(tableName);
     const schema = this.schemas.get(tableName);
     if (!schema) {
       throw new Error(`Table ${tableName} does not exist`);
@@ -1335,16 +3185,15 @@ export class LinesDB<Tables extends TableDefs> {
       throw new Error('Function filters are not supported in delete operations');
     }
 
+    const before = this.hasListeners('delete') ? this.selectRowsForEvent(tableName, whereSql, values) : null;
     const sql = `DELETE FROM ${this.quoteTableName(tableName)} WHERE ${whereSql}`;
     const result = this.execute(sql, values);
-
-    // Auto-sync if not in transaction
-    if (!this.inTransaction) {
-      this.syncTable(tableName).catch((err) => {
-        console.error(`Failed to sync table ${tableName}:`, err);
-      });
+    if (before) {
+      this.emitChange('delete', tableName, this.deletedChanges(before));
     }
 
+    this.autoSync(tableName);
+
     return result;
   }
 
@@ -1353,8 +3202,9 @@ export class LinesDB<Tables extends TableDefs> {
    */
   batchDelete<K extends keyof Tables & string>(
     tableName: K,
-    records: Array<Partial<Tables[K]> & Record<string, unknown>>,
+    records: Array<KeyedRecord<Tables[K], PrimaryKeys, K>>,
   ): { changes: number | bigint; lastInsertRowid: number | bigint } {
+    this.ensureReferencingLoaded(tableName);
     const schema = this.schemas.get(tableName);
     if (!schema) {
       throw new Error(`Table ${tableName} does not exist`);
@@ -1364,32 +3214,27 @@ export class LinesDB<Tables extends TableDefs> {
       return { changes: 0, lastInsertRowid: 0 };
     }
 
-    const pkColumn = schema.columns.find((col) => col.primaryKey);
-    if (!pkColumn) {
-      throw new Error(`Table ${tableName} does not have a primary key`);
-    }
-    const pkName = pkColumn.name;
+    const pkNames = this.getPrimaryKeyNames(tableName);
 
     const pkValues = records.map((record, index) => {
-      const pkValue = record[pkName as keyof Tables[K]];
+      const pkValue = this.recordKey(pkNames, record);
       if (pkValue === undefined) {
-        throw new Error(`Record at index ${index} is missing primary key '${String(pkName)}'`);
+        throw new Error(`Record at index ${index} is missing primary key ${this.describeKey(pkNames)}`);
       }
       return pkValue;
     });
 
-    const placeholders = pkValues.map(() => '?').join(', ');
-    const sql = `DELETE FROM ${this.quoteTableName(tableName)} WHERE ${this.quoteIdentifier(pkName)} IN (${placeholders})`;
-    const values = pkValues.map((value) => this.normalizeValue(value));
+    const { sql: whereSql, values } = this.keyCondition(pkNames, pkValues);
+    const sql = `DELETE FROM ${this.quoteTableName(tableName)} WHERE ${whereSql}`;
 
+    const before = this.hasListeners('delete') ? this.selectRowsByKeys(tableName, pkValues) : null;
     const result = this.execute(sql, values);
-
-    if (!this.inTransaction) {
-      this.syncTable(tableName).catch((err) => {
-        console.error(`Failed to sync table ${tableName}:`, err);
-      });
+    if (before) {
+      this.emitChange('delete', tableName, this.deletedChanges(before));
     }
 
+    this.autoSync(tableName);
+
     return {
       changes: BigInt(result.changes),
       lastInsertRowid: BigInt(result.lastInsertRowid),
@@ -1447,6 +3292,9 @@ export class LinesDB<Tables extends TableDefs> {
           // Function filter - will be applied later
           functionFilters.push({ key, fn: value as (value: unknown) => boolean });
           hasFunctionFilter = true;
+        } else if (isWhereOperators(value)) {
+          // Comparison operators - compiled to SQL like equality
+          conditions.push(...this.buildOperatorConditions(key, value, values));
         } else {
           // Regular value
           conditions.push(`${this.quoteIdentifier(key)} = ?`);
@@ -1457,124 +3305,567 @@ export class LinesDB<Tables extends TableDefs> {
       if (isInOr && hasFunctionFilter) {
         hasOrWithFunctionFilters = true;
       }
-
-      return conditions.join(' AND ');
+
+      return conditions.join(' AND ');
+    };
+
+    const sql = buildCondition(condition);
+    return { sql, values, functionFilters, hasOrWithFunctionFilters };
+  }
+
+  /**
+   * Build the SQL conditions for a column's comparison operators, pushing their parameters onto `values`
+   */
+  private buildOperatorConditions(
+    key: string,
+    operators: WhereOperators<unknown>,
+    values: Array<string | number | bigint | null | Uint8Array>,
+  ): string[] {
+    const column = this.quoteIdentifier(key);
+    const conditions: string[] = [];
+    const compare = (sqlOperator: string, value: unknown) => {
+      conditions.push(`${column} ${sqlOperator} ?`);
+      values.push(this.normalizeValue(value));
+    };
+    const list = (sqlOperator: string, items: readonly unknown[], whenEmpty: string) => {
+      if (items.length === 0) {
+        conditions.push(whenEmpty);
+        return;
+      }
+      conditions.push(`${column} ${sqlOperator} (${items.map(() => '?').join(', ')})`);
+      values.push(...items.map((item) => this.normalizeValue(item)));
+    };
+
+    for (const [operator, value] of Object.entries(operators)) {
+      if (value === undefined) continue;
+      switch (operator as (typeof WHERE_OPERATORS)[number]) {
+        case 'eq':
+          compare('=', value);
+          break;
+        case 'ne':
+          compare('IS NOT', value);
+          break;
+        case 'gt':
+          compare('>', value);
+          break;
+        case 'gte':
+          compare('>=', value);
+          break;
+        case 'lt':
+          compare('<', value);
+          break;
+        case 'lte':
+          compare('<=', value);
+          break;
+        case 'in':
+          // No value to match against: the condition never holds
+          list('IN', value as readonly unknown[], '0');
+          break;
+        case 'notIn':
+          // Nothing to exclude, but a null column still matches neither form
+          list('NOT IN', value as readonly unknown[], `${column} IS NOT NULL`);
+          break;
+        case 'like':
+          compare('LIKE', value);
+          break;
+        case 'between': {
+          const [low, high] = value as readonly [unknown, unknown];
+          conditions.push(`${column} BETWEEN ? AND ?`);
+          values.push(this.normalizeValue(low), this.normalizeValue(high));
+          break;
+        }
+        case 'isNull':
+          conditions.push(`${column} ${value ? 'IS NULL' : 'IS NOT NULL'}`);
+          break;
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Apply OR condition with function filters by evaluating each row against the condition
+   */
+  private applyOrConditionWithFilters<T extends Record<string, unknown>>(rows: T[], condition: WhereCondition<T>): T[] {
+    return rows.filter((row) => this.matchesOrCondition(row, condition));
+  }
+
+  /**
+   * Check if a row matches an OR/AND condition (recursively)
+   */
+  private matchesOrCondition<T extends Record<string, unknown>>(row: T, condition: WhereCondition<T>): boolean {
+    // Handle array (OR conditions)
+    if (Array.isArray(condition)) {
+      return condition.some((item) => this.matchesOrCondition(row, item));
+    }
+
+    // Handle object (AND conditions)
+    return Object.entries(condition).every(([key, value]) => {
+      const rowValue = row[key as keyof T];
+      if (typeof value === 'function') {
+        return (value as (value: unknown) => boolean)(rowValue);
+      }
+      if (isWhereOperators(value)) {
+        return matchesWhereOperators(rowValue, value);
+      }
+      return rowValue === value;
+    });
+  }
+
+  /**
+   * Apply function filters to rows
+   */
+  private applyFunctionFilters<T extends Record<string, unknown>>(
+    rows: T[],
+    functionFilters: Array<{ key: string; fn: (value: unknown) => boolean }>,
+  ): T[] {
+    if (functionFilters.length === 0) return rows;
+
+    return rows.filter((row) => {
+      return functionFilters.every(({ key, fn }) => {
+        const value = row[key as keyof T];
+        return fn(value);
+      });
+    });
+  }
+
+  /**
+   * Get table schema
+   */
+  getSchema(tableName: string): TableSchema | undefined {
+    this.ensureLoaded(tableName);
+    return this.schemas.get(tableName);
+  }
+
+  /**
+   * Get all table names, including the ones a lazy initialize has not loaded yet
+   */
+  getTableNames(): string[] {
+    return [...this.schemas.keys(), ...this.pendingTables.keys()];
+  }
+
+  /**
+   * Write back a table a call changed, along with the tables a foreign key action cascaded the change
+   * to - unless a transaction is running, which writes back every table once it commits
+   */
+  private autoSync(tableName: string): void {
+    const cascaded = this.takeCascadedTables();
+    // Until the write-back finishes the files do not hold these tables; in a transaction this is
+    // rolled back along with the changes
+    this.cache?.invalidate([tableName, ...cascaded]);
+    if (this.inTransaction) {
+      return;
+    }
+
+    for (const name of new Set([tableName, ...cascaded])) {
+      this.syncTable(name).catch((err) => {
+        console.error(`Failed to sync table ${name}:`, err);
+      });
+    }
+  }
+
+  /**
+   * Return the tables the cascade triggers recorded a change to since the last call, and forget them
+   */
+  private takeCascadedTables(): string[] {
+    if (!this.hasCascadeTriggers) {
+      return [];
+    }
+    const rows = this.query<{ name: string }>(`SELECT DISTINCT name FROM temp.${CASCADE_LOG_TABLE}`);
+    this.db.exec(`DELETE FROM temp.${CASCADE_LOG_TABLE}`);
+    return rows.map((row) => row.name).filter((name) => this.schemas.has(name));
+  }
+
+  /**
+   * Sync a specific table back to its JSONL file
+   * Syncs of the same table run one after another: auto-sync is fire-and-forget, and a write-back
+   * that reads the file first must never see a file another sync is halfway through writing.
+   */
+  private async syncTable(tableName: string, options?: InternalSyncOptions): Promise<void> {
+    const pending = this.syncQueue.get(tableName) ?? Promise.resolve();
+    const current = pending.then(() => this.writeTable(tableName, options));
+
+    this.syncQueue.set(
+      tableName,
+      current.catch(() => {}),
+    );
+
+    return current;
+  }
+
+  /**
+   * Write a table back to its JSONL file, holding the lock file of the file written to meanwhile so
+   * that another process syncing the same table waits for this one rather than writing between its reads
+   * and writes
+   */
+  private async writeTable(tableName: string, options?: InternalSyncOptions): Promise<void> {
+    const tableConfig = this.tables.get(tableName);
+    if (!tableConfig) {
+      throw new Error(`Table ${tableName} not found`);
+    }
+
+    const target = this.syncTarget(tableConfig);
+    const lock = await FileLock.acquire((target.layer ?? tableConfig).jsonlPath, {
+      timeout: this.config.lockTimeout,
+    });
+    try {
+      await this.writeLockedTable(tableName, tableConfig, target, options);
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /**
+   * Write a table back to its JSONL file
+   * Uses backward transformation when available
+   */
+  private async writeLockedTable(
+    tableName: string,
+    tableConfig: TableConfig,
+    target: { layer?: TableLayer; lowerLayers: TableLayer[] },
+    options?: InternalSyncOptions,
+  ): Promise<void> {
+    // The hash of each file of the table as this sync found or wrote it, so that none is read twice
+    const hashes = new Map<string, string>();
+    const baseline = this.baselines.get(tableName);
+    if (baseline && (await this.hashTableFiles(tableConfig, hashes).catch(() => undefined)) !== baseline.hash) {
+      if (this.conflictPolicy() === 'fail') {
+        throw this.syncConflictError(
+          tableName,
+          `Cannot sync table '${tableName}': its files changed on disk since it was loaded or last synced. ` +
+            `Load it again to keep their changes, or set onSyncConflict to 'merge' or 'overwrite'.`,
+        );
+      }
+      if (this.conflictPolicy() === 'merge' && !(await this.mergeChangedFiles(tableName, tableConfig, baseline))) {
+        return;
+      }
+    }
+
+    const deserializedRows = this.selectTableRows(tableName);
+
+    // Apply backward transformation if available
+    const validationSchema = this.validationSchemas.get(tableName);
+    let finalRows = deserializedRows;
+
+    if (validationSchema && hasBackward(validationSchema)) {
+      const biSchema = validationSchema as BiDirectionalSchema<Table, Table>;
+      finalRows = deserializedRows.map((row) => biSchema.backward!(row) as JsonObject);
+    }
+
+    // An empty list means no field is written back, not that every field is
+    const fields = options?.fields ?? this.config.writeBackFields;
+    finalRows = await this.mergeWithExistingLines(tableName, tableConfig, finalRows, {
+      fields,
+      strictFields: options?.strictFields ?? false,
+    });
+
+    // Write back to JSONL file, or to the file of the layer synced to
+    if (target.lowerLayers.length > 0) {
+      finalRows = await this.layerRows(tableName, finalRows, target.layer!, target.lowerLayers);
+    }
+    if (target.layer && !tableConfig.layers!.includes(target.layer)) {
+      if (finalRows.length === 0) {
+        // The layers below already hold the table as it is
+        await this.recordWrittenBaseline(tableName, tableConfig, deserializedRows, hashes);
+        return;
+      }
+      await mkdir(dirname(target.layer.jsonlPath), { recursive: true });
+      tableConfig.layers!.push(target.layer);
+      tableConfig.layers!.sort((a, b) => this.dataDirs().indexOf(a.dataDir) - this.dataDirs().indexOf(b.dataDir));
+    }
+    const files = target.layer ?? this.tableLayers(tableConfig)[0];
+    let writtenFiles: WrittenFile[];
+    if (files.recordDir) {
+      const changed = await RecordDirectory.write(files.recordDir, finalRows, this.recordFileNameOf(tableName));
+      writtenFiles = Array.from(changed, ([file, hash]) => ({ file, hash }));
+    } else if (files.shards) {
+      writtenFiles = await this.writeShards(tableName, files.jsonlPath, files.shards, finalRows);
+    } else {
+      const written = await this.writeTableFile(files.jsonlPath, finalRows);
+      writtenFiles = written ? [written] : [];
+    }
+    for (const { file, hash } of writtenFiles) {
+      if (hash === null) {
+        hashes.delete(file);
+      } else {
+        hashes.set(file, hash);
+      }
+      if (this.watchers.size > 0) {
+        this.ownWrites.set(file, hash);
+      }
+    }
+    const schema = this.schemas.get(tableName);
+    if (this.cache && schema) {
+      this.cache.written(tableName, await this.hashTableFiles(tableConfig, hashes), {
+        schema,
+        keyOrder: Array.from(this.keyOrders.get(tableName) ?? []),
+        rowCount: deserializedRows.length,
+      });
+    }
+    await this.recordWrittenBaseline(tableName, tableConfig, deserializedRows, hashes);
+
+    for (const { file, lines } of writtenFiles) {
+      this.emit('sync', lines ? { table: tableName, file, lines } : { table: tableName, file });
+    }
+  }
+
+  /**
+   * Read every row of a table, deserialized. Ordered by rowid so the rows arrive in insertion order:
+   * without it SQLite may return them in any order, and matching rows to their existing line by
+   * position depends on that order being the one the file was read in.
+   */
+  private selectTableRows(tableName: string): JsonObject[] {
+    return this.query<JsonObject>(`SELECT * FROM ${this.quoteTableName(tableName)} ORDER BY rowid`).map((row) =>
+      this.deserializeRow(tableName, row),
+    );
+  }
+
+  /**
+   * Remember the files of a table as a sync just wrote them
+   * @param rows - The rows written, which the files now hold
+   * @param hashes - The hashes of the files as the sync found or wrote them
+   */
+  private async recordWrittenBaseline(
+    tableName: string,
+    config: TableConfig,
+    rows: JsonObject[],
+    hashes: Map<string, string>,
+  ): Promise<void> {
+    if (this.conflictPolicy() !== 'overwrite') {
+      this.recordBaseline(tableName, await this.hashTableFiles(config, hashes), rows);
+    }
+  }
+
+  /**
+   * Load the rows a table's files hold now into the database, re-applying onto them by primary key the
+   * changes the table had since it was loaded or last synced, for a sync that found the files changed
+   * @returns False when a transaction is running, which syncs the table once it commits
+   */
+  private async mergeChangedFiles(tableName: string, config: TableConfig, baseline: TableBaseline): Promise<boolean> {
+    const primaryKey = this.primaryKeyNames(tableName);
+    if (primaryKey.length === 0 || !baseline.rows) {
+      throw this.syncConflictError(
+        tableName,
+        `Cannot sync table '${tableName}': its files changed on disk since it was loaded or last synced, ` +
+          `and without a primary key their rows cannot be matched to the table's to merge the changes.`,
+      );
+    }
+    // Their rows as loading them would have put them in the table
+    const theirs: JsonObject[] = [];
+    for (const row of await this.readExistingRows(tableName, config)) {
+      theirs.push(await this.validateAndTransformAsync(tableName, row));
+    }
+    if (this.inTransaction) {
+      return false;
+    }
+
+    // From here on nothing awaits, so no call changes the table between reading and replacing its rows
+    const ours = this.selectTableRows(tableName);
+    const merged = reapplyChanges(baseline.rows, ours, theirs, primaryKey);
+    this.addMissingColumns(tableName, merged);
+    const columns = this.schemas.get(tableName)!.columns.map((column) => column.name);
+    // Every column is set, so a field their row no longer has is cleared
+    const complete = (row: JsonObject) =>
+      Object.fromEntries(columns.map((name) => [name, row[name] ?? null])) as JsonObject;
+
+    const kept = new Set(merged.map((row) => rowKey(row, primaryKey)));
+    const removed = ours
+      .filter((row) => !kept.has(rowKey(row, primaryKey)))
+      .map((row) => this.recordKey(primaryKey, row));
+    if (removed.length > 0) {
+      const before = this.hasListeners('delete') ? this.selectRowsByKeys(tableName, removed) : null;
+      const { sql, values } = this.keyCondition(primaryKey, removed);
+      this.execute(`DELETE FROM ${this.quoteTableName(tableName)} WHERE ${sql}`, values);
+      if (before) {
+        this.emitChange('delete', tableName, this.deletedChanges(before));
+      }
+    }
+
+    const current = new Map(ours.map((row) => [rowKey(row, primaryKey), canonical(complete(row))]));
+    const changed = merged.map(complete).filter((row) => current.get(rowKey(row, primaryKey)) !== canonical(row));
+    if (changed.length > 0) {
+      this.upsertRows(tableName, primaryKey, changed);
+    }
+    return true;
+  }
+
+  private syncConflictError(tableName: string, message: string): SyncConflictError {
+    const error = new Error(message) as SyncConflictError;
+    error.name = 'SyncConflictError';
+    error.table = tableName;
+    return error;
+  }
+
+  /**
+   * Name the file of a row in a directory of records after its primary key
+   */
+  private recordFileNameOf(tableName: string): (row: JsonObject) => string {
+    const primaryKey = this.primaryKeyNames(tableName);
+    if (primaryKey.length !== 1) {
+      throw new Error(
+        `Cannot write table '${tableName}' to a directory of records: ` +
+          'its files are named after a primary key of a single column',
+      );
+    }
+    return (row) => {
+      const value = row[primaryKey[0]];
+      const name = value === undefined || value === null ? '' : String(value);
+      if (name === '' || name === '.' || name === '..' || /[\\/]/.test(name)) {
+        throw new Error(
+          `Cannot write a row of table '${tableName}' to a file named after its primary key ${JSON.stringify(value)}`,
+        );
+      }
+      return name;
     };
-
-    const sql = buildCondition(condition);
-    return { sql, values, functionFilters, hasOrWithFunctionFilters };
   }
 
   /**
-   * Apply OR condition with function filters by evaluating each row against the condition
+   * Write rows to a table's file in its format
+   * @returns The file, with the lines of a JSONL file that were written anew, or undefined when it
+   * already held the rows as they would be written and was left alone
    */
-  private applyOrConditionWithFilters<T extends Record<string, unknown>>(rows: T[], condition: WhereCondition<T>): T[] {
-    return rows.filter((row) => this.matchesOrCondition(row, condition));
+  private async writeTableFile(filePath: string, rows: JsonObject[]): Promise<WrittenFile | undefined> {
+    if (isDelimitedFile(filePath)) {
+      // Keep the column order, quoting and line breaks the file has
+      const hash = await CsvWriter.write(filePath, rows, await this.readCsvLayout(filePath));
+      return hash === undefined ? undefined : { file: filePath, hash };
+    }
+    const { writtenLines, hash } = await JsonlWriter.write(filePath, rows);
+    return hash === undefined ? undefined : { file: filePath, lines: writtenLines, hash };
   }
 
   /**
-   * Check if a row matches an OR/AND condition (recursively)
+   * Write the rows of a sharded table back to the shards they come from, and the rows no shard holds
+   * to the one `shardFor` picks. Shards whose rows are unchanged are left alone.
+   * @param jsonlPath - The path the shards are named after
+   * @returns The files written
    */
-  private matchesOrCondition<T extends Record<string, unknown>>(row: T, condition: WhereCondition<T>): boolean {
-    // Handle array (OR conditions)
-    if (Array.isArray(condition)) {
-      return condition.some((item) => this.matchesOrCondition(row, item));
-    }
+  private async writeShards(
+    tableName: string,
+    jsonlPath: string,
+    shards: string[],
+    rows: JsonObject[],
+  ): Promise<WrittenFile[]> {
+    const shardDir = dirname(shards[shards.length - 1]);
+    // Numbered shards beside the table's path, rather than the files of a directory of its own
+    const numbered = shardDir === dirname(jsonlPath);
+    const newShard = (row: JsonObject): string => {
+      const name = this.config.shardFor?.(tableName, row);
+      if (name === undefined) {
+        return shards[shards.length - 1];
+      }
+      const isShardName = numbered
+        ? shardBaseNameOf(name) === tableFileBaseName(basename(jsonlPath))
+        : tableFileBaseName(name) !== null;
+      if (basename(name) !== name || !isShardName) {
+        throw new Error(
+          `shardFor returned '${name}' for table '${tableName}', which is not the name of one of its shards`,
+        );
+      }
+      return join(shardDir, name);
+    };
 
-    // Handle object (AND conditions)
-    return Object.entries(condition).every(([key, value]) => {
-      const rowValue = row[key as keyof T];
-      if (typeof value === 'function') {
-        return (value as (value: unknown) => boolean)(rowValue);
+    const current = await Promise.all(
+      shards.map(async (file) => ({ file, rows: await this.readFileRows(tableName, file) })),
+    );
+    const written: WrittenFile[] = [];
+    for (const [file, shardRows] of routeToShards(rows, current, this.primaryKeyNames(tableName), newShard)) {
+      const before = current.find((shard) => shard.file === file);
+      if (before && canonical(before.rows) === canonical(shardRows)) {
+        continue;
       }
-      return rowValue === value;
-    });
+      const shardFile = await this.writeTableFile(file, shardRows);
+      if (shardFile) {
+        written.push(shardFile);
+      }
+      if (!before) {
+        shards.push(file);
+        shards.sort(compareShards);
+      }
+    }
+    return written;
   }
 
-  /**
-   * Apply function filters to rows
-   */
-  private applyFunctionFilters<T extends Record<string, unknown>>(
-    rows: T[],
-    functionFilters: Array<{ key: string; fn: (value: unknown) => boolean }>,
-  ): T[] {
-    if (functionFilters.length === 0) return rows;
-
-    return rows.filter((row) => {
-      return functionFilters.every(({ key, fn }) => {
-        const value = row[key as keyof T];
-        return fn(value);
-      });
-    });
+  private async readCsvLayout(filePath: string): Promise<CsvLayout> {
+    try {
+      const { header, quotedColumns, lineEnding } = await CsvReader.read(filePath);
+      return { header, quotedColumns, lineEnding };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
   }
 
   /**
-   * Get table schema
+   * The data directories, lowest layer first when `dataDir` is layered
    */
-  getSchema(tableName: string): TableSchema | undefined {
-    return this.schemas.get(tableName);
+  private dataDirs(): readonly string[] {
+    return typeof this.config.dataDir === 'string' ? [this.config.dataDir] : this.config.dataDir;
   }
 
   /**
-   * Get all table names
+   * The directory of `dataDir` layered tables are synced to, which `syncLayer` may name by another path
+   * to it, or undefined when it names none of them
    */
-  getTableNames(): string[] {
-    return Array.from(this.schemas.keys());
+  private syncLayerDir(): string | undefined {
+    const dataDirs = this.dataDirs();
+    const { syncLayer } = this.config;
+    if (syncLayer === undefined) {
+      return dataDirs[dataDirs.length - 1];
+    }
+    return dataDirs.find((dataDir) => resolve(dataDir) === resolve(syncLayer));
   }
 
   /**
-   * Sync a specific table back to its JSONL file
-   * Syncs of the same table run one after another: auto-sync is fire-and-forget, and a write-back
-   * that reads the file first must never see a file another sync is halfway through writing.
+   * Find the file of the layer a layered table is written to, which it may not have yet, and the
+   * layers below it
    */
-  private async syncTable(tableName: string, options?: InternalSyncOptions): Promise<void> {
-    const pending = this.syncQueue.get(tableName) ?? Promise.resolve();
-    const current = pending.then(() => this.writeTable(tableName, options));
+  private syncTarget(config: TableConfig): { layer?: TableLayer; lowerLayers: TableLayer[] } {
+    if (!config.layers) {
+      return { lowerLayers: [] };
+    }
 
-    this.syncQueue.set(
-      tableName,
-      current.catch(() => {}),
+    const dataDirs = this.dataDirs();
+    const dataDir = this.syncLayerDir()!;
+    const [lowest] = config.layers;
+    const layer = config.layers.find((candidate) => candidate.dataDir === dataDir) ?? {
+      dataDir,
+      jsonlPath: join(dataDir, relative(lowest.dataDir, lowest.jsonlPath)),
+      ...(lowest.recordDir ? { recordDir: join(dataDir, relative(lowest.dataDir, lowest.recordDir)) } : {}),
+    };
+    const lowerLayers = config.layers.filter(
+      (candidate) => dataDirs.indexOf(candidate.dataDir) < dataDirs.indexOf(dataDir),
     );
-
-    return current;
+    return { layer, lowerLayers };
   }
 
   /**
-   * Write a table back to its JSONL file
-   * Uses backward transformation when available
+   * Compute what a layer holds for the layers below it to read as the table's rows
    */
-  private async writeTable(tableName: string, options?: InternalSyncOptions): Promise<void> {
-    const tableConfig = this.tables.get(tableName);
-    if (!tableConfig) {
-      throw new Error(`Table ${tableName} not found`);
-    }
-
-    // Get all rows from the table. Order by rowid so the rows arrive in insertion order:
-    // without it SQLite may return them in any order, and matching rows to their existing
-    // line by position depends on that order being the one the file was read in.
-    const rows = this.query<JsonObject>(`SELECT * FROM ${this.quoteTableName(tableName)} ORDER BY rowid`);
-
-    // Deserialize JSON columns
-    const deserializedRows = rows.map((row) => this.deserializeRow(tableName, row));
-
-    // Apply backward transformation if available
-    const validationSchema = this.validationSchemas.get(tableName);
-    let finalRows = deserializedRows;
-
-    if (validationSchema && hasBackward(validationSchema)) {
-      const biSchema = validationSchema as BiDirectionalSchema<Table, Table>;
-      finalRows = deserializedRows.map((row) => biSchema.backward!(row) as JsonObject);
+  private async layerRows(
+    tableName: string,
+    rows: JsonObject[],
+    layer: TableLayer,
+    lowerLayers: TableLayer[],
+  ): Promise<JsonObject[]> {
+    const primaryKey = this.primaryKeyNames(tableName);
+    if (primaryKey.length === 0) {
+      throw new Error(
+        `Cannot write table '${tableName}' to layer '${layer.dataDir}': ` +
+          'a table without a primary key cannot override the rows of the layers below it',
+      );
     }
 
-    // An empty list means no field is written back, not that every field is
-    const fields = options?.fields ?? this.config.writeBackFields;
-    finalRows = await this.mergeWithExistingLines(tableName, tableConfig.jsonlPath, finalRows, {
-      fields,
-      strictFields: options?.strictFields ?? false,
-    });
-
-    // Write back to JSONL file
-    await JsonlWriter.write(tableConfig.jsonlPath, finalRows);
+    const layers = await Promise.all(
+      lowerLayers.map(async (layer) => ({ layer, rows: await this.readLayerRows(tableName, layer) })),
+    );
+    // A layer the table has no file in yet holds nothing
+    const existing = this.tables.get(tableName)!.layers!.includes(layer)
+      ? await this.readLayerRows(tableName, layer)
+      : [];
+    return layerDiff(rows, mergeLayers(layers, primaryKey).rows, primaryKey, existing);
   }
 
   /**
@@ -1592,7 +3883,7 @@ export class LinesDB<Tables extends TableDefs> {
    */
   private async mergeWithExistingLines(
     tableName: string,
-    jsonlPath: string,
+    config: TableConfig,
     rows: JsonObject[],
     options: { fields?: readonly string[]; strictFields: boolean },
   ): Promise<JsonObject[]> {
@@ -1610,7 +3901,7 @@ export class LinesDB<Tables extends TableDefs> {
       );
     }
 
-    const existingRows = await this.readExistingRows(jsonlPath);
+    const existingRows = await this.readExistingRows(tableName, config);
     // Without `fields` the rows are written whole, so matching them to their line only decides the
     // order: fall back to database order rather than failing when they cannot be matched
     const existing = this.matchExistingRows(tableName, rows, existingRows, { required: fields !== undefined });
@@ -1658,18 +3949,25 @@ export class LinesDB<Tables extends TableDefs> {
       return rows.map(() => undefined);
     }
 
-    const pkName = this.schemas.get(tableName)?.columns.find((col) => col.primaryKey)?.name;
-    const pkValues = pkName ? existingRows.map((row) => row[pkName]) : [];
+    // Identify a row by the values of all its primary key columns, or not at all when one is missing
+    const pkNames = this.primaryKeyNames(tableName);
+    const lineKey = (row: JsonObject): string | undefined => {
+      const values = pkNames.map((name) => row[name]);
+      return values.some((value) => value === undefined || value === null)
+        ? undefined
+        : JSON.stringify(values.map((value) => String(value)));
+    };
+    const pkValues = pkNames.length > 0 ? existingRows.map(lineKey) : [];
     const hasUsablePk =
-      pkName !== undefined &&
-      pkValues.every((value) => value !== undefined && value !== null) &&
-      new Set(pkValues.map((value) => String(value))).size === pkValues.length;
+      pkNames.length > 0 &&
+      pkValues.every((value) => value !== undefined) &&
+      new Set(pkValues).size === pkValues.length;
 
     if (hasUsablePk) {
-      const byPk = new Map(existingRows.map((row, index) => [String(pkValues[index]), row]));
+      const byPk = new Map(existingRows.map((row, index) => [pkValues[index], row]));
       return rows.map((row) => {
-        const pkValue = row[pkName!];
-        return pkValue === undefined || pkValue === null ? undefined : byPk.get(String(pkValue));
+        const pkValue = lineKey(row);
+        return pkValue === undefined ? undefined : byPk.get(pkValue);
       });
     }
 
@@ -1683,7 +3981,7 @@ export class LinesDB<Tables extends TableDefs> {
       throw new Error(
         `Cannot write back selected fields for table '${tableName}': ` +
           `the file has ${existingRows.length} row(s) but the table has ${rows.length}, and ` +
-          `${pkName ? `column '${pkName}' is not usable as a primary key in the file` : 'the table has no primary key'}, ` +
+          `${pkNames.length > 0 ? `primary key ${this.describeKey(pkNames)} is not usable in the file` : 'the table has no primary key'}, ` +
           `so rows cannot be matched to their existing lines.`,
       );
     }
@@ -1694,9 +3992,15 @@ export class LinesDB<Tables extends TableDefs> {
   /**
    * Read the rows a JSONL file currently holds, treating a missing file as empty
    */
-  private async readExistingRows(jsonlPath: string): Promise<JsonObject[]> {
+  private async readExistingRows(tableName: string, config: TableConfig): Promise<JsonObject[]> {
     try {
-      return await JsonlReader.read(jsonlPath);
+      if (config.layers) {
+        const layers = await Promise.all(
+          config.layers.map(async (layer) => ({ layer, rows: await this.readLayerRows(tableName, layer) })),
+        );
+        return mergeLayers(layers, this.primaryKeyNames(tableName)).rows;
+      }
+      return await this.readLayerRows(tableName, this.tableLayers(config)[0]);
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         return [];
@@ -1713,6 +4017,10 @@ export class LinesDB<Tables extends TableDefs> {
    */
   async sync(tableName?: string, options?: SyncOptions): Promise<void> {
     if (tableName) {
+      // A table a lazy initialize has not loaded is unchanged since its file was written
+      if (this.pendingTables.has(tableName)) {
+        return;
+      }
       // Sync only the specified table
       if (!this.schemas.has(tableName)) {
         throw new Error(`Table '${tableName}' is not loaded`);
@@ -1730,19 +4038,45 @@ export class LinesDB<Tables extends TableDefs> {
   /**
    * Execute a function within a transaction
    * Automatically commits on success or rolls back on error
+   * A transaction started through the `tx` of another runs in a savepoint: its failure rolls back only
+   * its own changes, and the tables are synced once the outermost transaction commits. Nested
+   * transactions must be awaited one at a time. Starting a transaction on the database while another
+   * runs throws, since it would otherwise end up inside a transaction it knows nothing about.
+   * A transaction started while watch mode reloads tables begins once they are loaded again.
    */
-  async transaction<T>(fn: (tx: LinesDB<Tables>) => Promise<T> | T): Promise<T> {
+  async transaction<T>(fn: (tx: LinesDB<Tables, Relations, PrimaryKeys>) => Promise<T> | T): Promise<T> {
+    while (this.reload) {
+      await this.reload.done;
+    }
     if (this.inTransaction) {
-      throw new Error('Nested transactions are not supported');
+      throw new Error(
+        'Another transaction is running: nest a transaction through the tx its function receives, ' +
+          'or wait for the running one to end',
+      );
     }
 
     this.db.exec('BEGIN TRANSACTION');
     this.inTransaction = true;
+    this.transactionId = ++this.transactionCount;
+    let settle!: () => void;
+    this.transactionEnd = new Promise((resolve) => (settle = resolve));
 
     try {
-      const result = await fn(this);
+      const result = await fn(this.transactionHandle(0));
+      this.checkNestedEnded(0);
       this.db.exec('COMMIT');
       this.inTransaction = false;
+      this.transactionId = null;
+      // Every table is written back below, the ones a cascade changed included
+      this.takeCascadedTables();
+
+      // Deliver the changes now that they are committed
+      const events = this.pendingEvents;
+      this.pendingEvents = [];
+      this.rollbackActions = [];
+      for (const deliver of events) {
+        deliver();
+      }
 
       // Sync all tables after successful commit
       await this.sync();
@@ -1753,10 +4087,92 @@ export class LinesDB<Tables extends TableDefs> {
         this.db.exec('ROLLBACK');
       }
       this.inTransaction = false;
+      this.transactionId = null;
+      this.pendingEvents = [];
+      this.undoRolledBack(0);
+      throw error;
+    } finally {
+      this.savepoints = [];
+      settle();
+    }
+  }
+
+  /**
+   * The database as the function of a transaction receives it, whose `transaction()` runs in a savepoint
+   * of that transaction rather than starting one of its own
+   * @param depth - How many savepoints are open around the function
+   */
+  private transactionHandle(depth: number): LinesDB<Tables, Relations, PrimaryKeys> {
+    const transactionId = this.transactionId;
+    return new Proxy(this, {
+      get: (target, property) => {
+        if (property === 'transaction') {
+          return <T>(fn: (tx: LinesDB<Tables, Relations, PrimaryKeys>) => Promise<T> | T) =>
+            target.savepoint(fn, transactionId, depth);
+        }
+        const value: unknown = Reflect.get(target, property, target);
+        return typeof value === 'function' ? (value as (...args: unknown[]) => unknown).bind(target) : value;
+      },
+    });
+  }
+
+  /**
+   * Execute a function within a savepoint of the running transaction
+   * Releases it on success, or rolls back to it on error so the rest of the transaction is kept
+   * @param transactionId - The transaction the savepoint is started in
+   * @param depth - How many savepoints are open around it, none of which may have another one open
+   */
+  private async savepoint<T>(
+    fn: (tx: LinesDB<Tables, Relations, PrimaryKeys>) => Promise<T> | T,
+    transactionId: number | null,
+    depth: number,
+  ): Promise<T> {
+    if (this.transactionId !== transactionId || this.savepoints.length !== depth) {
+      throw new Error(
+        'Cannot start a nested transaction: the transaction around it has ended, or another transaction ' +
+          'nested in it is still running. Await each nested transaction before starting the next.',
+      );
+    }
+    const name = this.quoteIdentifier(`lines_db_savepoint_${++this.savepointCount}`);
+    this.db.exec(`SAVEPOINT ${name}`);
+    this.savepoints.push(name);
+    const eventCount = this.pendingEvents.length;
+    const actionCount = this.rollbackActions.length;
+
+    try {
+      const result = await fn(this.transactionHandle(depth + 1));
+      if (this.savepoints[depth] !== name) {
+        throw new Error('The transaction around a nested transaction ended before it did: await it');
+      }
+      this.checkNestedEnded(depth + 1);
+      this.db.exec(`RELEASE ${name}`);
+      this.savepoints.pop();
+      return result;
+    } catch (error) {
+      // The savepoint is gone when the transaction around it ended or rolled back to a savepoint around it
+      if (this.savepoints[depth] === name) {
+        // Rolling back to a savepoint keeps it open, so it is released afterwards as well
+        this.db.exec(`ROLLBACK TO ${name}`);
+        this.db.exec(`RELEASE ${name}`);
+        this.savepoints.length = depth;
+        // The changes rolled back never happened, so neither do their events
+        this.pendingEvents.length = eventCount;
+        this.undoRolledBack(actionCount);
+      }
       throw error;
     }
   }
 
+  /**
+   * Check that the transactions nested in one about to end have ended
+   * @param depth - How many savepoints are open around the ending transaction's function
+   */
+  private checkNestedEnded(depth: number): void {
+    if (this.savepoints.length !== depth) {
+      throw new Error('A nested transaction was still running as the transaction around it ended: await it');
+    }
+  }
+
   /**
    * Wait for every queued sync to finish, so a fire-and-forget auto-sync is not dropped
    */
@@ -1774,10 +4190,329 @@ export class LinesDB<Tables extends TableDefs> {
     }
   }
 
+  /**
+   * Subscribe to changes: `insert`, `update` and `delete` receive the rows a call changed, keyed by
+   * primary key, and `sync` each table written back to its file. Changes made inside `transaction()`
+   * are delivered once it commits, and never if it rolls back.
+   * @returns A function that unsubscribes the handler
+   */
+  on<E extends keyof LinesDBEvents<Tables>>(event: E, handler: (event: LinesDBEvents<Tables>[E]) => void): () => void {
+    const handlers = this.listeners.get(event) ?? new Set();
+    handlers.add(handler);
+    this.listeners.set(event, handlers);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribe a handler passed to {@link LinesDB.on}
+   */
+  off<E extends keyof LinesDBEvents<Tables>>(event: E, handler: (event: LinesDBEvents<Tables>[E]) => void): void {
+    this.listeners.get(event)?.delete(handler);
+  }
+
+  private hasListeners(event: keyof LinesDBEvents<Tables>): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Call the handlers of an event. A handler that throws is reported and does not keep the others
+   * from running, since the change it reacts to has already been made.
+   */
+  private emit<E extends keyof LinesDBEvents<Tables>>(event: E, payload: LinesDBEvents<Tables>[E]): void {
+    for (const handler of this.listeners.get(event) ?? []) {
+      try {
+        (handler as (event: LinesDBEvents<Tables>[E]) => void)(payload);
+      } catch (err) {
+        console.error(`Failed to handle ${event} event for table ${payload.table}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Emit the rows a mutation changed - once the running transaction commits, if there is one
+   */
+  private emitChange(event: 'insert' | 'update' | 'delete', tableName: string, changes: RowChange<Table>[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const payload = {
+      table: tableName,
+      changes,
+      transactionId: this.transactionId,
+    } as LinesDBEvents<Tables>[typeof event];
+    if (this.inTransaction) {
+      this.pendingEvents.push(() => this.emit(event, payload));
+    } else {
+      this.emit(event, payload);
+    }
+  }
+
+  /**
+   * Identify a key the way SQLite compares it, so `true` and `1` or `1` and `1n` are the same key
+   */
+  private keyId(key: unknown): string {
+    if (Array.isArray(key)) {
+      return JSON.stringify(key.map((value) => this.keyId(value)));
+    }
+    const value = this.normalizeValue(key);
+    return typeof value === 'bigint' ? String(value) : JSON.stringify(value);
+  }
+
+  /**
+   * Read the rows matching a WHERE clause for an event, keyed by primary key - or by rowid in a table
+   * without one
+   */
+  private selectRowsForEvent(
+    tableName: string,
+    whereSql: string,
+    whereValues: Array<string | number | bigint | null | Uint8Array>,
+  ): Map<string, { key: unknown; row: Table }> {
+    const pkNames = this.primaryKeyNames(tableName);
+    const rowidColumn = this.quoteIdentifier('__lines_db_rowid');
+    const rows = this.query<Table>(
+      `SELECT rowid AS ${rowidColumn}, * FROM ${this.quoteTableName(tableName)} WHERE ${whereSql}`,
+      whereValues,
+    );
+
+    const selected = new Map<string, { key: unknown; row: Table }>();
+    for (const { __lines_db_rowid: rowid, ...rawRow } of rows) {
+      const row = this.deserializeRow(tableName, rawRow);
+      const key = pkNames.length === 0 ? rowid : this.recordKey(pkNames, row);
+      selected.set(this.keyId(key), { key, row });
+    }
+    return selected;
+  }
+
+  /**
+   * Read the rows with the given keys for an event, as {@link selectRowsForEvent} keys them
+   */
+  private selectRowsByKeys(tableName: string, keys: unknown[]): Map<string, { key: unknown; row: Table }> {
+    const pkNames = this.primaryKeyNames(tableName);
+    const keyColumns = pkNames.length === 0 ? ['rowid'] : pkNames;
+    const selected = new Map<string, { key: unknown; row: Table }>();
+
+    // Stay under SQLite's parameter limit (999), as insertData does
+    const batchSize = Math.floor(900 / keyColumns.length);
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const { sql, values } = this.keyCondition(keyColumns, keys.slice(i, i + batchSize));
+      const rows = this.selectRowsForEvent(tableName, sql, values);
+      for (const [id, row] of rows) {
+        selected.set(id, row);
+      }
+    }
+    return selected;
+  }
+
+  /**
+   * The changes of rows just inserted, found by the rowids the inserts returned
+   */
+  private insertedChanges(tableName: string, rowids: Array<number | bigint>): RowChange<Table>[] {
+    const changes: RowChange<Table>[] = [];
+    for (let i = 0; i < rowids.length; i += 900) {
+      const batch = rowids.slice(i, i + 900);
+      const rows = this.selectRowsForEvent(tableName, `rowid IN (${batch.map(() => '?').join(', ')})`, batch);
+      for (const { key, row } of rows.values()) {
+        changes.push({ key, before: null, after: row });
+      }
+    }
+    return changes;
+  }
+
+  private deletedChanges(before: Map<string, { key: unknown; row: Table }>): RowChange<Table>[] {
+    return Array.from(before.values(), ({ key, row }) => ({ key, before: row, after: null }));
+  }
+
+  /**
+   * Watch the data directory and reload tables whose JSONL or schema files change on disk.
+   * The tables that reference a reloaded table are reloaded with it, so their foreign keys are
+   * checked against the new rows. Files written by this database's own sync are not reloaded.
+   * Close the watcher, or the database, to stop watching.
+   */
+  watch(options?: WatchOptions): LinesDBWatcher {
+    const watcher = new LinesDBWatcher(
+      this.dataDirs(),
+      {
+        reload: (tableNames) => this.reloadTables(tableNames),
+        tableNameOf: (fileName) =>
+          this.directoryTableOf(fileName) ?? DirectoryScanner.tableNameOf(fileName, this.config.namespaceSeparator),
+        isOwnWrite: (filePath, tableName) => this.isOwnWrite(filePath, tableName),
+        onClose: () => {
+          this.watchers.delete(watcher);
+          if (this.watchers.size === 0) {
+            this.ownWrites.clear();
+          }
+        },
+      },
+      options,
+    );
+    this.watchers.add(watcher);
+    return watcher;
+  }
+
+  /**
+   * Name the table whose directory of shards or records, or whose numbered shards, hold a file, which its
+   * path alone does not tell. Other files there, such as the temporary files of a sync, belong to no table.
+   * @param fileName - Path of the file relative to the data directory
+   */
+  private directoryTableOf(fileName: string): string | null {
+    for (const [tableName, config] of this.tables) {
+      for (const { dataDir, jsonlPath, shards, recordDir } of this.tableLayers(config)) {
+        const shardDir = shards && dirname(shards[0]);
+        const numbered = shardDir === dirname(jsonlPath);
+        const tableDir = recordDir ?? shardDir;
+        const holdsRows = recordDir
+          ? isRecordFile(basename(fileName))
+          : numbered
+            ? shardBaseNameOf(fileName) === tableFileBaseName(jsonlPath)
+            : tableFileBaseName(fileName) !== null;
+        if (
+          tableDir &&
+          holdsRows &&
+          (relative(config.layers ? dataDir : this.dataDirs()[0], tableDir) || '.') === dirname(fileName)
+        ) {
+          return tableName;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check whether a table's JSONL file holds what a sync of this database last wrote
+   */
+  private async isOwnWrite(filePath: string, tableName: string): Promise<boolean> {
+    // The write may still be in progress: wait for it before comparing
+    await this.syncQueue.get(tableName);
+
+    const written = this.ownWrites.get(filePath);
+    if (written === undefined) {
+      return false;
+    }
+    try {
+      return (await this.hashFile(filePath)) === written;
+    } catch {
+      // The file is gone, which only a sync deleting a record does
+      return written === null;
+    }
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    return createHash('sha256')
+      .update(await readFile(filePath))
+      .digest('hex');
+  }
+
+  /**
+   * Load tables again from their files, along with every table that references them.
+   * A table whose file was removed is dropped.
+   */
+  private async reloadTables(changedTables: string[]): Promise<WatchReloadEvent> {
+    // Rows of a running transaction or a pending sync are not in the files yet
+    await this.waitForIdle();
+
+    const scanned = await DirectoryScanner.scanDirectory(this.config.dataDir, {
+      namespaceSeparator: this.config.namespaceSeparator,
+    });
+
+    // A table a lazy initialize has not loaded reads its file once it is used: only its schema is
+    // read again
+    const pendingTables = changedTables.filter((name) => this.pendingTables.has(name));
+    for (const name of pendingTables) {
+      const { options } = this.pendingTables.get(name)!;
+      this.pendingTables.delete(name);
+      const tableConfig = scanned.get(name);
+      if (tableConfig) {
+        this.tables.set(name, tableConfig);
+        await this.preloadTable(name, tableConfig, options);
+      } else {
+        this.tables.delete(name);
+        this.validationSchemas.delete(name);
+      }
+    }
+
+    const tables = changedTables.filter(
+      (name) => !pendingTables.includes(name) && (scanned.has(name) || this.schemas.has(name)),
+    );
+
+    // Tables referencing a reloaded table follow it, the ones referencing those after them
+    for (let i = 0; i < tables.length; i++) {
+      for (const [name, schema] of this.schemas) {
+        if (!tables.includes(name) && schema.foreignKeys?.some((fk) => fk.references.table === tables[i])) {
+          tables.push(name);
+        }
+      }
+    }
+
+    // A transaction or sync may have started while the directory was read. From here on, the tables
+    // are dropped without a break, and transactions and calls using them wait or throw until they
+    // are loaded again.
+    await this.waitForIdle();
+    let done!: () => void;
+    this.reload = { tables: new Set(tables), done: new Promise((resolve) => (done = resolve)) };
+
+    try {
+      return { tables, result: await this.dropAndLoadTables(tables, scanned) };
+    } finally {
+      this.reload = null;
+      done();
+    }
+  }
+
+  /**
+   * Wait until no transaction runs and no sync is queued
+   */
+  private async waitForIdle(): Promise<void> {
+    for (;;) {
+      while (this.inTransaction) {
+        await this.transactionEnd;
+      }
+      const queued = new Set(this.syncQueue.values());
+      await this.waitForPendingSyncs();
+      if (!this.inTransaction && Array.from(this.syncQueue.values()).every((promise) => queued.has(promise))) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Drop the tables a reload reads again and load the ones still in the data directory
+   */
+  private async dropAndLoadTables(tables: string[], scanned: Map<string, TableConfig>): Promise<ValidationResult> {
+    // Dropping a table other tables reference would otherwise have SQLite check their rows
+    this.db.exec('PRAGMA foreign_keys = OFF');
+    try {
+      for (const name of tables) {
+        this.db.exec(`DROP TABLE IF EXISTS ${this.quoteTableName(name)}`);
+        this.cache?.forget(name);
+        this.schemas.delete(name);
+        this.validationSchemas.delete(name);
+        this.keyOrders.delete(name);
+        this.baselines.delete(name);
+
+        const tableConfig = scanned.get(name);
+        if (tableConfig) {
+          this.tables.set(name, tableConfig);
+        } else {
+          this.tables.delete(name);
+        }
+      }
+    } finally {
+      this.db.exec('PRAGMA foreign_keys = ON');
+    }
+
+    return this.loadTables(
+      tables.filter((name) => scanned.has(name)),
+      { detailedValidate: true },
+      this.schemas.keys(),
+    );
+  }
+
   /**
    * Close the database connection
    */
   async close(): Promise<void> {
+    await Promise.all(Array.from(this.watchers, (watcher) => watcher.close()));
     await this.waitForPendingSyncs();
 
     try {
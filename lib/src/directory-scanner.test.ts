@@ -50,6 +50,123 @@ describe('DirectoryScanner', () => {
       expect(tables.has('users')).toBe(true);
     });
 
+    it('should find CSV and TSV files', async () => {
+      await writeFile(join(testDir, 'users.csv'), 'id,name\n1,Alice\n');
+      await writeFile(join(testDir, 'tags.tsv'), 'id\tlabel\n1\tnews\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.get('users')?.jsonlPath).toBe(join(testDir, 'users.csv'));
+      expect(tables.get('tags')?.jsonlPath).toBe(join(testDir, 'tags.tsv'));
+    });
+
+    it('should throw error when a JSONL and a CSV file hold the same table', async () => {
+      await writeFile(join(testDir, 'users.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'users.csv'), 'id\n1\n');
+
+      await expect(DirectoryScanner.scanDirectory(testDir)).rejects.toThrow("hold table 'users'");
+    });
+
+    it('should find gzip-compressed JSONL files', async () => {
+      await writeFile(join(testDir, 'events.jsonl.gz'), '');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.get('events')?.jsonlPath).toBe(join(testDir, 'events.jsonl.gz'));
+    });
+
+    it('should gather numbered files into one sharded table', async () => {
+      await writeFile(join(testDir, 'events.010.jsonl'), '{"id":3}\n');
+      await writeFile(join(testDir, 'events.002.jsonl.gz'), '');
+      await writeFile(join(testDir, 'events.9.jsonl'), '{"id":2}\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.get('events')).toEqual({
+        jsonlPath: join(testDir, 'events.jsonl.gz'),
+        shards: [
+          join(testDir, 'events.002.jsonl.gz'),
+          join(testDir, 'events.9.jsonl'),
+          join(testDir, 'events.010.jsonl'),
+        ],
+        autoInferSchema: true,
+      });
+    });
+
+    it('should read a single numbered file as a table of its own', async () => {
+      await writeFile(join(testDir, 'report.2024.jsonl'), '{"id":1}\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.get('report.2024')).toEqual({
+        jsonlPath: join(testDir, 'report.2024.jsonl'),
+        autoInferSchema: true,
+      });
+    });
+
+    it('should read a single numbered file with a schema file beside it as a shard', async () => {
+      await writeFile(join(testDir, 'events.001.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'events.schema.ts'), 'export const schema = {};\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.get('events')).toEqual({
+        jsonlPath: join(testDir, 'events.jsonl'),
+        shards: [join(testDir, 'events.001.jsonl')],
+        autoInferSchema: true,
+      });
+    });
+
+    it('should read a directory with a schema file beside it as the shards of one table', async () => {
+      await mkdir(join(testDir, 'events'));
+      await writeFile(join(testDir, 'events', '2024.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'events', '2025.jsonl'), '{"id":2}\n');
+      await writeFile(join(testDir, 'events.schema.ts'), 'export const schema = {};\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(Array.from(tables.keys())).toEqual(['events']);
+      expect(tables.get('events')).toEqual({
+        jsonlPath: join(testDir, 'events.jsonl'),
+        shards: [join(testDir, 'events', '2024.jsonl'), join(testDir, 'events', '2025.jsonl')],
+        autoInferSchema: true,
+      });
+    });
+
+    it('should read a directory of JSON files as a table of records', async () => {
+      await mkdir(join(testDir, 'content', 'articles'), { recursive: true });
+      await writeFile(join(testDir, 'content', 'articles', 'hello.json'), '{"slug":"hello"}\n');
+      await writeFile(
+        join(testDir, 'content', 'articles.schema.ts'),
+        "export const schema = { primaryKey: 'slug' };\n",
+      );
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.get('content.articles')).toEqual({
+        jsonlPath: join(testDir, 'content', 'articles.jsonl'),
+        recordDir: join(testDir, 'content', 'articles'),
+        autoInferSchema: true,
+      });
+    });
+
+    it('should not read a directory of JSON files without a schema file as a table', async () => {
+      await mkdir(join(testDir, 'config'));
+      await writeFile(join(testDir, 'config', 'settings.json'), '{"theme":"dark"}\n');
+      await writeFile(join(testDir, 'users.jsonl'), '{"id":1}\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(Array.from(tables.keys())).toEqual(['users']);
+    });
+
+    it('should throw error when a table is both a file and shards', async () => {
+      await writeFile(join(testDir, 'events.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'events.001.jsonl'), '{"id":2}\n');
+
+      await expect(DirectoryScanner.scanDirectory(testDir)).rejects.toThrow("hold table 'events'");
+    });
+
     it('should handle empty directory', async () => {
       const tables = await DirectoryScanner.scanDirectory(testDir);
 
@@ -85,5 +202,54 @@ describe('DirectoryScanner', () => {
       expect(tables.size).toBe(1);
       expect(tables.has('test.backup')).toBe(true);
     });
+
+    it('should namespace JSONL files in subdirectories', async () => {
+      await mkdir(join(testDir, 'admin', 'audit'), { recursive: true });
+      await writeFile(join(testDir, 'users.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'admin', 'audit', 'logs.jsonl'), '{"id":1}\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(Array.from(tables.keys()).sort()).toEqual(['admin.audit.logs', 'admin.users', 'users']);
+      expect(tables.get('admin.users')?.jsonlPath).toBe(join(testDir, 'admin', 'users.jsonl'));
+    });
+
+    it('should join namespaces with a configured separator', async () => {
+      await mkdir(join(testDir, 'admin'));
+      await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1}\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir, { namespaceSeparator: '__' });
+
+      expect(Array.from(tables.keys())).toEqual(['admin__users']);
+    });
+
+    it('should skip hidden directories and node_modules', async () => {
+      await mkdir(join(testDir, '.cache'));
+      await mkdir(join(testDir, 'node_modules'));
+      await writeFile(join(testDir, '.cache', 'users.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'node_modules', 'users.jsonl'), '{"id":1}\n');
+
+      const tables = await DirectoryScanner.scanDirectory(testDir);
+
+      expect(tables.size).toBe(0);
+    });
+
+    it('should throw error when two files hold the same table', async () => {
+      await mkdir(join(testDir, 'admin'));
+      await writeFile(join(testDir, 'admin.users.jsonl'), '{"id":1}\n');
+      await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1}\n');
+
+      await expect(DirectoryScanner.scanDirectory(testDir)).rejects.toThrow("hold table 'admin.users'");
+    });
+  });
+
+  describe('tableNameOf', () => {
+    it('should name the table of a JSONL or schema file', () => {
+      expect(DirectoryScanner.tableNameOf('users.jsonl')).toBe('users');
+      expect(DirectoryScanner.tableNameOf(join('admin', 'users.schema.ts'))).toBe('admin.users');
+      expect(DirectoryScanner.tableNameOf(join('admin', 'users.jsonl'), '/')).toBe('admin/users');
+      expect(DirectoryScanner.tableNameOf('readme.txt')).toBeNull();
+    });
   });
 });
@@ -1,36 +1,259 @@
 import { readdir } from 'node:fs/promises';
-import { join, basename, extname } from 'node:path';
-import type { TableConfig } from './types.js';
+import { join, basename, dirname } from 'node:path';
+import { extractTableNameFromSchemaFile } from './schema-extensions.js';
+import { isRecordFile } from './record-directory.js';
+import type { TableConfig, TableLayer } from './types.js';
+
+/**
+ * The separator joining the directories a JSONL file is in to its table name: `admin/users.jsonl`
+ * holds table `admin.users`
+ */
+export const DEFAULT_NAMESPACE_SEPARATOR = '.';
+
+/**
+ * The extensions of the files tables are read from: JSONL, gzip-compressed JSONL, and CSV or TSV with a
+ * header row
+ */
+export const TABLE_FILE_EXTENSIONS = ['.jsonl', '.jsonl.gz', '.csv', '.tsv'] as const;
+
+/**
+ * A table file numbered after its table's name, such as `events.002.jsonl`, may hold one shard of it
+ */
+const SHARD_SUFFIX = /^(.+)\.\d+$/;
+
+/**
+ * Strip the extension from the name of a table's file, or return null for a file that holds no table
+ */
+export function tableFileBaseName(fileName: string): string | null {
+  const name = basename(fileName);
+  const extension = TABLE_FILE_EXTENSIONS.find((candidate) => name.endsWith(candidate));
+  return extension && name.length > extension.length ? name.slice(0, -extension.length) : null;
+}
+
+/**
+ * The base name of the table a numbered file such as `events.002.jsonl` would be a shard of, or null for
+ * a file that is not numbered
+ */
+export function shardBaseNameOf(fileName: string): string | null {
+  const baseName = tableFileBaseName(fileName);
+  return baseName === null ? null : (SHARD_SUFFIX.exec(baseName)?.[1] ?? null);
+}
+
+/**
+ * The base name of the table a file holds rows of. A numbered file such as `events.002.jsonl` is a shard
+ * of `events` when the files beside it hold another numbered file, a table file or a schema file of
+ * `events`; alone, `report.2024.jsonl` is table `report.2024`. Null for a file that holds no table.
+ *
+ * @param fileName - The name of the file
+ * @param siblings - The names of the files in its directory
+ */
+export function tableBaseNameOf(fileName: string, siblings: readonly string[]): string | null {
+  const baseName = tableFileBaseName(fileName);
+  const shardOf = shardBaseNameOf(fileName);
+  if (baseName === null || shardOf === null) {
+    return baseName;
+  }
+
+  const isShard = siblings.some((sibling) => {
+    const name = basename(sibling);
+    return (
+      name !== basename(fileName) &&
+      (shardBaseNameOf(name) === shardOf ||
+        tableFileBaseName(name) === shardOf ||
+        extractTableNameFromSchemaFile(name) === shardOf)
+    );
+  });
+  return isShard ? shardOf : baseName;
+}
+
+/**
+ * Whether a subdirectory holds the files of one table rather than the tables of a namespace: a schema
+ * file named after it sits beside it, and no table file of that name does
+ */
+export function isShardDirectory(name: string, entries: Array<{ isFile(): boolean; name: string }>): boolean {
+  const names = entries.map((entry) => entry.name);
+  const isTableSchema = (entry: { name: string }) => extractTableNameFromSchemaFile(entry.name) === name;
+  const isTableFile = (entry: { name: string }) => tableBaseNameOf(entry.name, names) === name;
+  return entries.some((entry) => entry.isFile() && isTableSchema(entry) && !entries.some(isTableFile));
+}
+
+/**
+ * Whether a subdirectory holds one `<primary key>.json` file per row of a table rather than shards: it
+ * has a schema file beside it as a directory of shards does, and holds `.json` files but no table files
+ *
+ * @param name - The name of the subdirectory
+ * @param entries - The entries of the directory it is in
+ * @param subdirEntries - The entries of the subdirectory
+ */
+export function isRecordDirectory(
+  name: string,
+  entries: Array<{ isFile(): boolean; name: string }>,
+  subdirEntries: Array<{ isFile(): boolean; name: string }>,
+): boolean {
+  const files = subdirEntries.filter((entry) => entry.isFile());
+  return (
+    isShardDirectory(name, entries) &&
+    files.some((entry) => isRecordFile(entry.name)) &&
+    !files.some((entry) => tableFileBaseName(entry.name) !== null)
+  );
+}
+
+/**
+ * Order the shards of a table by their numbers, or their names
+ */
+export function compareShards(a: string, b: string): number {
+  return basename(a).localeCompare(basename(b), undefined, { numeric: true });
+}
+
+export interface ScanOptions {
+  /** Joins the subdirectories a JSONL file is in to its table name. Defaults to `.` */
+  namespaceSeparator?: string;
+}
 
 export class DirectoryScanner {
   /**
-   * Scan directory for JSONL files and create table configurations
+   * Scan directory and its subdirectories for JSONL, CSV and TSV files and create table configurations.
+   * A file in a subdirectory is namespaced by the directories it is in, e.g. `admin/users.jsonl`
+   * becomes table `admin.users`. Hidden directories and `node_modules` are skipped.
+   *
+   * Numbered files such as `events.001.jsonl` and `events.002.jsonl` are the shards of one table
+   * `events`, as is a single numbered file with a schema file of `events` beside it, and so are the files in a directory `events/` that has a schema file beside it. A directory
+   * `articles/` with a schema file beside it, holding `<primary key>.json` files and no table files, is
+   * table `articles`, one row per file.
+   *
+   * Given a list of layered directories, a table is made of its files in every layer, lowest first.
    */
-  static async scanDirectory(dataDir: string): Promise<Map<string, TableConfig>> {
+  static async scanDirectory(
+    dataDir: string | readonly string[],
+    options: ScanOptions = {},
+  ): Promise<Map<string, TableConfig>> {
+    const separator = options.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR;
     const tables = new Map<string, TableConfig>();
 
-    try {
-      const files = await readdir(dataDir);
+    for (const layerDir of typeof dataDir === 'string' ? [dataDir] : dataDir) {
+      const layerTables = new Map<string, TableConfig>();
+      try {
+        await this.scanInto(layerTables, layerDir, [], separator);
+      } catch (error) {
+        throw new Error(
+          `Failed to scan directory ${layerDir}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+
+      for (const [tableName, config] of layerTables) {
+        const layer: TableLayer = { dataDir: layerDir, jsonlPath: config.jsonlPath };
+        if (config.shards) {
+          layer.shards = config.shards;
+        }
+        if (config.recordDir) {
+          layer.recordDir = config.recordDir;
+        }
+        const existing = tables.get(tableName);
+        if (existing) {
+          existing.layers!.push(layer);
+        } else {
+          tables.set(
+            tableName,
+            typeof dataDir === 'string'
+              ? config
+              : { jsonlPath: config.jsonlPath, autoInferSchema: config.autoInferSchema, layers: [layer] },
+          );
+        }
+      }
+    }
 
-      for (const file of files) {
-        if (extname(file) === '.jsonl') {
-          const tableName = basename(file, '.jsonl');
-          const jsonlPath = join(dataDir, file);
+    if (tables.size === 0) {
+      console.warn(
+        `Warning: No JSONL, CSV or TSV files found in directory: ${typeof dataDir === 'string' ? dataDir : dataDir.join(', ')}`,
+      );
+    }
 
-          tables.set(tableName, {
-            jsonlPath,
-            autoInferSchema: true,
+    return tables;
+  }
+
+  /**
+   * Name the table a JSONL, CSV, TSV or schema file in the data directory belongs to. A numbered file
+   * is named as a table of its own, since which shards sit beside it is not known here.
+   * @param fileName - Path of the file relative to the data directory
+   * @returns The table name, or null for a file that belongs to no table
+   */
+  static tableNameOf(fileName: string, namespaceSeparator: string = DEFAULT_NAMESPACE_SEPARATOR): string | null {
+    const name = basename(fileName);
+    const baseName = tableFileBaseName(name) ?? extractTableNameFromSchemaFile(name);
+    if (baseName === null) {
+      return null;
+    }
+
+    const namespace = dirname(fileName)
+      .split(/[\\/]/)
+      .filter((segment) => segment !== '' && segment !== '.');
+    return [...namespace, baseName].join(namespaceSeparator);
+  }
+
+  private static async scanInto(
+    tables: Map<string, TableConfig>,
+    dir: string,
+    namespace: string[],
+    separator: string,
+  ): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const names = entries.map((entry) => entry.name);
+    const shards = new Map<string, string[]>();
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+          continue;
+        }
+        const subdirEntries = await readdir(join(dir, entry.name), { withFileTypes: true });
+        if (isRecordDirectory(entry.name, entries, subdirEntries)) {
+          // The schema file sits beside the path the directory is named after
+          this.addTable(tables, [...namespace, entry.name].join(separator), {
+            jsonlPath: join(dir, `${entry.name}.jsonl`),
+            recordDir: join(dir, entry.name),
           });
+        } else if (isShardDirectory(entry.name, entries)) {
+          const files = subdirEntries
+            .filter((shard) => shard.isFile() && tableFileBaseName(shard.name) !== null)
+            .map((shard) => join(dir, entry.name, shard.name));
+          if (files.length > 0) {
+            shards.set(entry.name, files);
+          }
+        } else {
+          await this.scanInto(tables, join(dir, entry.name), [...namespace, entry.name], separator);
         }
+      } else if (tableFileBaseName(entry.name) !== null) {
+        const baseName = tableBaseNameOf(entry.name, names)!;
+        if (baseName !== tableFileBaseName(entry.name)) {
+          shards.set(baseName, [...(shards.get(baseName) ?? []), join(dir, entry.name)]);
+          continue;
+        }
+        this.addTable(tables, [...namespace, baseName].join(separator), { jsonlPath: join(dir, entry.name) });
       }
+    }
 
-      if (tables.size === 0) {
-        console.warn(`Warning: No JSONL files found in directory: ${dataDir}`);
-      }
+    for (const [baseName, files] of shards) {
+      files.sort(compareShards);
+      // The schema file sits beside the path the shards are named after
+      const extension = TABLE_FILE_EXTENSIONS.find((candidate) => files[0].endsWith(candidate))!;
+      this.addTable(tables, [...namespace, baseName].join(separator), {
+        jsonlPath: join(dir, `${baseName}${extension}`),
+        shards: files,
+      });
+    }
+  }
 
-      return tables;
-    } catch (error) {
-      throw new Error(`Failed to scan directory ${dataDir}: ${error instanceof Error ? error.message : String(error)}`);
+  private static addTable(
+    tables: Map<string, TableConfig>,
+    tableName: string,
+    files: Pick<TableConfig, 'jsonlPath' | 'shards' | 'recordDir'>,
+  ): void {
+    const existing = tables.get(tableName);
+    if (existing) {
+      const describe = (config: Pick<TableConfig, 'jsonlPath' | 'shards' | 'recordDir'>) =>
+        config.recordDir ?? config.shards?.[0] ?? config.jsonlPath;
+      throw new Error(`Both ${describe(existing)} and ${describe(files)} hold table '${tableName}'`);
     }
+    tables.set(tableName, { ...files, autoInferSchema: true });
   }
 }
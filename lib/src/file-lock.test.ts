@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FileLock, lockPathOf, writeFileAtomic } from './file-lock.js';
+import { createHash } from 'node:crypto';
+import { writeFile, readFile, readdir, mkdir, rm, chmod, stat } from 'node:fs/promises';
+import { spawnSync } from 'node:child_process';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+// Runs before a file is renamed, to act as another process taking a lock over at that moment
+const beforeRename = vi.hoisted(() => ({ hook: undefined as (() => Promise<void>) | undefined }));
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const fs = await importOriginal<typeof import('node:fs/promises')>();
+  return {
+    ...fs,
+    rename: async (...args: Parameters<typeof fs.rename>) => {
+      await beforeRename.hook?.();
+      return fs.rename(...args);
+    },
+  };
+});
+
+describe('FileLock', () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `file-lock-test-${Date.now()}`);
+    filePath = join(testDir, 'users.jsonl');
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    beforeRename.hook = undefined;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('acquire', () => {
+    it('should hold a lock file naming the process until released', async () => {
+      const lock = await FileLock.acquire(filePath);
+
+      expect(lock.path).toBe(lockPathOf(filePath));
+      expect(await readFile(lock.path, 'utf-8')).toBe(`${process.pid}\n`);
+
+      await lock.release();
+      expect(await readdir(testDir)).toEqual([]);
+    });
+
+    it('should fail with the holder of the lock once the timeout has passed', async () => {
+      const lock = await FileLock.acquire(filePath);
+
+      await expect(FileLock.acquire(filePath, { timeout: 0 })).rejects.toThrow(
+        `Cannot write ${filePath}: process ${process.pid} holds its lock file ${lockPathOf(filePath)}.`,
+      );
+
+      await lock.release();
+    });
+
+    it('should wait for the lock to be released', async () => {
+      const lock = await FileLock.acquire(filePath);
+      setTimeout(() => void lock.release(), 100);
+
+      const next = await FileLock.acquire(filePath, { timeout: 2000 });
+
+      expect(await readFile(next.path, 'utf-8')).toBe(`${process.pid}\n`);
+      await next.release();
+    });
+
+    it('should take over a lock file left behind by a process that is gone', async () => {
+      const { pid } = spawnSync(process.execPath, ['-e', '']);
+      await writeFile(lockPathOf(filePath), `${pid}\n`);
+
+      const lock = await FileLock.acquire(filePath, { timeout: 0 });
+
+      expect(await readFile(lock.path, 'utf-8')).toBe(`${process.pid}\n`);
+      await lock.release();
+    });
+
+    it('should leave a lock file alone that another process took over after it was found left behind', async () => {
+      const { pid } = spawnSync(process.execPath, ['-e', '']);
+      await writeFile(lockPathOf(filePath), `${pid}\n`);
+      beforeRename.hook = async () => {
+        beforeRename.hook = undefined;
+        await writeFile(lockPathOf(filePath), `${process.ppid}\n`);
+      };
+
+      await expect(FileLock.acquire(filePath, { timeout: 0 })).rejects.toThrow(
+        `process ${process.ppid} holds its lock file`,
+      );
+
+      expect(await readdir(testDir)).toEqual(['users.jsonl.lock']);
+      expect(await readFile(lockPathOf(filePath), 'utf-8')).toBe(`${process.ppid}\n`);
+    });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file, keeping its permissions and leaving no temporary file', async () => {
+      await writeFile(filePath, 'before\n');
+      await chmod(filePath, 0o640);
+
+      const hash = await writeFileAtomic(filePath, 'after\n');
+
+      expect(hash).toBe(createHash('sha256').update('after\n').digest('hex'));
+      expect(await readFile(filePath, 'utf-8')).toBe('after\n');
+      expect((await stat(filePath)).mode & 0o777).toBe(0o640);
+      expect(await readdir(testDir)).toEqual(['users.jsonl']);
+    });
+
+    it('should remove the temporary file when the file cannot be replaced', async () => {
+      // A directory cannot be renamed over
+      await mkdir(filePath);
+
+      await expect(writeFileAtomic(filePath, 'after\n')).rejects.toThrow();
+
+      expect(await readdir(testDir)).toEqual(['users.jsonl']);
+    });
+  });
+});
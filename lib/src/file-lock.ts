@@ -0,0 +1,173 @@
+import { createHash } from 'node:crypto';
+import { chmod, link, mkdir, open, readFile, rename, rm, stat } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+
+/**
+ * How long to wait for another process to release a table's lock file before giving up, in milliseconds
+ */
+export const DEFAULT_LOCK_TIMEOUT = 5000;
+
+/**
+ * How often to check whether a lock file was released, in milliseconds
+ */
+const LOCK_RETRY_INTERVAL = 50;
+
+export interface FileLockOptions {
+  /**
+   * Milliseconds to wait for another process to release the lock. 0 fails at once when the lock is
+   * held. Defaults to {@link DEFAULT_LOCK_TIMEOUT}.
+   */
+  timeout?: number;
+}
+
+/**
+ * The path of the lock file guarding writes to a file
+ */
+export function lockPathOf(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+let staleLockCount = 0;
+
+/**
+ * An advisory lock on a file, held as a `<file>.lock` file naming the process holding it, so that
+ * processes syncing the same data directory take turns writing it
+ */
+export class FileLock {
+  private released = false;
+
+  private constructor(readonly path: string) {}
+
+  /**
+   * Take the lock on a file, waiting for the process holding it to release it. A lock file left behind
+   * by a process that is no longer running is taken over.
+   * @throws When another process still holds the lock once the timeout has passed
+   */
+  static async acquire(filePath: string, options: FileLockOptions = {}): Promise<FileLock> {
+    const path = lockPathOf(filePath);
+    const deadline = Date.now() + (options.timeout ?? DEFAULT_LOCK_TIMEOUT);
+    await mkdir(dirname(path), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await open(path, 'wx');
+        try {
+          await handle.writeFile(`${process.pid}\n`, 'utf-8');
+        } finally {
+          await handle.close();
+        }
+        return new FileLock(path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const holder = await this.holderOf(path);
+      if (holder !== undefined && !isRunning(holder)) {
+        await this.removeStale(path, holder);
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Cannot write ${filePath}: ${holder === undefined ? 'another process' : `process ${holder}`} holds ` +
+            `its lock file ${path}. Retry once it has finished, or delete the lock file if no process is writing.`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_INTERVAL));
+    }
+  }
+
+  /**
+   * Release the lock, deleting its lock file
+   */
+  async release(): Promise<void> {
+    if (this.released) {
+      return;
+    }
+    this.released = true;
+    await rm(this.path, { force: true });
+  }
+
+  /**
+   * Remove a lock file left behind by a process that is gone. It is renamed aside first, which only one
+   * of the processes waiting for it manages, and put back when another process took the lock over between
+   * reading and renaming it.
+   * @param holder - The process id the lock file named when it was read
+   */
+  private static async removeStale(path: string, holder: number): Promise<void> {
+    const stalePath = `${path}.${process.pid}.${++staleLockCount}.stale`;
+    try {
+      await rename(path, stalePath);
+    } catch (error) {
+      // Another process removed it first
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    try {
+      if ((await this.holderOf(stalePath)) !== holder) {
+        // Fails when yet another process has taken the lock since, which then holds it instead
+        await link(stalePath, path).catch(() => {});
+      }
+    } finally {
+      await rm(stalePath, { force: true });
+    }
+  }
+
+  /**
+   * The process id a lock file names, or undefined while its holder has yet to write it
+   */
+  private static async holderOf(path: string): Promise<number | undefined> {
+    try {
+      const pid = Number.parseInt(await readFile(path, 'utf-8'), 10);
+      return Number.isInteger(pid) && pid > 0 ? pid : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+let tempFileCount = 0;
+
+/**
+ * Write a file by writing a temporary file beside it and renaming it over the file, so that a reader
+ * or a crash never sees it half written. The file keeps its permissions.
+ * @returns The SHA-256 hash of the data written, in hex
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<string> {
+  const tempPath = join(dirname(filePath), `.${basename(filePath)}.${process.pid}.${++tempFileCount}.tmp`);
+  const mode = await stat(filePath).then(
+    (stats) => stats.mode & 0o7777,
+    () => undefined,
+  );
+
+  try {
+    const handle = await open(tempPath, 'w');
+    try {
+      await handle.writeFile(data, typeof data === 'string' ? 'utf-8' : undefined);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (mode !== undefined) {
+      await chmod(tempPath, mode);
+    }
+    await rename(tempPath, filePath);
+    return createHash('sha256').update(data).digest('hex');
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -1,11 +1,25 @@
 export { LinesDB } from './database.js';
 export type { SyncOptions } from './database.js';
 export { JsonlReader } from './jsonl-reader.js';
+export type { JsonlLine, JsonlParseError, JsonlReadOptions } from './jsonl-reader.js';
 export { JsonlWriter } from './jsonl-writer.js';
+export type { JsonlWriteResult } from './jsonl-writer.js';
+export { CsvReader } from './csv-reader.js';
+export type { CsvTable } from './csv-reader.js';
+export { CsvWriter } from './csv-writer.js';
+export type { CsvLayout } from './csv-writer.js';
+export { RecordDirectory } from './record-directory.js';
+export type { RecordFile, RecordReadOptions } from './record-directory.js';
+export { FileLock, writeFileAtomic } from './file-lock.js';
+export type { FileLockOptions } from './file-lock.js';
 export { mergeFields } from './merge-fields.js';
+export { TOMBSTONE_FIELD } from './layers.js';
 export type { MergeFieldsOptions } from './merge-fields.js';
 export { SchemaLoader } from './schema-loader.js';
-export { DirectoryScanner } from './directory-scanner.js';
+export { DirectoryScanner, TABLE_FILE_EXTENSIONS } from './directory-scanner.js';
+export type { ScanOptions } from './directory-scanner.js';
+export { LinesDBWatcher } from './watcher.js';
+export type { WatchOptions, WatchReloadEvent, WatchEventMap } from './watcher.js';
 export { defineSchema, hasBackward } from './schema.js';
 export { TypeGenerator } from './type-generator.js';
 export { ensureTableRowsValid } from './jsonl-migration.js';
@@ -29,6 +43,7 @@ export type {
   ColumnDefinition,
   DatabaseConfig,
   TableConfig,
+  TableLayer,
   JsonValue,
   JsonObject,
   JsonArray,
@@ -36,6 +51,8 @@ export type {
   StandardSchemaResult,
   StandardSchemaIssue,
   ValidationError,
+  SyncConflictError,
+  SyncConflictPolicy,
   ValidationResult,
   TableValidationResult,
   ValidationErrorDetail,
@@ -45,5 +62,28 @@ export type {
   TableDefs,
   ForeignKeyDefinition,
   IndexDefinition,
+  CheckDefinition,
+  ColumnDefault,
+  ColumnType,
+  WhereCondition,
+  WhereObject,
+  WhereValue,
+  WhereOperators,
+  FindOptions,
+  FindResult,
+  OrderBy,
+  OrderDirection,
+  Include,
+  IncludedRelation,
+  WithRelations,
+  RelationDef,
+  RelationDefs,
+  RelationsOf,
+  PrimaryKeyDefs,
+  KeyedRecord,
+  RowChange,
+  MutationEvent,
+  SyncEvent,
+  LinesDBEvents,
 } from './types.js';
 export type { BiDirectionalSchema, SchemaOptions } from './schema.js';
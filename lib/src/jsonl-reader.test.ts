@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { JsonlReader } from './jsonl-reader.js';
+import { JsonlReader, type JsonlParseError } from './jsonl-reader.js';
 import { writeFile, mkdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { gzipSync } from 'node:zlib';
+import type { JsonObject } from './types.js';
 
 describe('JsonlReader', () => {
   let testDir: string;
@@ -58,6 +60,59 @@ describe('JsonlReader', () => {
     });
   });
 
+  describe('stream', () => {
+    const collect = async (options?: Parameters<typeof JsonlReader.stream>[1]) => {
+      const lines = [];
+      for await (const line of JsonlReader.stream(testFilePath, options)) {
+        lines.push(line);
+      }
+      return lines;
+    };
+
+    it('should yield rows with their line numbers', async () => {
+      await writeFile(testFilePath, '{"id": 1}\n\n{"id": 2}\n');
+
+      expect(await collect()).toEqual([
+        { row: { id: 1 }, lineNumber: 1 },
+        { row: { id: 2 }, lineNumber: 3 },
+      ]);
+    });
+
+    it('should accept CRLF line endings and a byte order mark', async () => {
+      await writeFile(testFilePath, '\uFEFF{"id": 1}\r\n{"id": 2}\r\n');
+
+      expect(await collect()).toEqual([
+        { row: { id: 1 }, lineNumber: 1 },
+        { row: { id: 2 }, lineNumber: 2 },
+      ]);
+      expect(JsonlReader.readSync(testFilePath)).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should report the line and column of invalid JSON', async () => {
+      await writeFile(testFilePath, '{"id": 1}\n\n{"id": 2,}\n');
+
+      await expect(collect()).rejects.toThrow(/^Failed to parse JSON line 3 of .+test\.jsonl at column 10: /);
+    });
+
+    it('should decompress a .jsonl.gz file', async () => {
+      const gzipPath = join(testDir, 'test.jsonl.gz');
+      await writeFile(gzipPath, gzipSync('{"id": 1}\n{"id": 2}\n'));
+
+      expect(await JsonlReader.read(gzipPath)).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(JsonlReader.readSync(gzipPath)).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should skip invalid lines reported to onParseError', async () => {
+      await writeFile(testFilePath, '{"id": 1}\n{"id": \n\n{"id": 3}\n');
+      const errors: JsonlParseError[] = [];
+
+      const lines = await collect({ onParseError: (error) => errors.push(error) });
+
+      expect(lines.map(({ lineNumber }) => lineNumber)).toEqual([1, 4]);
+      expect(errors).toEqual([{ lineNumber: 2, column: 8, rowIndex: 1, message: expect.any(String) }]);
+    });
+  });
+
   describe('inferSchema', () => {
     it('should infer schema with basic types', () => {
       const data = [
@@ -123,6 +178,18 @@ describe('JsonlReader', () => {
       expect(emailColumn?.notNull).toBe(false);
     });
 
+    it('should make a column some rows leave out nullable', () => {
+      const data: JsonObject[] = [
+        { id: 1, name: 'Alice', email: 'alice@example.com' },
+        { id: 2, name: 'Bob' },
+      ];
+
+      const schema = JsonlReader.inferSchema('users', data);
+
+      expect(schema.columns.find((col) => col.name === 'email')?.notNull).toBe(false);
+      expect(schema.columns.find((col) => col.name === 'name')?.notNull).toBe(true);
+    });
+
     it('should handle mixed numeric types as REAL', () => {
       const data = [
         { id: 1, value: 10 },
@@ -1,7 +1,56 @@
-import { readFile } from 'node:fs/promises';
+import { createReadStream, readFileSync } from 'node:fs';
 import { normalize } from 'node:path';
+import { createInterface } from 'node:readline';
+import { createGunzip, gunzipSync } from 'node:zlib';
 import type { JsonObject, ColumnDefinition, TableSchema } from './types.js';
 
+/**
+ * A row read from a JSONL file
+ */
+export interface JsonlLine {
+  row: JsonObject;
+  /** 1-based line number of the row in the file */
+  lineNumber: number;
+}
+
+/**
+ * A line of a JSONL file that is not valid JSON
+ */
+export interface JsonlParseError {
+  /** 1-based line number in the file */
+  lineNumber: number;
+  /** 1-based column the parser stopped at */
+  column: number;
+  /** Index the row would have among the rows of the file, counting the lines that failed to parse */
+  rowIndex: number;
+  message: string;
+}
+
+export interface JsonlReadOptions {
+  /**
+   * Called for each line that is not valid JSON, which is then skipped instead of throwing
+   */
+  onParseError?: (error: JsonlParseError) => void;
+}
+
+/**
+ * Whether a JSONL file is gzip-compressed, by its `.gz` extension
+ */
+export function isGzipFile(filePath: string): boolean {
+  return filePath.endsWith('.gz');
+}
+
+/**
+ * Find the column `JSON.parse` stopped at from its error message
+ */
+function errorColumn(line: string, message: string): number {
+  const position = /position (\d+)/.exec(message);
+  if (position) {
+    return Number(position[1]) + 1;
+  }
+  return /end of (?:JSON )?input/i.test(message) ? line.length + 1 : 1;
+}
+
 export class JsonlReader {
   private static overrides: Map<string, JsonObject[]> | null = null;
 
@@ -29,24 +78,98 @@ export class JsonlReader {
    * Read JSONL file and parse each line as JSON
    */
   static async read(filePath: string): Promise<JsonObject[]> {
-    const overrideRows = this.overrides?.get(normalize(filePath));
+    const rows: JsonObject[] = [];
+    for await (const { row } of this.stream(filePath)) {
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Read JSONL file line by line, without holding the whole file in memory.
+   *
+   * Yields each row with its 1-based line number in the file. Blank lines are skipped but still
+   * counted, CRLF line endings and a leading byte order mark are accepted. A line that is not valid
+   * JSON throws, unless `onParseError` is given: the line is then reported to it and skipped.
+   * A `.jsonl.gz` file is decompressed as it is read.
+   */
+  static async *stream(filePath: string, options: JsonlReadOptions = {}): AsyncGenerator<JsonlLine> {
+    const overrideRows = this.overriddenRows(filePath);
     if (overrideRows) {
-      // Return clones to avoid accidental mutations from consumers
-      return overrideRows.map((row) => JSON.parse(JSON.stringify(row)) as JsonObject);
+      yield* overrideRows.map((row, index) => ({ row, lineNumber: index + 1 }));
+      return;
     }
 
-    const content = await readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\n');
+    const input = isGzipFile(filePath)
+      ? createReadStream(filePath).pipe(createGunzip()).setEncoding('utf-8')
+      : createReadStream(filePath, 'utf-8');
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    const state = { lineNumber: 0, rowIndex: 0 };
+    for await (const line of lines) {
+      const entry = this.parseLine(filePath, line, state, options);
+      if (entry) {
+        yield entry;
+      }
+    }
+  }
 
-    return lines
-      .filter((line) => line.trim().length > 0)
-      .map((line) => {
-        try {
-          return JSON.parse(line) as JsonObject;
-        } catch (error) {
-          throw new Error(`Failed to parse JSON line: ${line}`, { cause: error });
-        }
-      });
+  /**
+   * Read JSONL file synchronously, for loading a table the moment a synchronous call first uses it
+   */
+  static readSync(filePath: string, options: JsonlReadOptions = {}): JsonObject[] {
+    const overrideRows = this.overriddenRows(filePath);
+    if (overrideRows) {
+      return overrideRows;
+    }
+
+    const state = { lineNumber: 0, rowIndex: 0 };
+    const rows: JsonObject[] = [];
+    const content = isGzipFile(filePath)
+      ? gunzipSync(readFileSync(filePath)).toString('utf-8')
+      : readFileSync(filePath, 'utf-8');
+    for (const line of content.split(/\r?\n/)) {
+      const entry = this.parseLine(filePath, line, state, options);
+      if (entry) {
+        rows.push(entry.row);
+      }
+    }
+    return rows;
+  }
+
+  private static overriddenRows(filePath: string): JsonObject[] | undefined {
+    const overrideRows = this.overrides?.get(normalize(filePath));
+    // Return clones to avoid accidental mutations from consumers
+    return overrideRows?.map((row) => JSON.parse(JSON.stringify(row)) as JsonObject);
+  }
+
+  private static parseLine(
+    filePath: string,
+    rawLine: string,
+    state: { lineNumber: number; rowIndex: number },
+    options: JsonlReadOptions,
+  ): JsonlLine | undefined {
+    const lineNumber = ++state.lineNumber;
+    // A byte order mark can only start the file
+    const line = lineNumber === 1 ? rawLine.replace(/^\uFEFF/, '') : rawLine;
+    if (line.trim().length === 0) {
+      return undefined;
+    }
+
+    const rowIndex = state.rowIndex++;
+    try {
+      return { row: JSON.parse(line) as JsonObject, lineNumber };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const parseError: JsonlParseError = { lineNumber, column: errorColumn(line, message), rowIndex, message };
+      if (!options.onParseError) {
+        throw new Error(
+          `Failed to parse JSON line ${lineNumber} of ${filePath} at column ${parseError.column}: ${message}`,
+          { cause: error },
+        );
+      }
+      options.onParseError(parseError);
+      return undefined;
+    }
   }
 
   /**
@@ -58,6 +181,7 @@ export class JsonlReader {
     }
 
     const columnTypes = new Map<string, Set<string>>();
+    const columnCounts = new Map<string, number>();
     const booleanColumns = new Set<string>();
     const nonBooleanColumns = new Set<string>();
 
@@ -68,6 +192,7 @@ export class JsonlReader {
           columnTypes.set(key, new Set());
         }
         columnTypes.get(key)!.add(this.inferType(value));
+        columnCounts.set(key, (columnCounts.get(key) ?? 0) + 1);
 
         if (typeof value === 'boolean') {
           booleanColumns.add(key);
@@ -102,7 +227,8 @@ export class JsonlReader {
       columns.push({
         name: columnName,
         type: sqlType,
-        notNull: !typeArray.includes('NULL'),
+        // A row leaving the field out, such as a blank CSV cell, holds NULL in it
+        notNull: !typeArray.includes('NULL') && columnCounts.get(columnName) === data.length,
         valueType: isBooleanColumn ? 'boolean' : undefined,
       });
     }
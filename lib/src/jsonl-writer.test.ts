@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { JsonlWriter } from './jsonl-writer.js';
-import { readFile, mkdir, rm } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
+import { readFile, writeFile, mkdir, rm } from 'node:fs/promises';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
+import { gunzipSync } from 'node:zlib';
 
 describe('JsonlWriter', () => {
   let testDir: string;
@@ -61,6 +63,56 @@ describe('JsonlWriter', () => {
     });
   });
 
+  describe('format preservation', () => {
+    it('should keep the lines of unchanged rows byte for byte', async () => {
+      await writeFile(testFilePath, '{"id": 1, "name": "\\u00e9mile", "score": 1.0}\n{"id":2,"name":"Bob"}\n');
+
+      const result = await JsonlWriter.write(testFilePath, [
+        { name: 'émile', id: 1, score: 1 },
+        { id: 2, name: 'Bobby' },
+        { id: 3, name: 'Carol' },
+      ]);
+
+      expect(result).toEqual({
+        writtenLines: [2, 3],
+        hash: createHash('sha256')
+          .update(await readFile(testFilePath))
+          .digest('hex'),
+      });
+      expect(await readFile(testFilePath, 'utf-8')).toBe(
+        '{"id": 1, "name": "\\u00e9mile", "score": 1.0}\n{"id":2,"name":"Bobby"}\n{"id":3,"name":"Carol"}\n',
+      );
+    });
+
+    it('should keep line endings, a byte order mark and a missing final line break', () => {
+      const { content, writtenLines } = JsonlWriter.format([{ id: 1 }, { id: 3 }], '\uFEFF{"id":1}\r\n{"id":2}');
+
+      expect(content).toBe('\uFEFF{"id":1}\r\n{"id":3}');
+      expect(writtenLines).toEqual([2]);
+    });
+
+    it('should leave the file alone when no row changed', async () => {
+      await writeFile(testFilePath, '{"id": 1}\n\n{"id": 2}\n');
+
+      const result = await JsonlWriter.write(testFilePath, [{ id: 1 }, { id: 2 }]);
+
+      expect(result).toEqual({ writtenLines: [] });
+      // Blank lines are not rows, so only a write would drop them
+      expect(await readFile(testFilePath, 'utf-8')).toBe('{"id": 1}\n\n{"id": 2}\n');
+    });
+  });
+
+  describe('gzip', () => {
+    it('should compress a .jsonl.gz file', async () => {
+      const gzipPath = join(testDir, 'test.jsonl.gz');
+
+      await JsonlWriter.write(gzipPath, [{ id: 1 }]);
+      await JsonlWriter.append(gzipPath, [{ id: 2 }]);
+
+      expect(gunzipSync(await readFile(gzipPath)).toString('utf-8')).toBe('{"id":1}\n{"id":2}\n');
+    });
+  });
+
   describe('append', () => {
     it('should append data to existing file', async () => {
       await JsonlWriter.write(testFilePath, [{ id: 1, name: 'Alice' }]);
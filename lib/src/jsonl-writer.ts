@@ -1,33 +1,139 @@
-import { writeFile } from 'node:fs/promises';
+import { readFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { gunzip, gzip } from 'node:zlib';
+import { writeFileAtomic } from './file-lock.js';
+import { isGzipFile } from './jsonl-reader.js';
+import { canonical } from './layers.js';
 import type { JsonObject } from './types.js';
 
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * What writing rows to a JSONL file changed in it
+ */
+export interface JsonlWriteResult {
+  /** 1-based numbers of the lines written anew. Every other line kept the text it had. */
+  writtenLines: number[];
+  /** The hash of the content written, as `writeFileAtomic` returns it, or undefined when the file was left as it was */
+  hash?: string;
+}
+
 export class JsonlWriter {
   /**
-   * Write data to JSONL file
+   * Write data to JSONL file, compressed when the file is a `.jsonl.gz` one.
+   *
+   * Rows the file already holds keep the text of their line byte for byte, so only the lines of rows
+   * whose values changed are serialized again. The file keeps its line endings, its byte order mark and
+   * whether it ends with a line break, and is not touched at all when nothing changed. The new content
+   * replaces the file at once, so it is never left half written.
    */
-  static async write(filePath: string, data: JsonObject[]): Promise<void> {
-    const lines = data.map((obj) => JSON.stringify(obj)).join('\n');
-    await writeFile(filePath, lines + '\n', 'utf-8');
+  static async write(filePath: string, data: JsonObject[]): Promise<JsonlWriteResult> {
+    const previous = await this.readContent(filePath);
+    const { content, writtenLines } = this.format(data, previous);
+    if (content === previous) {
+      return { writtenLines };
+    }
+    return { writtenLines, hash: await this.writeContent(filePath, content) };
+  }
+
+  /**
+   * Format rows as the content of a JSONL file, reusing the lines of the rows `previous` content holds
+   * as it is described for {@link write}
+   */
+  static format(data: JsonObject[], previous?: string): { content: string } & JsonlWriteResult {
+    const bom = previous?.startsWith('\uFEFF') ? '\uFEFF' : '';
+    const text = previous?.slice(bom.length) ?? '';
+    const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+    const trailingLineEnding = previous === undefined || text === '' || text.endsWith('\n');
+
+    // The lines of the file by the row they hold, the lines of identical rows in file order
+    const lines = new Map<string, string[]>();
+    const rowLines: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+      const row = parseRow(line);
+      if (row) {
+        rowLines.push(line);
+        const key = canonical(row);
+        const sameRows = lines.get(key);
+        if (sameRows) {
+          sameRows.push(line);
+        } else {
+          lines.set(key, [line]);
+        }
+      }
+    }
+
+    const writtenLines: number[] = [];
+    const output = data.map((row, index) => {
+      const line = lines.get(canonical(row))?.shift();
+      if (line !== undefined) {
+        return line;
+      }
+      writtenLines.push(index + 1);
+      return JSON.stringify(row);
+    });
+
+    if (
+      previous !== undefined &&
+      output.length === rowLines.length &&
+      output.every((line, i) => line === rowLines[i])
+    ) {
+      // Every row is where it was: the content stays as it is, blank lines included
+      return { content: previous, writtenLines };
+    }
+    return {
+      content: bom + output.join(lineEnding) + (trailingLineEnding ? lineEnding : ''),
+      writtenLines,
+    };
   }
 
   /**
    * Append data to JSONL file
    */
   static async append(filePath: string, data: JsonObject[]): Promise<void> {
-    const { readFile, writeFile } = await import('node:fs/promises');
+    const existing = await this.readContent(filePath);
+    if (existing === undefined) {
+      // If file doesn't exist, just write the data
+      await this.write(filePath, data);
+      return;
+    }
+    const lines = data.map((obj) => JSON.stringify(obj)).join('\n');
+    await this.writeContent(filePath, existing.trim() + '\n' + lines + '\n');
+  }
 
+  /**
+   * Read the content of a JSONL file, or undefined when there is no such file
+   */
+  private static async readContent(filePath: string): Promise<string | undefined> {
     try {
-      const existing = await readFile(filePath, 'utf-8');
-      const lines = data.map((obj) => JSON.stringify(obj)).join('\n');
-      const newContent = existing.trim() + '\n' + lines + '\n';
-      await writeFile(filePath, newContent, 'utf-8');
+      return isGzipFile(filePath)
+        ? (await gunzipAsync(await readFile(filePath))).toString('utf-8')
+        : await readFile(filePath, 'utf-8');
     } catch (error) {
-      // If file doesn't exist, just write the data
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        await this.write(filePath, data);
-      } else {
-        throw error;
+        return undefined;
       }
+      throw error;
     }
   }
+
+  private static async writeContent(filePath: string, content: string): Promise<string> {
+    return writeFileAtomic(filePath, isGzipFile(filePath) ? await gzipAsync(content) : content);
+  }
+}
+
+/**
+ * Parse a line of a JSONL file as a row, or return undefined for a blank or malformed one
+ */
+function parseRow(line: string): JsonObject | undefined {
+  if (line.trim() === '') {
+    return undefined;
+  }
+  try {
+    const value: unknown = JSON.parse(line);
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonObject) : undefined;
+  } catch {
+    return undefined;
+  }
 }
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { layerDiff, mergeLayers, TOMBSTONE_FIELD } from './layers.js';
+import type { JsonObject } from './types.js';
+
+const base = { dataDir: '/data/base', jsonlPath: '/data/base/users.jsonl' };
+const dev = { dataDir: '/data/dev', jsonlPath: '/data/dev/users.jsonl' };
+
+describe('mergeLayers', () => {
+  it('should override, delete and add rows by primary key', () => {
+    const { rows, origins } = mergeLayers(
+      [
+        {
+          layer: base,
+          rows: [
+            { id: 1, name: 'Alice' },
+            { id: 2, name: 'Bob' },
+            { id: 3, name: 'Carol' },
+          ],
+        },
+        {
+          layer: dev,
+          rows: [
+            { id: 4, name: 'Dave' },
+            { id: 2, name: 'Bobby' },
+            { id: 3, [TOMBSTONE_FIELD]: true },
+          ],
+        },
+      ],
+      ['id'],
+    );
+
+    expect(rows).toEqual([
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bobby' },
+      { id: 4, name: 'Dave' },
+    ]);
+    expect(origins).toEqual([
+      { layer: base, rowIndex: 0 },
+      { layer: dev, rowIndex: 1 },
+      { layer: dev, rowIndex: 0 },
+    ]);
+  });
+
+  it('should only add rows without a primary key', () => {
+    const { rows } = mergeLayers(
+      [
+        { layer: base, rows: [{ id: 1 }] },
+        { layer: dev, rows: [{ id: 1 }, { [TOMBSTONE_FIELD]: true }] },
+      ],
+      [],
+    );
+
+    expect(rows).toEqual([{ id: 1 }, { id: 1 }]);
+  });
+
+  it('should tell a number key from the string of its digits', () => {
+    const { rows } = mergeLayers(
+      [
+        { layer: base, rows: [{ id: 1, name: 'Alice' }] },
+        { layer: dev, rows: [{ id: '1', name: 'One' }] },
+      ],
+      ['id'],
+    );
+
+    expect(rows).toEqual([
+      { id: 1, name: 'Alice' },
+      { id: '1', name: 'One' },
+    ]);
+  });
+});
+
+describe('layerDiff', () => {
+  it('should keep changed and new rows and mark removed rows', () => {
+    const lower: JsonObject[] = [
+      { id: 1, name: 'Alice', tags: ['a'] },
+      { id: 2, name: 'Bob' },
+      { id: 3, name: 'Carol' },
+    ];
+    const rows: JsonObject[] = [
+      { tags: ['a'], name: 'Alice', id: 1 },
+      { id: 2, name: 'Bobby' },
+      { id: 4, name: 'Dave' },
+    ];
+
+    expect(layerDiff(rows, lower, ['id'])).toEqual([
+      { id: 2, name: 'Bobby' },
+      { id: 4, name: 'Dave' },
+      { id: 3, [TOMBSTONE_FIELD]: true },
+    ]);
+  });
+
+  it('should keep the rows and tombstones the layer holds in their place', () => {
+    const lower: JsonObject[] = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+      { id: 3, name: 'Carol' },
+      { id: 4, name: 'Dave' },
+    ];
+    const existing: JsonObject[] = [
+      { id: 3, [TOMBSTONE_FIELD]: true },
+      { id: 2, name: 'Bobby' },
+      { id: 5, name: 'Eve' },
+    ];
+    const rows: JsonObject[] = [
+      { id: 2, name: 'Bobby' },
+      { id: 4, name: 'Dan' },
+      { id: 5, name: 'Eve' },
+      { id: 6, name: 'Frank' },
+    ];
+
+    expect(layerDiff(rows, lower, ['id'], existing)).toEqual([
+      { id: 3, [TOMBSTONE_FIELD]: true },
+      { id: 2, name: 'Bobby' },
+      { id: 5, name: 'Eve' },
+      { id: 4, name: 'Dan' },
+      { id: 6, name: 'Frank' },
+      { id: 1, [TOMBSTONE_FIELD]: true },
+    ]);
+  });
+
+  it('should read back as the rows once laid over the layers below', () => {
+    const lower = [
+      { tenant: 1, code: 'A' },
+      { tenant: 1, code: 'B' },
+    ];
+    const rows: JsonObject[] = [
+      { tenant: 1, code: 'B', note: 'x' },
+      { tenant: 2, code: 'A' },
+    ];
+
+    const diff = layerDiff(rows, lower, ['tenant', 'code']);
+    const merged = mergeLayers(
+      [
+        { layer: base, rows: lower },
+        { layer: dev, rows: diff },
+      ],
+      ['tenant', 'code'],
+    );
+
+    expect(merged.rows).toEqual(rows);
+  });
+});
@@ -0,0 +1,144 @@
+import type { JsonObject, JsonValue, TableLayer } from './types.js';
+
+/**
+ * The field marking a row of a layer as deleting the row with its primary key from the layers below
+ */
+export const TOMBSTONE_FIELD = '$deleted';
+
+/**
+ * The rows a table's file holds in one layer
+ */
+export interface LayerRows {
+  layer: TableLayer;
+  rows: JsonObject[];
+}
+
+/**
+ * Where a row of a layered table comes from
+ */
+export interface RowOrigin {
+  layer: TableLayer;
+  /** Index of the row among the rows of the layer's file */
+  rowIndex: number;
+}
+
+/**
+ * Lay the rows of a table's layers over each other, lowest layer first.
+ *
+ * A row whose primary key a lower layer already has replaces that row where it stands, and a row
+ * marked with {@link TOMBSTONE_FIELD} removes it. Every other row is added after the rows before it.
+ * Without a primary key, or in a row missing part of it, rows can only be added.
+ *
+ * @returns The rows, and for each of them the line it comes from
+ */
+export function mergeLayers(layers: LayerRows[], primaryKey: string[]): { rows: JsonObject[]; origins: RowOrigin[] } {
+  const entries: Array<{ row: JsonObject; origin: RowOrigin } | undefined> = [];
+  const indexByKey = new Map<string, number>();
+
+  for (const { layer, rows } of layers) {
+    rows.forEach((row, rowIndex) => {
+      const key = rowKey(row, primaryKey);
+      const index = key === undefined ? undefined : indexByKey.get(key);
+      if (row[TOMBSTONE_FIELD] === true) {
+        if (index !== undefined) {
+          entries[index] = undefined;
+          indexByKey.delete(key!);
+        }
+        return;
+      }
+
+      const entry = { row, origin: { layer, rowIndex } };
+      if (index !== undefined) {
+        entries[index] = entry;
+      } else {
+        if (key !== undefined) {
+          indexByKey.set(key, entries.length);
+        }
+        entries.push(entry);
+      }
+    });
+  }
+
+  const merged = entries.filter((entry) => entry !== undefined);
+  return { rows: merged.map(({ row }) => row), origins: merged.map(({ origin }) => origin) };
+}
+
+/**
+ * Compute the rows a layer has to hold for the layers below it to read as `rows`: the rows they do not
+ * hold as they are, and a tombstone for each row of theirs that `rows` no longer has. Rows and tombstones
+ * whose primary key the layer already holds keep its place in the layer, and the others follow, the
+ * tombstones last.
+ *
+ * @param rows - The rows of the table
+ * @param lower - The rows of the layers below, merged
+ * @param primaryKey - The table's primary key, which every row of `lower` must have
+ * @param existing - The rows the layer holds now
+ */
+export function layerDiff(
+  rows: JsonObject[],
+  lower: JsonObject[],
+  primaryKey: string[],
+  existing: JsonObject[] = [],
+): JsonObject[] {
+  const lowerByKey = new Map(lower.map((row) => [rowKey(row, primaryKey), row]));
+  const keys = new Set<string | undefined>();
+  const changed = rows.filter((row) => {
+    const key = rowKey(row, primaryKey);
+    keys.add(key);
+    const lowerRow = key === undefined ? undefined : lowerByKey.get(key);
+    return !lowerRow || canonical(lowerRow) !== canonical(row);
+  });
+
+  const tombstones = lower
+    .filter((row) => !keys.has(rowKey(row, primaryKey)))
+    .map((row) => {
+      const tombstone: JsonObject = {};
+      for (const name of primaryKey) {
+        tombstone[name] = row[name];
+      }
+      tombstone[TOMBSTONE_FIELD] = true;
+      return tombstone;
+    });
+
+  const positions = new Map<string, number>();
+  existing.forEach((row, index) => {
+    const key = rowKey(row, primaryKey);
+    if (key !== undefined && !positions.has(key)) {
+      positions.set(key, index);
+    }
+  });
+  const placed = [...changed, ...tombstones].map((row) => {
+    const key = rowKey(row, primaryKey);
+    return { row, position: key === undefined ? undefined : positions.get(key) };
+  });
+  const kept = placed.filter(({ position }) => position !== undefined).sort((a, b) => a.position! - b.position!);
+
+  return [...kept, ...placed.filter(({ position }) => position === undefined)].map(({ row }) => row);
+}
+
+/**
+ * Identify a row by the values of its primary key, or not at all when it is missing part of it.
+ * The key keeps the JSON type of each value, so a number and the string of its digits differ.
+ */
+export function rowKey(row: JsonObject, primaryKey: string[]): string | undefined {
+  if (primaryKey.length === 0) {
+    return undefined;
+  }
+  const values = primaryKey.map((name) => row[name]);
+  return values.some((value) => value === undefined || value === null) ? undefined : JSON.stringify(values);
+}
+
+/**
+ * Serialize a value with the keys of its objects sorted, so rows listing the same fields in another
+ * order compare equal
+ */
+export function canonical(value: JsonValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RecordDirectory } from './record-directory.js';
+import type { JsonlParseError } from './jsonl-reader.js';
+import { writeFile, readFile, readdir, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('RecordDirectory', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `record-directory-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('read', () => {
+    it('should read one row per JSON file, ordered by file name', async () => {
+      await writeFile(join(testDir, '10.json'), '{\n  "id": 10\n}\n');
+      await writeFile(join(testDir, '2.json'), '{"id": 2}');
+      await writeFile(join(testDir, 'notes.txt'), 'not a record');
+
+      const records = await RecordDirectory.read(testDir);
+
+      expect(records).toEqual([
+        { file: join(testDir, '2.json'), row: { id: 2 } },
+        { file: join(testDir, '10.json'), row: { id: 10 } },
+      ]);
+      expect(RecordDirectory.readSync(testDir)).toEqual(records);
+    });
+
+    it('should report the line and column of invalid JSON', async () => {
+      await writeFile(join(testDir, '1.json'), '{\n  "id": 1,\n}\n');
+
+      await expect(RecordDirectory.read(testDir)).rejects.toThrow(
+        /^Failed to parse JSON file .+1\.json at line 3, column 1: /,
+      );
+    });
+
+    it('should skip files reported to onParseError', async () => {
+      await writeFile(join(testDir, '1.json'), '[1, 2]');
+      await writeFile(join(testDir, '2.json'), '{"id": 2}');
+      const errors: Array<{ file: string; error: JsonlParseError }> = [];
+
+      const records = await RecordDirectory.read(testDir, {
+        onParseError: (file, error) => errors.push({ file, error }),
+      });
+
+      expect(records.map(({ row }) => row)).toEqual([{ id: 2 }]);
+      expect(errors).toEqual([
+        {
+          file: join(testDir, '1.json'),
+          error: { lineNumber: 1, column: 1, rowIndex: 0, message: 'A record file must hold a JSON object' },
+        },
+      ]);
+    });
+  });
+
+  describe('write', () => {
+    it('should create, rewrite and delete files by primary key, leaving unchanged ones alone', async () => {
+      await writeFile(join(testDir, 'a.json'), '{"slug": "a", "title": "A"}');
+      await writeFile(join(testDir, 'b.json'), '{"slug": "b", "title": "B"}');
+      await writeFile(join(testDir, 'c.json'), '{"slug": "c", "title": "C"}');
+
+      const changed = await RecordDirectory.write(
+        testDir,
+        [
+          { title: 'A', slug: 'a' },
+          { slug: 'b', title: 'Bee' },
+          { slug: 'd', title: 'D' },
+        ],
+        (row) => String(row.slug),
+      );
+
+      expect([...changed.keys()]).toEqual([join(testDir, 'b.json'), join(testDir, 'd.json'), join(testDir, 'c.json')]);
+      expect(changed.get(join(testDir, 'c.json'))).toBeNull();
+      expect((await readdir(testDir)).sort()).toEqual(['a.json', 'b.json', 'd.json']);
+      expect(await readFile(join(testDir, 'a.json'), 'utf-8')).toBe('{"slug": "a", "title": "A"}');
+      expect(await readFile(join(testDir, 'b.json'), 'utf-8')).toBe('{\n  "slug": "b",\n  "title": "Bee"\n}\n');
+    });
+
+    it('should leave alone files that hold no record named after them', async () => {
+      await writeFile(join(testDir, 'a.json'), '{"slug": "a"}');
+      await writeFile(join(testDir, 'broken.json'), '{"slug": ');
+      await writeFile(join(testDir, 'notes.json'), '{"text": "keep"}');
+      await writeFile(join(testDir, 'other.json'), '{"slug": "x"}');
+
+      const changed = await RecordDirectory.write(testDir, [], (row) => {
+        if (typeof row.slug !== 'string') {
+          throw new Error('no slug');
+        }
+        return row.slug;
+      });
+
+      expect([...changed.keys()]).toEqual([join(testDir, 'a.json')]);
+      expect((await readdir(testDir)).sort()).toEqual(['broken.json', 'notes.json', 'other.json']);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { mkdir, readdir, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { writeFileAtomic } from './file-lock.js';
+import type { JsonlParseError } from './jsonl-reader.js';
+import { canonical } from './layers.js';
+import type { JsonObject } from './types.js';
+
+/**
+ * The extension of the files a directory of records holds, one row each
+ */
+export const RECORD_FILE_EXTENSION = '.json';
+
+/**
+ * A row read from its own file in a directory of records
+ */
+export interface RecordFile {
+  file: string;
+  row: JsonObject;
+}
+
+export interface RecordReadOptions {
+  /**
+   * Called for each file that is not a valid JSON object, which is then skipped instead of throwing
+   */
+  onParseError?: (file: string, error: JsonlParseError) => void;
+}
+
+export function isRecordFile(fileName: string): boolean {
+  return fileName.endsWith(RECORD_FILE_EXTENSION) && fileName.length > RECORD_FILE_EXTENSION.length;
+}
+
+/**
+ * A table kept as a directory holding one `<primary key>.json` file per row, for long-form records
+ * that are unwieldy as single JSONL lines
+ */
+export class RecordDirectory {
+  /**
+   * List the record files of a directory, ordered by their names with numbers compared as numbers
+   */
+  static async files(dir: string): Promise<string[]> {
+    return this.sortFiles(dir, await readdir(dir, { withFileTypes: true }));
+  }
+
+  /**
+   * List the record files of a directory synchronously
+   */
+  static filesSync(dir: string): string[] {
+    return this.sortFiles(dir, readdirSync(dir, { withFileTypes: true }));
+  }
+
+  /**
+   * Read every record of a directory, in the order {@link files} lists them
+   */
+  static async read(dir: string, options: RecordReadOptions = {}): Promise<RecordFile[]> {
+    const records: RecordFile[] = [];
+    for (const file of await this.files(dir)) {
+      const row = this.parse(file, await readFile(file, 'utf-8'), options);
+      if (row) {
+        records.push({ file, row });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Read every record of a directory synchronously, for loading a table the moment a synchronous call
+   * first uses it
+   */
+  static readSync(dir: string, options: RecordReadOptions = {}): RecordFile[] {
+    const records: RecordFile[] = [];
+    for (const file of this.filesSync(dir)) {
+      const row = this.parse(file, readFileSync(file, 'utf-8'), options);
+      if (row) {
+        records.push({ file, row });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Write rows to a directory of records, each to the file `fileNameOf` names after its primary key.
+   * Files whose record is unchanged are left alone, and the files of records no row has are deleted -
+   * only when the file is named after the record it holds, so that a file the table never read a row
+   * from, one that does not parse or holds some other JSON, stays.
+   *
+   * @returns The files written, to the hash of their new content as `writeFileAtomic` returns it, and the
+   * files deleted, to null
+   */
+  static async write(
+    dir: string,
+    rows: JsonObject[],
+    fileNameOf: (row: JsonObject) => string,
+  ): Promise<Map<string, string | null>> {
+    await mkdir(dir, { recursive: true });
+    const files = await this.files(dir);
+    // A file that does not parse is rewritten when a row has it
+    const existing = new Map((await this.read(dir, { onParseError: () => {} })).map(({ file, row }) => [file, row]));
+
+    const changed = new Map<string, string | null>();
+    const kept = new Set<string>();
+    for (const row of rows) {
+      const file = join(dir, `${fileNameOf(row)}${RECORD_FILE_EXTENSION}`);
+      if (kept.has(file)) {
+        throw new Error(`Cannot write ${file}: two rows share the primary key it is named after`);
+      }
+      kept.add(file);
+      const before = existing.get(file);
+      if (before && canonical(before) === canonical(row)) {
+        continue;
+      }
+      changed.set(file, await writeFileAtomic(file, JSON.stringify(row, null, 2) + '\n'));
+    }
+    for (const file of files) {
+      const row = existing.get(file);
+      if (!kept.has(file) && row && this.isFileOf(dir, file, row, fileNameOf)) {
+        await rm(file);
+        changed.set(file, null);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Whether a file is the one a record is written to
+   */
+  private static isFileOf(
+    dir: string,
+    file: string,
+    row: JsonObject,
+    fileNameOf: (row: JsonObject) => string,
+  ): boolean {
+    try {
+      return join(dir, `${fileNameOf(row)}${RECORD_FILE_EXTENSION}`) === file;
+    } catch {
+      // A record without a key to name a file after is no row of the table
+      return false;
+    }
+  }
+
+  private static sortFiles(dir: string, entries: Array<{ isFile(): boolean; name: string }>): string[] {
+    return entries
+      .filter((entry) => entry.isFile() && isRecordFile(entry.name))
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map((name) => join(dir, name));
+  }
+
+  private static parse(file: string, content: string, options: RecordReadOptions): JsonObject | undefined {
+    const text = content.replace(/^\uFEFF/, '');
+    let message: string;
+    let position = text.length;
+    try {
+      const value: unknown = JSON.parse(text);
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return value as JsonObject;
+      }
+      message = 'A record file must hold a JSON object';
+      position = text.search(/\S/);
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+      const match = /position (\d+)/.exec(message);
+      if (match) {
+        position = Number(match[1]);
+      }
+    }
+
+    const before = text.slice(0, Math.max(position, 0));
+    const lineNumber = before.split('\n').length;
+    const column = before.length - before.lastIndexOf('\n');
+    if (!options.onParseError) {
+      throw new Error(`Failed to parse JSON file ${file} at line ${lineNumber}, column ${column}: ${message}`);
+    }
+    options.onParseError(file, { lineNumber, column, rowIndex: 0, message });
+    return undefined;
+  }
+}
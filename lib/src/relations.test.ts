@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { relationNameOf, relationsOf } from './relations.js';
+import type { ForeignKeyDefinition } from './types.js';
+
+describe('relationNameOf', () => {
+  const references = { table: 'customers', column: 'id' };
+
+  it('should strip only an Id or _id suffix from the column', () => {
+    expect(relationNameOf({ column: 'customerId', references })).toBe('customer');
+    expect(relationNameOf({ column: 'customer_id', references })).toBe('customer');
+    expect(relationNameOf({ column: 'paid', references })).toBe('paid');
+    expect(relationNameOf({ column: 'id', references })).toBe('id');
+  });
+
+  it('should prefer the name the foreign key gives', () => {
+    expect(relationNameOf({ column: 'customerId', references, as: 'buyer' })).toBe('buyer');
+  });
+});
+
+describe('relationsOf', () => {
+  it('should describe the row a foreign key references and the rows referencing it', () => {
+    const foreignKeys = new Map<string, ForeignKeyDefinition[]>([
+      ['orders', [{ column: 'customerId', references: { table: 'customers', column: 'id' } }]],
+      [
+        'posts',
+        [{ column: 'writer', references: { table: 'authors', column: 'id' }, as: 'author', inverseAs: 'posts' }],
+      ],
+    ]);
+
+    expect(relationsOf(foreignKeys)).toEqual({
+      orders: { customer: { table: 'customers', many: false } },
+      customers: { orders: { table: 'orders', many: true } },
+      posts: { author: { table: 'authors', many: false } },
+      authors: { posts: { table: 'posts', many: true } },
+    });
+  });
+
+  it('should include the row a composite foreign key references under its table as one row', () => {
+    const foreignKeys = new Map<string, ForeignKeyDefinition[]>([
+      [
+        'stock',
+        [{ columns: ['tenantId', 'productCode'], references: { table: 'products', columns: ['tenantId', 'code'] } }],
+      ],
+    ]);
+
+    expect(relationsOf(foreignKeys)).toEqual({
+      stock: { products: { table: 'products', many: false } },
+      products: { stock: { table: 'stock', many: true } },
+    });
+  });
+
+  it('should leave out a name two relations of a table share', () => {
+    const foreignKeys = new Map<string, ForeignKeyDefinition[]>([
+      [
+        'transfers',
+        [
+          { column: 'fromId', references: { table: 'accounts', column: 'id' } },
+          { column: 'toId', references: { table: 'accounts', column: 'id' } },
+        ],
+      ],
+    ]);
+
+    expect(relationsOf(foreignKeys)).toEqual({
+      transfers: { from: { table: 'accounts', many: false }, to: { table: 'accounts', many: false } },
+      accounts: {},
+    });
+  });
+});
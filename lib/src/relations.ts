@@ -0,0 +1,55 @@
+import type { ForeignKeyDefinition, RelationDefs } from './types.js';
+
+/**
+ * The name the row a foreign key references is included under: its `as`, or else the column without its
+ * `Id`/`_id` suffix (`customerId` -> `customer`), or the referenced table's name for a composite key
+ */
+export function relationNameOf(fk: ForeignKeyDefinition): string {
+  if (fk.as !== undefined) {
+    return fk.as;
+  }
+  if (fk.columns) {
+    return fk.references.table;
+  }
+  return fk.column.replace(/(?:Id|_id)$/, '') || fk.column;
+}
+
+/**
+ * The name the rows referencing a table through a foreign key are included under: its `inverseAs`, or
+ * else the referencing table's name
+ */
+export function inverseRelationNameOf(fk: ForeignKeyDefinition, referencingTable: string): string {
+  return fk.inverseAs ?? referencingTable;
+}
+
+/**
+ * Describe the relations `include` loads for each table, from the foreign keys of every table. A name
+ * two relations of a table share is left out, since including it is ambiguous.
+ *
+ * @param foreignKeys - The foreign keys each table declares
+ * @returns The relations of each table that has any, by relation name
+ */
+export function relationsOf(foreignKeys: Map<string, readonly ForeignKeyDefinition[]>): RelationDefs {
+  const relations: RelationDefs = {};
+  const ambiguous = new Set<string>();
+  const add = (tableName: string, name: string, table: string, many: boolean) => {
+    const tableRelations = (relations[tableName] ??= {});
+    if (Object.hasOwn(tableRelations, name)) {
+      ambiguous.add(JSON.stringify([tableName, name]));
+    }
+    tableRelations[name] = { table, many };
+  };
+
+  for (const [tableName, fks] of foreignKeys) {
+    for (const fk of fks) {
+      add(tableName, relationNameOf(fk), fk.references.table, false);
+      add(fk.references.table, inverseRelationNameOf(fk, tableName), tableName, true);
+    }
+  }
+  for (const key of ambiguous) {
+    const [tableName, name] = JSON.parse(key) as [string, string];
+    delete relations[tableName][name];
+  }
+
+  return relations;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { columnsFromSchema } from './schema-columns.js';
+
+const withOutput = (output: () => unknown) => ({
+  '~standard': { version: 1, vendor: 'test', validate: (value: unknown) => ({ value }), jsonSchema: { output } },
+});
+
+describe('columnsFromSchema', () => {
+  it('should prefer the columns a schema declares', () => {
+    const schema = {
+      ...withOutput(() => ({ type: 'object', properties: { other: { type: 'string' } } })),
+      columns: { id: 'INTEGER', active: 'BOOLEAN', tags: 'JSON' },
+    };
+
+    expect(columnsFromSchema(schema)).toEqual([
+      { name: 'id', type: 'INTEGER', notNull: false },
+      { name: 'active', type: 'INTEGER', notNull: false, valueType: 'boolean' },
+      { name: 'tags', type: 'JSON', notNull: false },
+    ]);
+  });
+
+  it('should map JSON Schema types to column types', () => {
+    const schema = withOutput(() => ({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        price: { type: 'number' },
+        name: { type: 'string' },
+        active: { type: 'boolean' },
+        tags: { type: 'array', items: { type: 'string' } },
+        meta: { type: 'object' },
+        status: { enum: ['draft', 'published'] },
+        mixed: { anyOf: [{ type: 'string' }, { type: 'integer' }] },
+        anything: {},
+      },
+      required: ['id', 'price', 'name', 'active', 'tags', 'meta', 'status', 'mixed', 'anything'],
+    }));
+
+    expect(columnsFromSchema(schema)).toEqual([
+      { name: 'id', type: 'INTEGER', notNull: true },
+      { name: 'price', type: 'REAL', notNull: true },
+      { name: 'name', type: 'TEXT', notNull: true },
+      { name: 'active', type: 'INTEGER', notNull: true, valueType: 'boolean' },
+      { name: 'tags', type: 'JSON', notNull: true },
+      { name: 'meta', type: 'JSON', notNull: true },
+      { name: 'status', type: 'TEXT', notNull: true },
+      { name: 'mixed', type: 'TEXT', notNull: true },
+      { name: 'anything', type: 'TEXT', notNull: false },
+    ]);
+  });
+
+  it('should allow null in optional and nullable properties, marking the ones left out', () => {
+    const schema = withOutput(() => ({
+      type: 'object',
+      properties: {
+        optional: { type: 'string' },
+        union: { anyOf: [{ type: 'integer' }, { type: 'null' }] },
+        list: { type: ['number', 'null'] },
+      },
+      required: ['list'],
+    }));
+
+    expect(columnsFromSchema(schema)).toEqual([
+      { name: 'optional', type: 'TEXT', notNull: false, optional: true },
+      { name: 'union', type: 'INTEGER', notNull: false, optional: true },
+      { name: 'list', type: 'REAL', notNull: false },
+    ]);
+  });
+
+  it('should return undefined when the schema cannot describe its output', () => {
+    expect(columnsFromSchema({ '~standard': { version: 1, vendor: 'test', validate: () => ({}) } })).toBeUndefined();
+    expect(
+      columnsFromSchema(
+        withOutput(() => {
+          throw new Error('Date cannot be represented in JSON Schema');
+        }),
+      ),
+    ).toBeUndefined();
+    expect(columnsFromSchema(withOutput(() => ({ type: 'string' })))).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import type { ColumnDefinition, ColumnType } from './types.js';
+
+/**
+ * A JSON Schema, as much of it as column types are read from
+ */
+interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema | boolean>;
+  required?: string[];
+  anyOf?: Array<JsonSchema | boolean>;
+  oneOf?: Array<JsonSchema | boolean>;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+}
+
+/**
+ * Describe the columns of a table from its validation schema rather than its rows.
+ *
+ * The `columns` a schema declares come first. Otherwise the JSON Schema of the schema's output is
+ * read, when the library implements Standard JSON Schema (`~standard.jsonSchema`); a property it may
+ * leave out is optional. Returns undefined
+ * when the schema offers neither, or its output is not an object with known properties, so the caller
+ * falls back to inferring columns from the rows.
+ *
+ * @param schema - The table's validation schema
+ * @returns The columns in the order the schema declares them
+ */
+export function columnsFromSchema(schema: unknown): ColumnDefinition[] | undefined {
+  if (typeof schema !== 'object' || schema === null) {
+    return undefined;
+  }
+
+  const declared = (schema as { columns?: Record<string, ColumnType> }).columns;
+  if (declared) {
+    return Object.entries(declared).map(([name, type]) => toColumn(name, type, false));
+  }
+
+  const jsonSchema = outputJsonSchema(schema);
+  if (!jsonSchema || typeof jsonSchema.properties !== 'object') {
+    return undefined;
+  }
+
+  const required = new Set(jsonSchema.required ?? []);
+  return Object.entries(jsonSchema.properties).map(([name, property]) => {
+    const types = collectTypes(property);
+    const nullable = types === undefined || types.has('null');
+    return toColumn(name, columnType(types), required.has(name) && !nullable, !required.has(name));
+  });
+}
+
+/**
+ * Read the JSON Schema of a schema's output, or undefined when the library cannot produce one
+ */
+function outputJsonSchema(schema: object): JsonSchema | undefined {
+  const props = (schema as { '~standard'?: { jsonSchema?: { output?: (options: { target: string }) => unknown } } })[
+    '~standard'
+  ];
+  const output = props?.jsonSchema?.output;
+  if (typeof output !== 'function') {
+    return undefined;
+  }
+
+  try {
+    const jsonSchema = output({ target: 'draft-2020-12' });
+    return typeof jsonSchema === 'object' && jsonSchema !== null ? (jsonSchema as JsonSchema) : undefined;
+  } catch {
+    // The library may not represent every output type (a Date, say) in JSON Schema
+    return undefined;
+  }
+}
+
+/**
+ * Collect the JSON types a property allows, or undefined when it allows anything
+ */
+function collectTypes(property: JsonSchema | boolean): Set<string> | undefined {
+  if (typeof property === 'boolean') {
+    return undefined;
+  }
+
+  const types = new Set<string>();
+  if (property.type !== undefined) {
+    for (const type of Array.isArray(property.type) ? property.type : [property.type]) {
+      types.add(type);
+    }
+  }
+  for (const value of [...(property.enum ?? []), ...('const' in property ? [property.const] : [])]) {
+    types.add(jsonType(value));
+  }
+  for (const branch of [...(property.anyOf ?? []), ...(property.oneOf ?? [])]) {
+    const branchTypes = collectTypes(branch);
+    if (branchTypes === undefined) {
+      return undefined;
+    }
+    for (const type of branchTypes) {
+      types.add(type);
+    }
+  }
+  if (property.nullable) {
+    types.add('null');
+  }
+
+  return types.size > 0 ? types : undefined;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+/**
+ * Pick the column type for a set of JSON types, falling back to TEXT for mixed scalars as
+ * `JsonlReader.inferSchema` does
+ */
+function columnType(types: Set<string> | undefined): ColumnType {
+  const nonNull = Array.from(types ?? []).filter((type) => type !== 'null');
+  if (nonNull.length === 0) return 'TEXT';
+  if (nonNull.every((type) => type === 'boolean')) return 'BOOLEAN';
+  if (nonNull.every((type) => type === 'integer')) return 'INTEGER';
+  if (nonNull.every((type) => type === 'integer' || type === 'number')) return 'REAL';
+  if (nonNull.every((type) => type === 'string')) return 'TEXT';
+  if (nonNull.some((type) => type === 'object' || type === 'array')) return 'JSON';
+  return 'TEXT';
+}
+
+function toColumn(name: string, type: ColumnType, notNull: boolean, optional = false): ColumnDefinition {
+  const column: ColumnDefinition =
+    type === 'BOOLEAN' ? { name, type: 'INTEGER', notNull, valueType: 'boolean' } : { name, type, notNull };
+  return optional ? { ...column, optional } : column;
+}
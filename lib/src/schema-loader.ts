@@ -2,6 +2,7 @@ import { pathToFileURL } from 'node:url';
 import { dirname, basename } from 'node:path';
 import type { StandardSchema } from './types.js';
 import { findSchemaFile, SCHEMA_EXTENSIONS } from './schema-extensions.js';
+import { tableFileBaseName } from './directory-scanner.js';
 
 export class SchemaLoader {
   /**
@@ -9,7 +10,7 @@ export class SchemaLoader {
    */
   static async hasSchema(jsonlPath: string): Promise<boolean> {
     const dir = dirname(jsonlPath);
-    const tableName = basename(jsonlPath, '.jsonl');
+    const tableName = tableFileBaseName(basename(jsonlPath)) ?? basename(jsonlPath);
     const schemaPath = await findSchemaFile(dir, tableName);
     return schemaPath !== undefined;
   }
@@ -20,7 +21,7 @@ export class SchemaLoader {
    */
   static async loadSchema(jsonlPath: string): Promise<StandardSchema> {
     const dir = dirname(jsonlPath);
-    const tableName = basename(jsonlPath, '.jsonl');
+    const tableName = tableFileBaseName(basename(jsonlPath)) ?? basename(jsonlPath);
     const schemaPath = await findSchemaFile(dir, tableName);
 
     if (!schemaPath) {
@@ -29,19 +30,28 @@ export class SchemaLoader {
       );
     }
 
+    const module = await this.importSchemaModule(tableName, schemaPath);
+    const schema = module.default || module.schema;
+
+    if (schema && this.isStandardSchema(schema)) {
+      return schema;
+    }
+
+    throw new Error(
+      `Failed to load schema for table '${tableName}' from ${schemaPath}: Schema file ${schemaPath} does not export a valid StandardSchema`,
+    );
+  }
+
+  /**
+   * Import the schema file of a table, as it is on disk now
+   */
+  static async importSchemaModule(tableName: string, schemaPath: string): Promise<Record<string, unknown>> {
     try {
       const schemaUrl = pathToFileURL(schemaPath).href;
       // Add cache busting query parameter to force reload on each import
       // This ensures schema changes are picked up immediately
       const cacheBustedUrl = `${schemaUrl}?t=${Date.now()}`;
-      const module = await import(cacheBustedUrl);
-      const schema = module.default || module.schema;
-
-      if (schema && this.isStandardSchema(schema)) {
-        return schema;
-      }
-
-      throw new Error(`Schema file ${schemaPath} does not export a valid StandardSchema`);
+      return await import(cacheBustedUrl);
     } catch (error) {
       throw new Error(
         `Failed to load schema for table '${tableName}' from ${schemaPath}: ${error instanceof Error ? error.message : String(error)}`,
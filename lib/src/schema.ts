@@ -1,4 +1,12 @@
-import type { StandardSchema, Table, ForeignKeyDefinition, IndexDefinition } from './types.js';
+import type {
+  StandardSchema,
+  Table,
+  ForeignKeyDefinition,
+  IndexDefinition,
+  CheckDefinition,
+  ColumnDefault,
+  ColumnType,
+} from './types.js';
 
 /**
  * Schema options for defining constraints and indexes
@@ -6,9 +14,9 @@ import type { StandardSchema, Table, ForeignKeyDefinition, IndexDefinition } fro
  */
 export type SchemaOptions<Input extends Table, Output extends Table> = {
   /**
-   * Primary key column
+   * Primary key column, or the columns of a composite primary key such as `['userId', 'roleId']`
    */
-  primaryKey?: string;
+  primaryKey?: (keyof Output & string) | Array<keyof Output & string>;
 
   /**
    * Foreign key constraints
@@ -19,6 +27,23 @@ export type SchemaOptions<Input extends Table, Output extends Table> = {
    * Indexes to create
    */
   indexes?: IndexDefinition[];
+
+  /**
+   * Default values of columns, which SQLite fills in when an insert leaves them out
+   */
+  defaults?: { [K in keyof Output & string]?: ColumnDefault };
+
+  /**
+   * CHECK constraints the table enforces, for raw SQL as well as the API
+   */
+  checks?: CheckDefinition[];
+
+  /**
+   * How each column is stored. Tables take their columns from here, or from the JSON Schema of the
+   * output when the schema library provides one, so a table exists with every column even when its
+   * file is empty. Without either, columns are inferred from the rows.
+   */
+  columns?: { [K in keyof Output & string]-?: ColumnType };
 } & (Output extends Input
   ? {
       /**
@@ -48,9 +73,9 @@ export interface BiDirectionalSchema<Input extends Table = Table, Output extends
   backward?: (output: Output) => Input;
 
   /**
-   * Primary key column
+   * Primary key column, or the columns of a composite primary key
    */
-  primaryKey?: string;
+  primaryKey?: string | string[];
 
   /**
    * Foreign key constraints
@@ -61,6 +86,21 @@ export interface BiDirectionalSchema<Input extends Table = Table, Output extends
    * Indexes to create
    */
   indexes?: IndexDefinition[];
+
+  /**
+   * Default values of columns
+   */
+  defaults?: Partial<Record<string, ColumnDefault>>;
+
+  /**
+   * CHECK constraints
+   */
+  checks?: CheckDefinition[];
+
+  /**
+   * How each column is stored
+   */
+  columns?: Record<string, ColumnType>;
 }
 
 /**
@@ -95,6 +135,13 @@ export interface BiDirectionalSchema<Input extends Table = Table, Output extends
  *     ]
  *   }
  * );
+ *
+ * @example
+ * // With a composite primary key
+ * const schema = defineSchema(
+ *   v.object({ userId: v.number(), roleId: v.number() }),
+ *   { primaryKey: ['userId', 'roleId'] }
+ * );
  */
 export function defineSchema<Input extends Table, Output extends Table>(
   schema: StandardSchema<Input, Output>,
@@ -118,6 +165,15 @@ export function defineSchema<Input extends Table, Output extends Table>(
     if (options.indexes) {
       bidirectionalSchema.indexes = options.indexes;
     }
+    if (options.defaults) {
+      bidirectionalSchema.defaults = options.defaults;
+    }
+    if (options.checks) {
+      bidirectionalSchema.checks = options.checks;
+    }
+    if (options.columns) {
+      bidirectionalSchema.columns = options.columns;
+    }
   }
 
   // Copy '~standard' property
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { routeToShards } from './shards.js';
+
+describe('routeToShards', () => {
+  const shards = [
+    { file: 'events.001.jsonl', rows: [{ id: 1, type: 'open' }] },
+    { file: 'events.002.jsonl', rows: [{ id: 2, type: 'click' }] },
+  ];
+
+  it('should route rows back to the shard holding their primary key', () => {
+    const routed = routeToShards(
+      [
+        { id: 2, type: 'tap' },
+        { id: 1, type: 'open' },
+      ],
+      shards,
+      ['id'],
+      () => 'events.002.jsonl',
+    );
+
+    expect(Object.fromEntries(routed)).toEqual({
+      'events.001.jsonl': [{ id: 1, type: 'open' }],
+      'events.002.jsonl': [{ id: 2, type: 'tap' }],
+    });
+  });
+
+  it('should route new rows to the shard picked for them', () => {
+    const routed = routeToShards(
+      [
+        { id: 1, type: 'open' },
+        { id: 3, type: 'close' },
+      ],
+      shards,
+      ['id'],
+      () => 'events.003.jsonl',
+    );
+
+    expect(Object.fromEntries(routed)).toEqual({
+      'events.001.jsonl': [{ id: 1, type: 'open' }],
+      'events.002.jsonl': [],
+      'events.003.jsonl': [{ id: 3, type: 'close' }],
+    });
+  });
+
+  it('should route rows without a primary key to the shard holding the same row', () => {
+    const routed = routeToShards([{ type: 'click', id: 2 }, { id: 4 }], shards, [], () => 'events.001.jsonl');
+
+    expect(Object.fromEntries(routed)).toEqual({
+      'events.001.jsonl': [{ id: 4 }],
+      'events.002.jsonl': [{ type: 'click', id: 2 }],
+    });
+  });
+
+  it('should tell a number key from the string of its digits', () => {
+    const routed = routeToShards([{ id: '2', type: 'tap' }], shards, ['id'], () => 'events.001.jsonl');
+
+    expect(Object.fromEntries(routed)).toEqual({
+      'events.001.jsonl': [{ id: '2', type: 'tap' }],
+      'events.002.jsonl': [],
+    });
+  });
+});
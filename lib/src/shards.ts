@@ -0,0 +1,48 @@
+import { canonical, rowKey } from './layers.js';
+import type { JsonObject } from './types.js';
+
+/**
+ * The rows one shard of a sharded table holds
+ */
+export interface ShardRows {
+  file: string;
+  rows: JsonObject[];
+}
+
+/**
+ * Split the rows of a sharded table across its shards. A row goes back to the shard holding the row
+ * with its primary key, or, without one, the shard holding the same row. Every other row goes to the
+ * shard `newShard` picks for it.
+ *
+ * @param rows - The rows of the table
+ * @param shards - The rows each shard holds now
+ * @param primaryKey - The table's primary key, which may be empty
+ * @param newShard - Picks the file of the shard a row no shard holds is written to
+ * @returns The rows of each shard, in the order of `rows`, with every shard of `shards` included
+ */
+export function routeToShards(
+  rows: JsonObject[],
+  shards: ShardRows[],
+  primaryKey: string[],
+  newShard: (row: JsonObject) => string,
+): Map<string, JsonObject[]> {
+  const identity = (row: JsonObject) => rowKey(row, primaryKey) ?? canonical(row);
+  const shardOf = new Map<string, string>();
+  for (const { file, rows: shardRows } of shards) {
+    for (const row of shardRows) {
+      shardOf.set(identity(row), file);
+    }
+  }
+
+  const routed = new Map<string, JsonObject[]>(shards.map(({ file }) => [file, []]));
+  for (const row of rows) {
+    const file = shardOf.get(identity(row)) ?? newShard(row);
+    const shardRows = routed.get(file);
+    if (shardRows) {
+      shardRows.push(row);
+    } else {
+      routed.set(file, [row]);
+    }
+  }
+  return routed;
+}
@@ -0,0 +1,161 @@
+import type { SQLiteDatabase } from './sqlite-adapter.js';
+import type { TableSchema } from './types.js';
+
+const MANIFEST_TABLE = 'lines_db_manifest';
+
+/**
+ * The version of how loading stores tables in a database file, kept in its user_version. Bump it
+ * whenever loading the same files would store different rows or columns, so tables stored by an
+ * earlier version are loaded again instead of being kept.
+ */
+const CACHE_FORMAT_VERSION = 1;
+
+/**
+ * The files a table was loaded from, identified by the hashes of their content
+ * and of the schema its config declares in place of its schema file
+ */
+export interface TableFingerprint {
+  jsonlHash: string;
+  /** Null for a table without a schema file or a schema in its config */
+  schemaHash: string | null;
+}
+
+/**
+ * A table the database file holds, along with what loading it left in memory
+ */
+export interface CachedTable {
+  schema: TableSchema;
+  /** The order the table's schema declares its fields in */
+  keyOrder: string[];
+  rowCount: number;
+}
+
+interface ManifestRow {
+  table_name: string;
+  jsonl_hash: string | null;
+  schema_hash: string | null;
+  table_schema: string;
+  key_order: string;
+  row_count: number;
+}
+
+/**
+ * Records in a database file which files each of its tables was loaded from, so a later process
+ * opening the same file can keep the tables whose files have not changed instead of loading them again.
+ *
+ * The manifest lives in the database file itself, so it changes in the same transactions as the
+ * tables it describes.
+ */
+export class TableCache {
+  constructor(private db: SQLiteDatabase) {
+    const { user_version: version } = db.prepare('PRAGMA user_version').get() as { user_version: number };
+    if (version !== CACHE_FORMAT_VERSION) {
+      // Without their manifest entries, the tables an earlier version stored are loaded again
+      db.exec(`DROP TABLE IF EXISTS ${MANIFEST_TABLE}`);
+      db.exec(`PRAGMA user_version = ${CACHE_FORMAT_VERSION}`);
+    }
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${MANIFEST_TABLE} (` +
+        'table_name TEXT PRIMARY KEY, jsonl_hash TEXT, schema_hash TEXT, ' +
+        'table_schema TEXT NOT NULL, key_order TEXT NOT NULL, row_count INTEGER NOT NULL)',
+    );
+  }
+
+  /**
+   * Get a table the database file holds, if it was loaded from files with this fingerprint
+   */
+  get(tableName: string, fingerprint: TableFingerprint): CachedTable | undefined {
+    const row = this.db.prepare(`SELECT * FROM ${MANIFEST_TABLE} WHERE table_name = ?`).get(tableName) as
+      | ManifestRow
+      | undefined;
+    if (!row || row.jsonl_hash !== fingerprint.jsonlHash || row.schema_hash !== fingerprint.schemaHash) {
+      return undefined;
+    }
+
+    const exists = this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(tableName);
+    if (!exists) {
+      return undefined;
+    }
+
+    return {
+      schema: JSON.parse(row.table_schema) as TableSchema,
+      keyOrder: JSON.parse(row.key_order) as string[],
+      rowCount: row.row_count,
+    };
+  }
+
+  /**
+   * Record the files a table was just loaded from
+   */
+  set(tableName: string, fingerprint: TableFingerprint, table: CachedTable): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${MANIFEST_TABLE} ` +
+          '(table_name, jsonl_hash, schema_hash, table_schema, key_order, row_count) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .run(
+        tableName,
+        fingerprint.jsonlHash,
+        fingerprint.schemaHash,
+        JSON.stringify(table.schema),
+        JSON.stringify(table.keyOrder),
+        table.rowCount,
+      );
+  }
+
+  /**
+   * Record that a table was written back to its JSONL file, which now holds what the table does
+   */
+  written(tableName: string, jsonlHash: string, table: CachedTable): void {
+    this.db
+      .prepare(
+        `UPDATE ${MANIFEST_TABLE} SET jsonl_hash = ?, table_schema = ?, key_order = ?, row_count = ? ` +
+          'WHERE table_name = ?',
+      )
+      .run(jsonlHash, JSON.stringify(table.schema), JSON.stringify(table.keyOrder), table.rowCount, tableName);
+  }
+
+  /**
+   * Mark tables as changed since they were last written back, so their JSONL files no longer hold
+   * what they do and a later process loads them again unless a write-back records them first
+   */
+  invalidate(tableNames: string[]): void {
+    const statement = this.db.prepare(`UPDATE ${MANIFEST_TABLE} SET jsonl_hash = NULL WHERE table_name = ?`);
+    for (const tableName of tableNames) {
+      statement.run(tableName);
+    }
+  }
+
+  /**
+   * Forget a table, and every table referencing it: their rows were checked against rows the table
+   * no longer holds
+   */
+  forget(tableName: string): void {
+    const rows = this.db.prepare(`SELECT table_name, table_schema FROM ${MANIFEST_TABLE}`).all() as ManifestRow[];
+    const forgotten = [tableName];
+    for (let i = 0; i < forgotten.length; i++) {
+      for (const row of rows) {
+        const schema = JSON.parse(row.table_schema) as TableSchema;
+        if (
+          !forgotten.includes(row.table_name) &&
+          schema.foreignKeys?.some((fk) => fk.references.table === forgotten[i])
+        ) {
+          forgotten.push(row.table_name);
+        }
+      }
+    }
+
+    const statement = this.db.prepare(`DELETE FROM ${MANIFEST_TABLE} WHERE table_name = ?`);
+    for (const name of forgotten) {
+      statement.run(name);
+    }
+  }
+
+  /**
+   * Every table the manifest records
+   */
+  tableNames(): string[] {
+    const rows = this.db.prepare(`SELECT table_name FROM ${MANIFEST_TABLE}`).all() as ManifestRow[];
+    return rows.map((row) => row.table_name);
+  }
+}
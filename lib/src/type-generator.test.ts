@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TypeGenerator } from './type-generator.js';
+import { writeFile, mkdir, rm, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('TypeGenerator', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `type-generator-test-${Date.now()}`);
+    await mkdir(join(testDir, 'admin'), { recursive: true });
+    await writeFile(join(testDir, 'posts.jsonl'), '{"id":1}\n');
+    await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1}\n');
+    await writeFile(join(testDir, 'admin', 'users.schema.ts'), 'export const schema = {};\n');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should emit namespaced keys for tables in subdirectories', async () => {
+    const output = await new TypeGenerator({ dataDir: testDir }).generate();
+    const content = await readFile(output, 'utf-8');
+
+    expect(content).toContain("import { schema as adminUsersSchema } from './admin/users.schema.js';");
+    expect(content).toContain("  'admin.users': InferOutput<typeof adminUsersSchema>;");
+    expect(content).toContain('  posts: Record<string, unknown>;');
+    expect(content).not.toContain('namespaceSeparator');
+  });
+
+  it('should write a configured separator into the config', async () => {
+    const output = await new TypeGenerator({ dataDir: testDir, namespaceSeparator: '__' }).generate();
+    const content = await readFile(output, 'utf-8');
+
+    expect(content).toContain('  admin__users: InferOutput<typeof adminUsersSchema>;');
+    expect(content).toContain("  dataDir: __dirname,\n  namespaceSeparator: '__',\n};");
+  });
+
+  it('should emit one key for a sharded table', async () => {
+    await writeFile(join(testDir, 'events.001.jsonl'), '{"id":1}\n');
+    await writeFile(join(testDir, 'events.002.jsonl.gz'), '');
+    await mkdir(join(testDir, 'logs'));
+    await writeFile(join(testDir, 'logs', '2024.jsonl'), '{"id":1}\n');
+    await writeFile(join(testDir, 'logs.schema.ts'), 'export const schema = {};\n');
+
+    const output = await new TypeGenerator({ dataDir: testDir }).generate();
+    const content = await readFile(output, 'utf-8');
+
+    expect(content.match(/ {2}events: /g)).toHaveLength(1);
+    expect(content).toContain('  logs: InferOutput<typeof logsSchema>;');
+    expect(content).not.toContain('logs.2024');
+  });
+
+  it('should emit the relations the foreign keys of the schemas describe', async () => {
+    await writeFile(join(testDir, 'customers.jsonl'), '{"id":1}\n');
+    await writeFile(join(testDir, 'orders.jsonl'), '{"id":1,"customerId":1}\n');
+    await writeFile(
+      join(testDir, 'orders.schema.ts'),
+      "export const schema = { foreignKeys: [{ column: 'customerId', references: { table: 'customers', column: 'id' } }] };\n",
+    );
+
+    const output = await new TypeGenerator({ dataDir: testDir }).generate();
+    const content = await readFile(output, 'utf-8');
+
+    expect(content).toContain(
+      'export type Relations = {\n' +
+        "  orders: {\n    customer: { table: 'customers'; many: false };\n  };\n" +
+        "  customers: {\n    orders: { table: 'orders'; many: true };\n  };\n" +
+        '};',
+    );
+    expect(content).toContain('export const config: DatabaseConfig<Tables, Relations, PrimaryKeys> = {');
+  });
+
+  it('should emit the primary key columns the schemas declare', async () => {
+    await writeFile(join(testDir, 'user_roles.jsonl'), '{"userId":1,"roleId":1}\n');
+    await writeFile(
+      join(testDir, 'user_roles.schema.ts'),
+      "export const schema = { primaryKey: ['userId', 'roleId'] };\n",
+    );
+    await writeFile(join(testDir, 'posts.schema.ts'), "export const schema = { primaryKey: 'id' };\n");
+
+    const output = await new TypeGenerator({ dataDir: testDir }).generate();
+    const content = await readFile(output, 'utf-8');
+
+    expect(content).toContain("export type PrimaryKeys = {\n  posts: 'id';\n  user_roles: 'userId' | 'roleId';\n};");
+  });
+
+  it('should emit a key for a directory of records', async () => {
+    await mkdir(join(testDir, 'articles'));
+    await writeFile(join(testDir, 'articles', 'hello.json'), '{"slug":"hello"}\n');
+    await writeFile(join(testDir, 'articles.schema.ts'), "export const schema = { primaryKey: 'slug' };\n");
+
+    const output = await new TypeGenerator({ dataDir: testDir }).generate();
+    const content = await readFile(output, 'utf-8');
+
+    expect(content).toContain('  articles: InferOutput<typeof articlesSchema>;');
+  });
+
+  it('should report a schema file it cannot import', async () => {
+    await writeFile(join(testDir, 'posts.schema.ts'), "throw new Error('broken');\n");
+
+    await expect(new TypeGenerator({ dataDir: testDir }).generate()).rejects.toThrow(
+      /Failed to load schema for table 'posts' from .*posts\.schema\.ts: broken/,
+    );
+  });
+});
@@ -1,12 +1,17 @@
 import { readdir } from 'node:fs/promises';
-import { join, relative, basename, dirname, isAbsolute } from 'node:path';
+import { join, relative, dirname, isAbsolute } from 'node:path';
 import { writeFile, mkdir } from 'node:fs/promises';
 import { findSchemaFileInEntries, rewriteExtensionForImport } from './schema-extensions.js';
+import { relationsOf } from './relations.js';
+import { SchemaLoader } from './schema-loader.js';
+import type { ForeignKeyDefinition, RelationDefs } from './types.js';
+import { DEFAULT_NAMESPACE_SEPARATOR, isShardDirectory, tableBaseNameOf } from './directory-scanner.js';
 
 export interface TypeGeneratorOptions {
   dataDir: string;
   projectRoot?: string; // Default: current working directory
   output?: string; // Output file path (default: db.ts in dataDir)
+  namespaceSeparator?: string; // Joins subdirectories to table names (default: '.')
 }
 
 interface TableInfo {
@@ -19,6 +24,7 @@ export class TypeGenerator {
   private projectRoot: string;
   private outputFile: string;
   private dataDirPath: string;
+  private namespaceSeparator: string;
 
   constructor(options: TypeGeneratorOptions) {
     // For testing: allow overriding projectRoot via environment variable
@@ -31,6 +37,7 @@ export class TypeGenerator {
         ? options.output
         : join(this.projectRoot, options.output)
       : join(this.dataDirPath, 'db.ts');
+    this.namespaceSeparator = options.namespaceSeparator ?? DEFAULT_NAMESPACE_SEPARATOR;
   }
 
   /**
@@ -41,11 +48,13 @@ export class TypeGenerator {
     const tables = await this.findTables();
 
     if (tables.length === 0) {
-      throw new Error(`No JSONL files found in ${this.dataDirPath}. Place one or more *.jsonl files in the directory.`);
+      throw new Error(
+        `No JSONL, CSV or TSV files found in ${this.dataDirPath}. Place one or more *.jsonl, *.csv or *.tsv files in the directory.`,
+      );
     }
 
     // Generate type declarations
-    const content = this.generateTypeDeclarations(tables);
+    const content = this.generateTypeDeclarations(tables, await this.readSchemaKeys(tables));
 
     // Ensure output directory exists
     const outputDir = dirname(this.outputFile);
@@ -58,26 +67,11 @@ export class TypeGenerator {
   }
 
   /**
-   * Find all *.jsonl files and check if they have corresponding *.schema.ts files
+   * Find all *.jsonl files, in subdirectories too, and check if they have corresponding *.schema.ts files
    */
   private async findTables(): Promise<TableInfo[]> {
     try {
-      const entries = await readdir(this.dataDirPath, { withFileTypes: true });
-      const tables: TableInfo[] = [];
-
-      for (const entry of entries) {
-        if (entry.isFile() && entry.name.endsWith('.jsonl')) {
-          const tableName = basename(entry.name, '.jsonl');
-          const schemaFilePath = findSchemaFileInEntries(this.dataDirPath, tableName, entries);
-
-          tables.push({
-            tableName,
-            schemaFile: schemaFilePath,
-          });
-        }
-      }
-
-      return tables;
+      return await this.collectTables(this.dataDirPath, []);
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
         throw new Error(`Data directory not found: ${this.dataDirPath}. Set lines-db.dataDir to the correct location.`);
@@ -86,10 +80,78 @@ export class TypeGenerator {
     }
   }
 
+  private async collectTables(dir: string, namespace: string[]): Promise<TableInfo[]> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const names = entries.map((entry) => entry.name);
+    const tables: TableInfo[] = [];
+
+    // The shards of a table are listed once
+    const baseNames = new Set<string>();
+    const addTable = (baseName: string) => {
+      if (!baseNames.has(baseName)) {
+        baseNames.add(baseName);
+        tables.push({
+          tableName: [...namespace, baseName].join(this.namespaceSeparator),
+          schemaFile: findSchemaFileInEntries(dir, baseName, entries),
+        });
+      }
+    };
+
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        // Skipped as DirectoryScanner skips them
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+          continue;
+        }
+        // A directory of records has a schema file beside it too
+        if (isShardDirectory(entry.name, entries)) {
+          addTable(entry.name);
+        } else {
+          tables.push(...(await this.collectTables(join(dir, entry.name), [...namespace, entry.name])));
+        }
+      } else if (entry.isFile() && tableBaseNameOf(entry.name, names) !== null) {
+        addTable(tableBaseNameOf(entry.name, names)!);
+      }
+    }
+
+    return tables;
+  }
+
+  /**
+   * Describe the relations of the tables from the foreign keys their schema files declare, and read
+   * the primary key columns they declare. A schema file that cannot be imported fails the generation.
+   */
+  private async readSchemaKeys(
+    tables: TableInfo[],
+  ): Promise<{ relations: RelationDefs; primaryKeys: Map<string, string[]> }> {
+    const foreignKeys = new Map<string, ForeignKeyDefinition[]>();
+    const primaryKeys = new Map<string, string[]>();
+    for (const table of tables) {
+      if (!table.schemaFile) {
+        continue;
+      }
+      const schemaModule = await SchemaLoader.importSchemaModule(table.tableName, table.schemaFile);
+      const schemaExport = (schemaModule.schema || schemaModule.default) as Record<string, unknown> | undefined;
+      const fks = schemaExport?.foreignKeys ?? schemaModule.foreignKeys;
+      if (Array.isArray(fks)) {
+        foreignKeys.set(table.tableName, fks);
+      }
+      const primaryKey: unknown = schemaExport?.primaryKey ?? schemaModule.primaryKey;
+      const columns = typeof primaryKey === 'string' ? [primaryKey] : primaryKey;
+      if (Array.isArray(columns) && columns.length > 0 && columns.every((column) => typeof column === 'string')) {
+        primaryKeys.set(table.tableName, columns);
+      }
+    }
+    return { relations: relationsOf(foreignKeys), primaryKeys };
+  }
+
   /**
    * Generate type declaration content
    */
-  private generateTypeDeclarations(tables: TableInfo[]): string {
+  private generateTypeDeclarations(
+    tables: TableInfo[],
+    { relations, primaryKeys }: { relations: RelationDefs; primaryKeys: Map<string, string[]> },
+  ): string {
     const imports: string[] = [];
     const tableEntries: string[] = [];
     const usedAliases = new Set<string>();
@@ -123,10 +185,31 @@ export class TypeGenerator {
       }
     }
 
+    const relationEntries = Object.entries(relations)
+      .filter(([, tableRelations]) => Object.keys(tableRelations).length > 0)
+      .map(([tableName, tableRelations]) => {
+        const entries = Object.entries(tableRelations).map(
+          ([name, { table, many }]) =>
+            `    ${this.formatTableKey(name)}: { table: ${this.quote(table)}; many: ${many} };`,
+        );
+        return `  ${this.formatTableKey(tableName)}: {\n${entries.join('\n')}\n  };`;
+      });
+
+    const primaryKeyEntries = Array.from(
+      primaryKeys,
+      ([tableName, columns]) =>
+        `  ${this.formatTableKey(tableName)}: ${columns.map((column) => this.quote(column)).join(' | ')};`,
+    );
+
     // Generate full content
     const importSection = imports.length > 0 ? `${imports.join('\n')}\n` : '';
     const inferOutputImport = imports.length > 0 ? ', InferOutput' : '';
 
+    const separatorOption =
+      this.namespaceSeparator === DEFAULT_NAMESPACE_SEPARATOR
+        ? ''
+        : `\n  namespaceSeparator: '${this.namespaceSeparator.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}',`;
+
     return `// Auto-generated by lines-db
 // Do not edit this file manually
 
@@ -141,8 +224,12 @@ export type Tables = {
 ${tableEntries.join('\n')}
 };
 
-export const config: DatabaseConfig<Tables> = {
-  dataDir: __dirname,
+export type Relations = {${relationEntries.length > 0 ? `\n${relationEntries.join('\n')}\n` : ''}};
+
+export type PrimaryKeys = {${primaryKeyEntries.length > 0 ? `\n${primaryKeyEntries.join('\n')}\n` : ''}};
+
+export const config: DatabaseConfig<Tables, Relations, PrimaryKeys> = {
+  dataDir: __dirname,${separatorOption}
 };
 `;
   }
@@ -170,7 +257,11 @@ export const config: DatabaseConfig<Tables> = {
     if (identifierPattern.test(tableName)) {
       return tableName;
     }
-    const escaped = tableName.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    return this.quote(tableName);
+  }
+
+  private quote(value: string): string {
+    const escaped = value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
     return `'${escaped}'`;
   }
 }
@@ -34,22 +34,72 @@ export interface ValidationErrorDetail {
   file: string;
   tableName: string;
   rowIndex: number;
+  /** The data directory of the layer the row comes from, when `dataDir` is layered */
+  layer?: string;
   issues: ReadonlyArray<StandardSchemaIssue>;
-  type?: 'schema' | 'foreignKey';
+  type?: 'schema' | 'foreignKey' | 'check' | 'parse';
   foreignKeyError?: {
+    /** The referencing column, or the columns of a composite foreign key joined with `, ` */
     column: string;
+    /** The value no referenced row has, or the list of values of a composite foreign key */
     value: unknown;
     referencedTable: string;
+    /** The referenced column, or the referenced columns of a composite foreign key joined with `, ` */
     referencedColumn: string;
+    /** The referencing columns, in key order */
+    columns: string[];
+    /** The referenced columns, in the order of `columns` */
+    referencedColumns: string[];
+  };
+  /** The CHECK constraint a row failed, for errors of type `check` */
+  checkError?: CheckDefinition;
+  /** Where a line that is not valid JSON failed to parse, for errors of type `parse` */
+  parseError?: {
+    /** 1-based line number in the file */
+    line: number;
+    /** 1-based column the parser stopped at */
+    column: number;
   };
 }
 
-export interface ForeignKeyDefinition {
-  column: string;
-  references: {
-    table: string;
-    column: string;
-  };
+/**
+ * A foreign key on one column, or on several columns referencing a composite key such as
+ * `(tenantId, code)`. The columns are matched to the referenced columns in order.
+ */
+export type ForeignKeyDefinition = ForeignKeyOptions &
+  (
+    | {
+        column: string;
+        columns?: never;
+        references: {
+          table: string;
+          column: string;
+          columns?: never;
+        };
+      }
+    | {
+        column?: never;
+        columns: string[];
+        references: {
+          table: string;
+          column?: never;
+          columns: string[];
+        };
+      }
+  );
+
+interface ForeignKeyOptions {
+  /**
+   * Name the referenced row is included under when loading relations from the referencing table.
+   * Defaults to the column without its `Id`/`_id` suffix (`customerId` -> `customer`), or to the
+   * referenced table's name for a composite foreign key
+   */
+  as?: string;
+  /**
+   * Name the referencing rows are included under when loading relations from the referenced table.
+   * Defaults to the referencing table's name
+   */
+  inverseAs?: string;
   onDelete?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
   onUpdate?: 'CASCADE' | 'SET NULL' | 'RESTRICT' | 'NO ACTION';
 }
@@ -60,11 +110,38 @@ export interface IndexDefinition {
   unique?: boolean;
 }
 
+/**
+ * A CHECK constraint: an SQL expression over the table's columns every row must satisfy
+ */
+export interface CheckDefinition {
+  /** Name of the constraint, reported when a row fails it */
+  name: string;
+  /** SQL expression, such as `price >= 0` or `status IN ('draft', 'published')` */
+  expression: string;
+}
+
+/**
+ * How a column is stored: an SQLite type, `JSON` for objects and arrays kept as text, or `BOOLEAN`
+ * for an INTEGER column read back as true or false
+ */
+export type ColumnType = 'TEXT' | 'INTEGER' | 'REAL' | 'BLOB' | 'JSON' | 'BOOLEAN';
+
+/**
+ * A column's default value, used when an insert leaves the column out
+ */
+export type ColumnDefault = string | number | boolean | null;
+
 export interface TableSchema {
   name: string;
   columns: ColumnDefinition[];
+  /**
+   * Columns of the primary key in key order. Each is also marked `primaryKey`;
+   * when this is omitted, the marked columns form the key in column order.
+   */
+  primaryKey?: string[];
   foreignKeys?: ForeignKeyDefinition[];
   indexes?: IndexDefinition[];
+  checks?: CheckDefinition[];
 }
 
 export interface ColumnDefinition {
@@ -73,14 +150,50 @@ export interface ColumnDefinition {
   primaryKey?: boolean;
   notNull?: boolean;
   unique?: boolean;
+  default?: ColumnDefault;
   valueType?: 'boolean';
+  /**
+   * Whether a row may leave the field out. NULL in this column then means the row leaves it out, so
+   * the field is neither returned nor written back, unless the row set it to null.
+   */
+  optional?: boolean;
 }
 
 export type TableDefs = Record<string, Table>;
 export declare const TABLES_BRAND: unique symbol;
 
-export interface DatabaseConfig<_Tables extends TableDefs = TableDefs> {
-  dataDir: string; // Directory containing JSONL files
+/**
+ * A relation `include` loads: the table it includes rows of, and whether it includes a list of them
+ * (the rows referencing a row) or a single row (the row a foreign key references)
+ */
+export interface RelationDef {
+  table: string;
+  many: boolean;
+}
+
+/**
+ * The relations of each table by name, as `lines-db generate` describes them from the foreign keys
+ */
+export type RelationDefs = Record<string, Record<string, RelationDef>>;
+export declare const RELATIONS_BRAND: unique symbol;
+
+/**
+ * The primary key columns of each table, as `lines-db generate` reads them from the schema files
+ */
+export type PrimaryKeyDefs = Record<string, string>;
+export declare const PRIMARY_KEYS_BRAND: unique symbol;
+
+export interface DatabaseConfig<
+  _Tables extends TableDefs = TableDefs,
+  _Relations extends RelationDefs = {},
+  _PrimaryKeys extends PrimaryKeyDefs = {},
+> {
+  /**
+   * Directory containing JSONL files, or a list of layered directories, lowest first. A later layer
+   * adds tables and rows to the ones below it, overrides rows with the same primary key, and deletes
+   * them with a row marked `"$deleted": true`.
+   */
+  dataDir: string | readonly string[];
   /**
    * Fields written back to the JSONL files on sync.
    * When set, only these fields are taken from the database; every other field keeps the value
@@ -90,7 +203,35 @@ export interface DatabaseConfig<_Tables extends TableDefs = TableDefs> {
    * Defaults to writing every field of the row.
    */
   writeBackFields?: readonly string[];
+  /**
+   * Joins the subdirectories of `dataDir` a JSONL file is in to its table name, so
+   * `admin/users.jsonl` holds table `admin.users`. Defaults to `.`.
+   */
+  namespaceSeparator?: string;
+  /**
+   * The layer of a layered `dataDir` sync writes to, as the difference between the tables and the
+   * layers below it. Defaults to the last layer.
+   */
+  syncLayer?: string;
+  /**
+   * Picks the shard of a sharded table a row no shard holds yet is written to on sync, by the name of
+   * its file such as `events.003.jsonl`, which is created when it does not exist. Returning undefined,
+   * or leaving this unset, writes the row to the last shard.
+   */
+  shardFor?: (tableName: string, row: JsonObject) => string | undefined;
+  /**
+   * Milliseconds a sync waits for another process to release the lock file of a table it writes,
+   * `<file>.lock`, before failing. 0 fails at once. Defaults to 5000.
+   */
+  lockTimeout?: number;
+  /**
+   * What a sync does when a table's files changed on disk since this database loaded or last wrote
+   * them, such as when they were edited by hand. Defaults to `fail`.
+   */
+  onSyncConflict?: SyncConflictPolicy;
   readonly [TABLES_BRAND]?: _Tables;
+  readonly [RELATIONS_BRAND]?: _Relations;
+  readonly [PRIMARY_KEYS_BRAND]?: _PrimaryKeys;
 }
 
 export type ExtractTables<Config> = Config extends {
@@ -103,13 +244,50 @@ export type ExtractTables<Config> = Config extends {
     ? T
     : TableDefs;
 
+/**
+ * The file a table has in one layer of a layered data directory
+ */
+export interface TableLayer {
+  dataDir: string;
+  jsonlPath: string;
+  /** The files the table's rows in this layer are split across, when it is sharded there */
+  shards?: string[];
+  /** The directory holding one file per row of the table in this layer, when it is kept that way there */
+  recordDir?: string;
+}
+
 export interface TableConfig {
+  /**
+   * The table's file, or its file in the lowest layer holding it, which its schema file sits beside.
+   * For a sharded table or a directory of records, the path its files are named after, which no file has.
+   */
   jsonlPath: string;
+  /** The files a sharded table's rows are split across, in the order they are read */
+  shards?: string[];
+  /** The directory holding one `<primary key>.json` file per row, for a table kept that way */
+  recordDir?: string;
+  /** The table's files in a layered data directory, lowest layer first */
+  layers?: TableLayer[];
   schema?: TableSchema;
   autoInferSchema?: boolean;
   validationSchema?: StandardSchema; // Optional validation schema
 }
 
+/**
+ * What a sync does when a table's files changed on disk since they were loaded or last written:
+ * - `fail`: throw a {@link SyncConflictError}, leaving the files as they are
+ * - `merge`: re-apply the rows the database changed since onto the rows the files hold now, by primary
+ *   key, and load their other changes into the database
+ * - `overwrite`: write the database's rows over the files
+ */
+export type SyncConflictPolicy = 'fail' | 'merge' | 'overwrite';
+
+export interface SyncConflictError extends Error {
+  name: 'SyncConflictError';
+  /** The table whose files changed */
+  table: string;
+}
+
 export interface ValidationError extends Error {
   name: 'ValidationError';
   issues: ReadonlyArray<StandardSchemaIssue>;
@@ -122,7 +300,36 @@ export interface JsonObject {
 export type JsonArray = JsonValue[];
 
 // WHERE condition types for filtering
-export type WhereValue<T> = T | ((value: T) => boolean);
+/**
+ * Comparison operators for a single column, compiled to parameterized SQL.
+ * Every operator given in one object must hold.
+ */
+export interface WhereOperators<T> {
+  /** Equal to the value (`=`) */
+  eq?: T;
+  /** Not equal to the value (`IS NOT`, so a null column counts as different from any non-null value) */
+  ne?: T;
+  /** Greater than the value */
+  gt?: NonNullable<T>;
+  /** Greater than or equal to the value */
+  gte?: NonNullable<T>;
+  /** Less than the value */
+  lt?: NonNullable<T>;
+  /** Less than or equal to the value */
+  lte?: NonNullable<T>;
+  /** One of the values. An empty list matches no row */
+  in?: readonly NonNullable<T>[];
+  /** None of the values. A null column matches neither `in` nor `notIn` */
+  notIn?: readonly NonNullable<T>[];
+  /** SQL LIKE pattern (`%` for any run of characters, `_` for one), case-insensitive for ASCII */
+  like?: [Extract<T, string>] extends [never] ? never : string;
+  /** Between the two values, both ends included */
+  between?: readonly [NonNullable<T>, NonNullable<T>];
+  /** `true` for a null column, `false` for a non-null one */
+  isNull?: boolean;
+}
+
+export type WhereValue<T> = T | WhereOperators<T> | ((value: T) => boolean);
 
 export type WhereObject<T extends Table> = {
   [K in keyof T]?: WhereValue<T[K]>;
@@ -133,3 +340,129 @@ export type WhereCondition<T extends Table> =
   | WhereConditionArray<T>; // Array with OR conditions
 
 export type WhereConditionArray<T extends Table> = Array<WhereObject<T> | WhereConditionArray<T>>;
+
+// Query options for find/findOne
+export type OrderDirection = 'asc' | 'desc';
+
+/**
+ * Sort keys with their direction. Keys of one object apply in the order they are written, and a list of
+ * objects applies its entries in list order: `[{ age: 'desc' }, { name: 'asc' }]`.
+ */
+export type OrderBy<T extends Table> =
+  | { [K in keyof T & string]?: OrderDirection }
+  | Array<{ [K in keyof T & string]?: OrderDirection }>;
+
+export interface FindOptions<T extends Table, S extends keyof T & string = keyof T & string> {
+  /** Sort the rows. Without it rows come back in the order SQLite returns them */
+  orderBy?: OrderBy<T>;
+  /** Return at most this many rows */
+  limit?: number;
+  /** Skip this many rows before returning any */
+  offset?: number;
+  /** Columns to return. Defaults to every column */
+  select?: readonly S[];
+  /** Relations to load along the table's foreign keys, by relation name */
+  include?: Include;
+}
+
+/**
+ * Relations to load with each row: the rows a foreign key references, or the rows referencing them
+ */
+export type Include = Readonly<Record<string, boolean>>;
+
+/**
+ * The type a relation is included as: a list of the rows referencing a row, or the row a foreign key
+ * references or null. `unknown` for a relation the table's relations do not describe.
+ */
+export type IncludedRelation<Tables extends TableDefs, Relation> = Relation extends {
+  table: infer T extends keyof Tables;
+  many: infer Many;
+}
+  ? Many extends true
+    ? Tables[T][]
+    : Tables[T] | null
+  : unknown;
+
+/**
+ * The relations of one table, or none when `Relations` does not describe it
+ */
+export type RelationsOf<Relations extends RelationDefs, K> = K extends keyof Relations ? Relations[K] : {};
+
+/**
+ * A record naming a row by its primary key, as batch updates and deletes take it: the primary key
+ * columns `PrimaryKeys` lists for table `K` are required, and every other column is optional
+ */
+export type KeyedRecord<Row, PrimaryKeys extends PrimaryKeyDefs, K> = (K extends keyof PrimaryKeys
+  ? Required<Pick<Row, PrimaryKeys[K] & keyof Row>>
+  : {}) &
+  Partial<Row> &
+  Record<string, unknown>;
+
+/**
+ * A row with the relations `include` names added to it, typed from the relations of its table
+ */
+export type WithRelations<
+  Row,
+  Tables extends TableDefs,
+  I extends Include,
+  TableRelations extends Record<string, RelationDef> = {},
+> = [keyof I] extends [never]
+  ? Row
+  : Row & {
+      [R in keyof I & string as I[R] extends false ? never : R]: IncludedRelation<
+        Tables,
+        R extends keyof TableRelations ? TableRelations[R] : unknown
+      >;
+    };
+
+/**
+ * A row as `find` returns it: the whole row, or only the columns `select` lists
+ */
+export type FindResult<T extends Table, S extends keyof T & string> = [keyof T & string] extends [S] ? T : Pick<T, S>;
+
+/**
+ * One row a mutation changed: `before` is null for an inserted row and `after` for a deleted one
+ */
+export interface RowChange<T> {
+  /** The row's primary key value, or its rowid in a table without a primary key */
+  key: unknown;
+  before: T | null;
+  after: T | null;
+}
+
+/**
+ * The rows one `insert`, `update` or `delete` call - or its batch variant - changed in a table
+ */
+export type MutationEvent<Tables extends TableDefs> = {
+  [K in keyof Tables & string]: {
+    table: K;
+    changes: RowChange<Tables[K]>[];
+    /**
+     * Identifies the `transaction()` the change was made in, shared by every event of that transaction;
+     * null for a change made outside one
+     */
+    transactionId: number | null;
+  };
+}[keyof Tables & string];
+
+/**
+ * A table written back to its JSONL file
+ */
+export interface SyncEvent {
+  table: string;
+  file: string;
+  /**
+   * 1-based numbers of the lines of a JSONL file the sync wrote anew. Every other line kept its text.
+   */
+  lines?: number[];
+}
+
+/**
+ * Events `LinesDB.on` subscribes to, mapped to what their handlers receive
+ */
+export interface LinesDBEvents<Tables extends TableDefs> {
+  insert: MutationEvent<Tables>;
+  update: MutationEvent<Tables>;
+  delete: MutationEvent<Tables>;
+  sync: SyncEvent;
+}
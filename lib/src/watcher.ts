@@ -0,0 +1,158 @@
+import { EventEmitter } from 'node:events';
+import { watch, type FSWatcher } from 'node:fs';
+import { join } from 'node:path';
+import { isSchemaFile } from './schema-extensions.js';
+import type { ValidationResult } from './types.js';
+
+/**
+ * Options for {@link LinesDB.watch}
+ */
+export interface WatchOptions {
+  /**
+   * How long to wait after the last change before reloading, in milliseconds.
+   * Editors often write a file in several steps, and this collects them into one reload.
+   * Defaults to 100.
+   */
+  debounceMs?: number;
+}
+
+/**
+ * A reload of the tables whose files changed, along with the tables that reference them
+ */
+export interface WatchReloadEvent {
+  /** Every table that was reloaded, the ones whose files changed first */
+  tables: string[];
+  /** The result of loading the tables again, as `initialize()` reports it */
+  result: ValidationResult;
+}
+
+/**
+ * Events a {@link LinesDBWatcher} emits.
+ * `error` carries the reload event when the reloaded data failed validation, and no event when the
+ * reload itself failed. As with any EventEmitter, an `error` nobody listens for is thrown.
+ */
+export type WatchEventMap = {
+  reload: [event: WatchReloadEvent];
+  error: [error: Error, event?: WatchReloadEvent];
+};
+
+/**
+ * Callbacks the database gives its watcher
+ */
+interface WatchHandlers {
+  /** Reload the tables, returning the reload event */
+  reload: (tableNames: string[]) => Promise<WatchReloadEvent>;
+  /** The table a file in a data directory belongs to, or null for a file that belongs to no table */
+  tableNameOf: (fileName: string) => string | null;
+  /** Whether a table's file holds what the database last wrote to it itself */
+  isOwnWrite: (filePath: string, tableName: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/**
+ * Watches the data directories and reloads the tables whose JSONL or schema files change
+ */
+export class LinesDBWatcher extends EventEmitter<WatchEventMap> {
+  private watchers: FSWatcher[];
+  /** Tables whose schema file changed since the last reload */
+  private changedSchemas: Set<string> = new Set();
+  /** Paths of the JSONL files changed since the last reload, which may be the database's own writes, and their tables */
+  private changedFiles: Map<string, string> = new Map();
+  private timer: NodeJS.Timeout | undefined;
+  /** The reload in progress, so reloads never overlap */
+  private reloading: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    dataDirs: readonly string[],
+    private handlers: WatchHandlers,
+    private options: WatchOptions = {},
+  ) {
+    super();
+    this.watchers = dataDirs.map((dataDir) => {
+      // Tables in subdirectories are watched too
+      const watcher = watch(dataDir, { recursive: true }, (_eventType, fileName) => {
+        if (fileName) {
+          this.handleChange(dataDir, fileName.toString());
+        }
+      });
+      watcher.on('error', (error) => this.emit('error', error));
+      return watcher;
+    });
+  }
+
+  /**
+   * Stop watching, waiting for a reload in progress to finish
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.handlers.onClose();
+    await this.reloading;
+  }
+
+  private handleChange(dataDir: string, fileName: string): void {
+    const tableName = this.handlers.tableNameOf(fileName);
+    if (tableName === null) {
+      return;
+    }
+    if (!isSchemaFile(fileName)) {
+      this.changedFiles.set(join(dataDir, fileName), tableName);
+    } else {
+      this.changedSchemas.add(tableName);
+    }
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      // An `error` nobody listens for rejects this run, which must not stop the runs after it
+      const run = this.reloading.then(() => this.flush());
+      this.reloading = run.catch(() => {});
+    }, this.options.debounceMs ?? 100);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    const tableNames = new Set(this.changedSchemas);
+    const files = new Map(this.changedFiles);
+    this.changedSchemas.clear();
+    this.changedFiles.clear();
+
+    let event: WatchReloadEvent;
+    try {
+      for (const [filePath, tableName] of files) {
+        // A JSONL file our own sync wrote holds nothing the database does not already have
+        if (!(await this.handlers.isOwnWrite(filePath, tableName))) {
+          tableNames.add(tableName);
+        }
+      }
+      if (tableNames.size === 0) {
+        return;
+      }
+
+      event = await this.handlers.reload(Array.from(tableNames));
+    } catch (error) {
+      if (!this.closed) {
+        this.emit('error', error instanceof Error ? error : new Error(String(error)));
+      }
+      return;
+    }
+
+    if (this.closed) {
+      return;
+    }
+    if (event.result.valid) {
+      this.emit('reload', event);
+    } else {
+      this.emit('error', new Error(`Reloaded tables have validation errors: ${event.tables.join(', ')}`), event);
+    }
+  }
+}
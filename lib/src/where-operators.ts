@@ -0,0 +1,93 @@
+import type { WhereOperators } from './types.js';
+
+/**
+ * Operator names a {@link WhereOperators} object may hold
+ */
+export const WHERE_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'in',
+  'notIn',
+  'like',
+  'between',
+  'isNull',
+] as const;
+
+const OPERATOR_NAMES: ReadonlySet<string> = new Set(WHERE_OPERATORS);
+
+/**
+ * Check whether a where value is an operator object rather than a value to compare for equality.
+ *
+ * Only a plain object whose keys are all operator names counts, so a JSON column compared against
+ * an object such as `{ source: 'web' }` keeps meaning equality.
+ */
+export function isWhereOperators(value: unknown): value is WhereOperators<unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || value instanceof Uint8Array) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => OPERATOR_NAMES.has(key));
+}
+
+/**
+ * Evaluate operators against a row value in JavaScript, the way SQLite evaluates the SQL they
+ * compile to: a comparison involving a null value never holds, while `ne` compares with `IS NOT`.
+ * Used when a condition cannot be run as SQL, such as an OR that also holds function filters.
+ */
+export function matchesWhereOperators(rowValue: unknown, operators: WhereOperators<unknown>): boolean {
+  const isNull = rowValue === null || rowValue === undefined;
+  const compare = (expected: unknown, test: (a: never, b: never) => boolean) =>
+    !isNull && expected !== null && expected !== undefined && test(rowValue as never, expected as never);
+
+  return Object.entries(operators).every(([operator, expected]) => {
+    if (expected === undefined) return true;
+    switch (operator as (typeof WHERE_OPERATORS)[number]) {
+      case 'eq':
+        return compare(expected, (a, b) => a === b);
+      case 'ne':
+        return rowValue !== expected && !(isNull && expected === null);
+      case 'gt':
+        return compare(expected, (a, b) => a > b);
+      case 'gte':
+        return compare(expected, (a, b) => a >= b);
+      case 'lt':
+        return compare(expected, (a, b) => a < b);
+      case 'lte':
+        return compare(expected, (a, b) => a <= b);
+      case 'in':
+        return !isNull && (expected as readonly unknown[]).includes(rowValue);
+      case 'notIn':
+        return !isNull && !(expected as readonly unknown[]).includes(rowValue);
+      case 'like':
+        return typeof rowValue === 'string' && likeToRegExp(expected as string).test(rowValue);
+      case 'between': {
+        const [low, high] = expected as readonly [unknown, unknown];
+        return compare(low, (a, b) => a >= b) && compare(high, (a, b) => a <= b);
+      }
+      case 'isNull':
+        return expected ? isNull : !isNull;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Translate a SQL LIKE pattern into a regular expression. Like SQLite's default LIKE, the match
+ * ignores the case of ASCII letters only and `%` and `_` are the only wildcards.
+ */
+function likeToRegExp(pattern: string): RegExp {
+  const source = Array.from(pattern)
+    .map((char) => {
+      if (char === '%') return '.*';
+      if (char === '_') return '.';
+      if (/[a-zA-Z]/.test(char)) return `[${char.toLowerCase()}${char.toUpperCase()}]`;
+      return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'su');
+}
@@ -1,4 +1,4 @@
-import { describe, it, beforeEach, afterEach, expect } from 'vitest';
+import { describe, it, beforeEach, afterEach, expect, expectTypeOf } from 'vitest';
 import { LinesDB, TypeGenerator, type DatabaseConfig, type ColumnDefinition, type TableDefs } from '@toiroakr/lines-db';
 import { join } from 'node:path';
 import { mkdir, rm, cp } from 'node:fs/promises';
@@ -134,6 +134,98 @@ describe('LinesDB', () => {
     });
   });
 
+  describe('find options', () => {
+    it('should order rows by several keys', () => {
+      db.insert('users', { id: 4, name: 'Dave', age: 30, email: 'dave@example.com' });
+
+      const result = db.find('users', undefined, { orderBy: { age: 'desc', name: 'desc' } });
+      expect(result.map((u) => u.name)).toEqual(['Charlie', 'Dave', 'Alice', 'Bob']);
+
+      const listed = db.find('users', undefined, { orderBy: [{ age: 'asc' }, { name: 'desc' }] });
+      expect(listed.map((u) => u.name)).toEqual(['Bob', 'Dave', 'Alice', 'Charlie']);
+    });
+
+    it('should page rows with limit and offset', () => {
+      const page = db.find('users', undefined, { orderBy: { id: 'asc' }, limit: 2, offset: 1 });
+      expect(page.map((u) => u.id)).toEqual([2, 3]);
+
+      const rest = db.find('users', undefined, { orderBy: { id: 'asc' }, offset: 2 });
+      expect(rest.map((u) => u.id)).toEqual([3]);
+    });
+
+    it('should return only the selected columns', () => {
+      const result = db.find('users', { id: 1 }, { select: ['id', 'name'] });
+      expect(result).toEqual([{ id: 1, name: 'Alice' }]);
+    });
+
+    it('should page and select after function filters', () => {
+      const result = db.find(
+        'users',
+        { age: (age: unknown) => (age as number) >= 30 },
+        { orderBy: { age: 'desc' }, limit: 1, offset: 1, select: ['name'] },
+      );
+      expect(result).toEqual([{ name: 'Alice' }]);
+    });
+
+    it('should apply options to findOne', () => {
+      const result = db.findOne(
+        'users',
+        { age: { gte: 25 } },
+        { orderBy: { age: 'desc' }, offset: 1, select: ['name'] },
+      );
+      expect(result).toEqual({ name: 'Alice' });
+    });
+
+    it('should reject invalid paging and directions', () => {
+      expect(() => db.find('users', undefined, { limit: -1 })).toThrow('Invalid limit');
+      expect(() => db.find('users', undefined, { offset: 1.5 })).toThrow('Invalid offset');
+      expect(() => db.find('users', undefined, { orderBy: { id: 'sideways' as 'asc' } })).toThrow(
+        'Invalid order direction',
+      );
+    });
+
+    it('should reject an empty select', () => {
+      expect(() => db.find('users', undefined, { select: [] })).toThrow('Invalid select');
+      expect(() => db.find('users', { age: (age: unknown) => (age as number) >= 30 }, { select: [] })).toThrow(
+        'Invalid select',
+      );
+      expect(() => db.findOne('users', { id: 1 }, { select: [] })).toThrow('Invalid select');
+    });
+
+    it('should narrow the return type to the selected columns', () => {
+      const typedDb = db as unknown as LinesDB<{ users: User & Record<string, unknown> }>;
+
+      expectTypeOf(typedDb.find('users')).toEqualTypeOf<(User & Record<string, unknown>)[]>();
+      expectTypeOf(typedDb.find('users', undefined, { select: ['id', 'name'] })).toEqualTypeOf<
+        Pick<User & Record<string, unknown>, 'id' | 'name'>[]
+      >();
+      expectTypeOf(typedDb.findOne('users', { id: 1 }, { select: ['email'] })).toEqualTypeOf<Pick<
+        User & Record<string, unknown>,
+        'email'
+      > | null>();
+    });
+  });
+
+  describe('events', () => {
+    it('should type the changed rows by table', () => {
+      const typedDb = db as unknown as LinesDB<{
+        users: User & Record<string, unknown>;
+        products: { id: number; price: number };
+      }>;
+      const rows: unknown[] = [];
+
+      typedDb.on('update', (event) => {
+        if (event.table === 'products') {
+          expectTypeOf(event.changes[0].after).toEqualTypeOf<{ id: number; price: number } | null>();
+        }
+        rows.push(...event.changes.map((change) => change.after));
+      });
+      typedDb.update('users', { age: 26 }, { id: 2 });
+
+      expect(rows).toEqual([expect.objectContaining({ id: 2, name: 'Bob', age: 26 })]);
+    });
+  });
+
   describe('query', () => {
     it('should execute custom SQL queries', () => {
       const result = db.query<User>('SELECT * FROM users WHERE age > ?', [25]);
@@ -24,6 +24,22 @@ export type Tables = {
   users: InferOutput<typeof usersSchema>;
 };
 
-export const config: DatabaseConfig<Tables> = {
+export type Relations = {
+  'orders-with-fk': {
+    customer: { table: 'customers'; many: false };
+  };
+  customers: {
+    'orders-with-fk': { table: 'orders-with-fk'; many: true };
+  };
+};
+
+export type PrimaryKeys = {
+  customers: 'id';
+  'orders-with-fk': 'id';
+  'test-migrate': 'id';
+  users: 'id';
+};
+
+export const config: DatabaseConfig<Tables, Relations, PrimaryKeys> = {
   dataDir: __dirname,
 };
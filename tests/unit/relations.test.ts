@@ -0,0 +1,125 @@
+import { describe, it, beforeEach, afterEach, expect, expectTypeOf } from 'vitest';
+import { LinesDB, type DatabaseConfig, type TableDefs } from '@toiroakr/lines-db';
+import { join } from 'node:path';
+import { mkdir, rm, cp, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname } from 'node:path';
+import type { Relations, Tables } from './fixtures/db.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe('Relation loading', () => {
+  let db: LinesDB<TableDefs>;
+  let testDir: string;
+  let config: DatabaseConfig;
+
+  beforeEach(async () => {
+    const testTmpDir = join(__dirname, '.test-tmp');
+    await mkdir(testTmpDir, { recursive: true });
+
+    testDir = join(testTmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`);
+    await mkdir(testDir);
+
+    await cp(join(__dirname, './fixtures'), testDir, { recursive: true });
+    process.env.LINES_DB_TEST_PROJECT_ROOT = '';
+
+    config = { dataDir: testDir };
+    db = LinesDB.create(config);
+    await db.initialize();
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (testDir) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+    delete process.env.LINES_DB_TEST_PROJECT_ROOT;
+  });
+
+  it('should include the row a foreign key references', () => {
+    const orders = db.find('orders-with-fk', { id: { in: [1, 2] } }, { include: { customer: true } });
+
+    expect(orders).toHaveLength(2);
+    expect(orders[0].customer).toEqual({ id: 1, name: 'John Doe', email: 'john@example.com' });
+    expect(orders[1].customer).toEqual(orders[0].customer);
+  });
+
+  it('should include the rows referencing a row', () => {
+    const customers = db.find('customers', undefined, {
+      orderBy: { id: 'asc' },
+      include: { 'orders-with-fk': true },
+    });
+
+    expect(customers.map((c) => (c['orders-with-fk'] as unknown[]).length)).toEqual([3, 0, 0]);
+    expect(customers[0]['orders-with-fk']).toContainEqual({ id: 2, customerId: 1, amount: 50, status: 'pending' });
+  });
+
+  it('should include relations with findOne and keep the selected columns', () => {
+    const order = db.findOne('orders-with-fk', { id: 3 }, { select: ['amount'], include: { customer: true } });
+
+    expect(order).toEqual({
+      amount: 75.25,
+      customer: { id: 1, name: 'John Doe', email: 'john@example.com' },
+    });
+  });
+
+  it('should use the names the foreign key gives its relations', async () => {
+    await writeFile(join(testDir, 'authors.jsonl'), '{"id":1,"name":"Ann","active":true}\n');
+    await writeFile(
+      join(testDir, 'posts.jsonl'),
+      '{"id":1,"writer":1,"tags":["a"]}\n{"id":2,"writer":null,"tags":[]}\n',
+    );
+    await writeFile(
+      join(testDir, 'posts.schema.ts'),
+      `import * as v from 'valibot';
+import { defineSchema } from '@toiroakr/lines-db';
+
+export const schema = defineSchema(
+  v.object({ id: v.number(), writer: v.nullable(v.number()), tags: v.array(v.string()) }),
+  {
+    primaryKey: 'id',
+    foreignKeys: [{ column: 'writer', references: { table: 'authors', column: 'id' }, as: 'author', inverseAs: 'posts' }],
+  },
+);
+`,
+    );
+
+    const relationDb = LinesDB.create(config);
+    await relationDb.initialize();
+
+    try {
+      const posts = relationDb.find('posts', undefined, { orderBy: { id: 'asc' }, include: { author: true } });
+      expect(posts.map((post) => post.author)).toEqual([{ id: 1, name: 'Ann', active: true }, null]);
+
+      const author = relationDb.findOne('authors', { id: 1 }, { include: { posts: true } });
+      expect(author?.posts).toEqual([{ id: 1, writer: 1, tags: ['a'] }]);
+    } finally {
+      await relationDb.close();
+    }
+  });
+
+  it('should reject relations the foreign keys do not declare', () => {
+    expect(() => db.find('orders-with-fk', undefined, { include: { product: true } })).toThrow(
+      "Relation 'product' not found for table 'orders-with-fk'",
+    );
+  });
+
+  it('should type included relations from the generated relations', () => {
+    const typedDb = db as unknown as LinesDB<Tables, Relations>;
+
+    const order = typedDb.findOne('orders-with-fk', { id: 1 }, { include: { customer: true } });
+    expectTypeOf(order!.customer).toEqualTypeOf<Tables['customers'] | null>();
+
+    const customers = typedDb.find('customers', undefined, { include: { 'orders-with-fk': true } });
+    expectTypeOf(customers[0]['orders-with-fk']).toEqualTypeOf<Tables['orders-with-fk'][]>();
+
+    // Without relations, an included relation is not guessed from its name
+    const untyped = (db as unknown as LinesDB<Tables>).findOne(
+      'orders-with-fk',
+      { id: 1 },
+      { include: { customer: true } },
+    );
+    expectTypeOf(untyped!.customer).toEqualTypeOf<unknown>();
+  });
+});
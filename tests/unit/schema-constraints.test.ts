@@ -1,5 +1,6 @@
 import { describe, it, beforeEach, afterEach, expect } from 'vitest';
-import { LinesDB, type DatabaseConfig, type TableDefs } from '@toiroakr/lines-db';
+import { LinesDB, defineSchema, type DatabaseConfig, type TableDefs } from '@toiroakr/lines-db';
+import * as v from 'valibot';
 import { join } from 'node:path';
 import { mkdir, rm, cp, writeFile } from 'node:fs/promises';
 import { fileURLToPath } from 'node:url';
@@ -58,6 +59,16 @@ describe('Schema Constraints (Primary Keys, Foreign Keys, Indexes)', () => {
         ]);
       }).toThrow();
     });
+
+    it('should only accept the schema columns as primary key columns', () => {
+      const userRoles = v.object({ userId: v.number(), roleId: v.number() });
+
+      expect(defineSchema(userRoles, { primaryKey: ['userId', 'roleId'] }).primaryKey).toEqual(['userId', 'roleId']);
+      // @ts-expect-error - roleName is not a column of the schema
+      defineSchema(userRoles, { primaryKey: ['userId', 'roleName'] });
+      // @ts-expect-error - id is not a column of the schema
+      defineSchema(userRoles, { primaryKey: 'id' });
+    });
   });
 
   describe('Foreign Key Constraints', () => {
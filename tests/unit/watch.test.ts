@@ -0,0 +1,209 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
+import { DirectoryScanner, LinesDB, type LinesDBWatcher } from '@toiroakr/lines-db';
+import { join } from 'node:path';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { once } from 'node:events';
+import { fileURLToPath } from 'node:url';
+import { dirname } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const postsSchemaSource = () => `import * as v from 'valibot';
+import { defineSchema } from '@toiroakr/lines-db';
+
+export const schema = defineSchema(v.object({ id: v.number(), authorId: v.number(), title: v.string() }), {
+  primaryKey: 'id',
+  foreignKeys: [{ column: 'authorId', references: { table: 'authors', column: 'id' } }],
+});
+`;
+
+type Tables = {
+  authors: { id: number; name: string };
+  posts: { id: number; authorId: number; title: string };
+};
+
+describe('Watch mode', () => {
+  let db: LinesDB<Tables>;
+  let watcher: LinesDBWatcher;
+  let testDir: string;
+
+  beforeEach(async () => {
+    const testTmpDir = join(__dirname, '.test-tmp');
+    await mkdir(testTmpDir, { recursive: true });
+
+    testDir = join(testTmpDir, `test-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`);
+    await mkdir(testDir);
+
+    await writeFile(join(testDir, 'authors.jsonl'), '{"id":1,"name":"Alice"}\n{"id":2,"name":"Bob"}\n');
+    await writeFile(join(testDir, 'posts.jsonl'), '{"id":1,"authorId":1,"title":"Hello"}\n');
+    await writeFile(join(testDir, 'posts.schema.ts'), postsSchemaSource());
+
+    db = LinesDB.create<Tables>({ dataDir: testDir });
+    await db.initialize();
+    watcher = db.watch({ debounceMs: 50 });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await db.close();
+    if (testDir) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reload a table and the tables referencing it when its file changes', async () => {
+    const reloaded = once(watcher, 'reload');
+    await writeFile(join(testDir, 'authors.jsonl'), '{"id":1,"name":"Alicia"}\n');
+    const [event] = await reloaded;
+
+    expect(event.tables).toEqual(['authors', 'posts']);
+    expect(event.result.valid).toBe(true);
+    expect(db.find('authors')).toEqual([{ id: 1, name: 'Alicia' }]);
+    expect(db.find('posts')).toEqual([{ id: 1, authorId: 1, title: 'Hello' }]);
+  });
+
+  it('should reload a table when its schema file changes', async () => {
+    const reloaded = once(watcher, 'reload');
+    await writeFile(join(testDir, 'posts.jsonl'), '{"id":1,"authorId":2,"title":"Hi"}\n');
+    await writeFile(join(testDir, 'posts.schema.ts'), postsSchemaSource());
+    const [event] = await reloaded;
+
+    expect(event.tables).toEqual(['posts']);
+    expect(db.find('posts')).toEqual([{ id: 1, authorId: 2, title: 'Hi' }]);
+  });
+
+  it('should report the validation result of a reload that fails', async () => {
+    const failed = once(watcher, 'error');
+    await writeFile(join(testDir, 'authors.jsonl'), '{"id":2,"name":"Bob"}\n');
+    const [error, event] = await failed;
+
+    expect(error.message).toContain('authors, posts');
+    expect(event.result.valid).toBe(false);
+    expect(event.result.errors).toEqual([
+      expect.objectContaining({ tableName: 'posts', type: 'foreignKey', rowIndex: 0 }),
+    ]);
+    expect(db.find('authors')).toEqual([{ id: 2, name: 'Bob' }]);
+  });
+
+  it('should not reload files written by its own sync', async () => {
+    const reloads: string[][] = [];
+    watcher.on('reload', (event) => reloads.push(event.tables));
+
+    db.insert('authors', { id: 3, name: 'Carol' });
+    await db.sync();
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(reloads).toEqual([]);
+
+    const reloaded = once(watcher, 'reload');
+    await writeFile(join(testDir, 'posts.jsonl'), '{"id":1,"authorId":3,"title":"Hi"}\n');
+    await reloaded;
+
+    expect(reloads).toEqual([['posts']]);
+    expect(db.find('authors')).toHaveLength(3);
+  });
+
+  it('should reload a table in a subdirectory', async () => {
+    await watcher.close();
+    await mkdir(join(testDir, 'admin'));
+    await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1,"name":"Alice"}\n');
+    const nested = LinesDB.create<{ 'admin.users': { id: number; name: string } }>({ dataDir: testDir });
+    try {
+      await nested.initialize();
+      const nestedWatcher = nested.watch({ debounceMs: 50 });
+
+      const reloaded = once(nestedWatcher, 'reload');
+      await writeFile(join(testDir, 'admin', 'users.jsonl'), '{"id":1,"name":"Alicia"}\n');
+      const [event] = await reloaded;
+
+      expect(event.tables).toEqual(['admin.users']);
+      expect(nested.find('admin.users')).toEqual([{ id: 1, name: 'Alicia' }]);
+    } finally {
+      await nested.close();
+    }
+  });
+
+  it('should reload a table from its directory of shards', async () => {
+    await watcher.close();
+    await mkdir(join(testDir, 'logs'));
+    await writeFile(join(testDir, 'logs', '2024.jsonl'), '{"id":1,"type":"boot"}\n');
+    await writeFile(join(testDir, 'logs.schema.ts'), 'export const schema = { primaryKey: "id" };\n');
+    const sharded = LinesDB.create<{ logs: { id: number; type: string } }>({ dataDir: testDir });
+    try {
+      await sharded.initialize();
+      const shardedWatcher = sharded.watch({ debounceMs: 50 });
+
+      const reloaded = once(shardedWatcher, 'reload');
+      await writeFile(join(testDir, 'logs', '2024.jsonl'), '{"id":1,"type":"halt"}\n');
+      const [event] = await reloaded;
+
+      expect(event.tables).toEqual(['logs']);
+      expect(sharded.find('logs')).toEqual([{ id: 1, type: 'halt' }]);
+    } finally {
+      await sharded.close();
+    }
+  });
+
+  it('should reload a table from its directory of records', async () => {
+    await watcher.close();
+    await mkdir(join(testDir, 'articles'));
+    await writeFile(join(testDir, 'articles', 'hello.json'), '{"slug":"hello","title":"Hello"}\n');
+    await writeFile(join(testDir, 'articles.schema.ts'), 'export const schema = { primaryKey: "slug" };\n');
+    const records = LinesDB.create<{ articles: { slug: string; title: string } }>({ dataDir: testDir });
+    try {
+      await records.initialize();
+      const recordsWatcher = records.watch({ debounceMs: 50 });
+
+      const reloaded = once(recordsWatcher, 'reload');
+      await writeFile(join(testDir, 'articles', 'hello.json'), '{"slug":"hello","title":"Hello, world"}\n');
+      const [event] = await reloaded;
+
+      expect(event.tables).toEqual(['articles']);
+      expect(records.find('articles')).toEqual([{ slug: 'hello', title: 'Hello, world' }]);
+    } finally {
+      await records.close();
+    }
+  });
+
+  it('should wait for a transaction started while it reads the directory', async () => {
+    await watcher.close();
+    const overwriting = LinesDB.create<Tables>({ dataDir: testDir, onSyncConflict: 'overwrite' });
+    try {
+      await overwriting.initialize();
+      const overwritingWatcher = overwriting.watch({ debounceMs: 50 });
+
+      const scanDirectory = DirectoryScanner.scanDirectory.bind(DirectoryScanner);
+      let transaction: Promise<void> | undefined;
+      vi.spyOn(DirectoryScanner, 'scanDirectory').mockImplementationOnce(async (...args) => {
+        const scanned = await scanDirectory(...args);
+        transaction = overwriting.transaction(async (tx) => {
+          tx.insert('posts', { id: 2, authorId: 1, title: 'Again' });
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        });
+        return scanned;
+      });
+
+      const reloaded = once(overwritingWatcher, 'reload');
+      await writeFile(join(testDir, 'authors.jsonl'), '{"id":1,"name":"Alicia"}\n');
+      const [event] = await reloaded;
+      await transaction;
+
+      // The reload reads the files the transaction wrote back rather than dropping its rows
+      expect(event.result.valid).toBe(true);
+      expect(overwriting.find('posts')).toEqual([
+        { id: 1, authorId: 1, title: 'Hello' },
+        { id: 2, authorId: 1, title: 'Again' },
+      ]);
+    } finally {
+      await overwriting.close();
+    }
+  });
+
+  it('should stop reloading once closed', async () => {
+    await watcher.close();
+    await writeFile(join(testDir, 'authors.jsonl'), '{"id":1,"name":"Alicia"}\n');
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(db.find('authors')).toHaveLength(2);
+  });
+});
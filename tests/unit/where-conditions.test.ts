@@ -154,6 +154,86 @@ describe('LinesDB WHERE Conditions', () => {
     });
   });
 
+  describe('Comparison operators', () => {
+    it('should filter with gt and lte', () => {
+      const result = db.find('users', { age: { gt: 25, lte: 35 } }) as unknown as User[];
+      expect(result.map((u) => u.name).sort()).toEqual(['Alice', 'Charlie']);
+    });
+
+    it('should filter with in and notIn', () => {
+      const included = db.find('users', { name: { in: ['Alice', 'Bob'] } }) as unknown as User[];
+      expect(included.map((u) => u.name).sort()).toEqual(['Alice', 'Bob']);
+
+      const excluded = db.find('users', { name: { notIn: ['Alice', 'Bob'] } }) as unknown as User[];
+      expect(excluded.map((u) => u.name)).toEqual(['Charlie']);
+    });
+
+    it('should match nothing with an empty in list', () => {
+      expect(db.find('users', { name: { in: [] } })).toEqual([]);
+      expect(db.find('users', { name: { notIn: [] } })).toHaveLength(3);
+    });
+
+    it('should filter with like, between, ne and isNull', () => {
+      const liked = db.find('users', { email: { like: '%@EXAMPLE.com' }, name: { like: 'b%' } }) as unknown as User[];
+      expect(liked.map((u) => u.name)).toEqual(['Bob']);
+
+      const between = db.find('users', { age: { between: [26, 35] } }) as unknown as User[];
+      expect(between.map((u) => u.name).sort()).toEqual(['Alice', 'Charlie']);
+
+      const notBob = db.find('users', { name: { ne: 'Bob' } }) as unknown as User[];
+      expect(notBob.map((u) => u.name).sort()).toEqual(['Alice', 'Charlie']);
+
+      expect(db.find('users', { email: { isNull: true } })).toEqual([]);
+      expect(db.find('users', { email: { isNull: false } })).toHaveLength(3);
+    });
+
+    it('should fold only ASCII case in like, as SQLite does, in OR conditions with function filters too', () => {
+      db.insert('users', { id: 10, name: 'Émile', age: 40, email: 'emile@example.com' });
+      const nobody = () => false;
+
+      for (const where of [
+        (like: string) => ({ name: { like } }),
+        (like: string) => [{ name: { like } }, { age: nobody }],
+      ]) {
+        expect(db.find('users', where('é%'))).toEqual([]);
+        expect((db.find('users', where('ÉMI%')) as unknown as User[]).map((u) => u.name)).toEqual(['Émile']);
+      }
+    });
+
+    it('should combine operators with OR conditions and function filters', () => {
+      const result = db.find('users', [
+        { age: { lt: 26 } },
+        { name: (name: unknown) => (name as string).startsWith('C'), age: { gte: 35 } },
+      ]) as unknown as User[];
+      expect(result.map((u) => u.name).sort()).toEqual(['Bob', 'Charlie']);
+    });
+
+    it('should work with findOne', () => {
+      const result = db.findOne('users', { age: { gte: 35 } }) as unknown as User | null;
+      expect(result?.name).toBe('Charlie');
+    });
+
+    it('should update and delete with operators', () => {
+      db.update('users', { age: 100 }, { age: { gt: 25 } });
+      const updated = db.find('users', { age: 100 }) as unknown as User[];
+      expect(updated.map((u) => u.name).sort()).toEqual(['Alice', 'Charlie']);
+
+      db.delete('users', { age: { in: [100] } });
+      const remaining = db.find('users') as unknown as User[];
+      expect(remaining.map((u) => u.name)).toEqual(['Bob']);
+    });
+
+    it('should type operators per column', () => {
+      const typedDb = db as unknown as LinesDB<{ users: { id: number; name: string; age: number; email: string } }>;
+
+      typedDb.find('users', { age: { gt: 18 }, name: { like: 'A%' } });
+      // @ts-expect-error - age is a number column
+      typedDb.find('users', { age: { gt: '18' } });
+      // @ts-expect-error - like only applies to string columns
+      typedDb.find('users', { age: { like: '1%' } });
+    });
+  });
+
   describe('Update and Delete with conditions', () => {
     it('should update with OR condition', () => {
       db.update('users', { age: 100 }, [{ name: 'Alice' }, { name: 'Bob' }]);
@@ -57,6 +57,21 @@ export const schema = defineSchema(
 );
 `;
 
+/** Join table keyed on both of its columns; validation fills in who granted each role */
+const USER_ROLE_SCHEMA = `import { defineSchema } from '@toiroakr/lines-db';
+
+export const schema = defineSchema(
+  {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (data) => ({ value: { grantedBy: 'root', ...data } }),
+    },
+    primaryKey: ['userId', 'roleId'],
+  },
+);
+`;
+
 async function readJsonl(filePath: string): Promise<Record<string, unknown>[]> {
   const content = await readFile(filePath, 'utf-8');
   return content
@@ -176,6 +191,27 @@ describe('write-back fields', () => {
     ]);
   });
 
+  it('matches rows by every column of a composite primary key', async () => {
+    await writeFile(
+      join(testDir, 'UserRole.jsonl'),
+      `{"userId":1,"roleId":1,"note":"a"}\n{"userId":1,"roleId":2,"note":"b"}\n{"userId":2,"roleId":1,"note":"c"}\n`,
+    );
+    await writeFile(join(testDir, 'UserRole.schema.ts'), USER_ROLE_SCHEMA);
+
+    const db = LinesDB.create({ dataDir: testDir, writeBackFields: ['grantedBy'] });
+    await db.initialize({ tableName: 'UserRole' });
+    // Neither column alone tells the lines apart, so a deleted row must not shift the others
+    db.delete('UserRole', { userId: 1, roleId: 1 });
+    db.update('UserRole', { grantedBy: 'admin' }, { userId: 2, roleId: 1 });
+    await db.sync('UserRole');
+    await db.close();
+
+    expect(await readJsonl(join(testDir, 'UserRole.jsonl'))).toEqual([
+      { userId: 1, roleId: 2, note: 'b', grantedBy: 'root' },
+      { userId: 2, roleId: 1, note: 'c', grantedBy: 'admin' },
+    ]);
+  });
+
   it('writes rows that have no matching line in full', async () => {
     await writeFile(dataPath, `{"id":"u1","name":"John"}\n`);
 